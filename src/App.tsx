@@ -1,5 +1,6 @@
 import { useMemo, useState, useEffect, useCallback } from 'react';
 import { useCabinetStore } from './store/cabinetStore';
+import type { PatternZone } from './types';
 import { Header } from './components/Header';
 import { Sidebar } from './components/Sidebar';
 import { PropertiesPanel } from './components/PropertiesPanel';
@@ -36,6 +37,39 @@ function App() {
     }
   }, [selectedCabinet, updateCabinet]);
 
+  // Handle zone proportions change within a column (column-based patterns)
+  const handleColumnZoneProportionsChange = useCallback((columnId: string, proportions: number[]) => {
+    if (selectedCabinet) {
+      updateCabinet(selectedCabinet.id, {
+        columnZoneProportions: { ...selectedCabinet.columnZoneProportions, [columnId]: proportions },
+      });
+    }
+  }, [selectedCabinet, updateCabinet]);
+
+  // Handle zone edits from the visualizer: stored as overrides on the cabinet, not the pattern
+  const handleZoneUpdate = useCallback((zoneId: string, updates: Partial<PatternZone>) => {
+    if (selectedCabinet) {
+      const current = selectedCabinet.zoneOverrides?.[zoneId];
+      updateCabinet(selectedCabinet.id, {
+        zoneOverrides: {
+          ...selectedCabinet.zoneOverrides,
+          [zoneId]: {
+            ...current,
+            ...updates,
+            ...(updates.options && { options: { ...current?.options, ...updates.options } }),
+          },
+        },
+      });
+    }
+  }, [selectedCabinet, updateCabinet]);
+
+  const handleZoneReset = useCallback((zoneId: string) => {
+    if (selectedCabinet?.zoneOverrides) {
+      const { [zoneId]: _removed, ...zoneOverrides } = selectedCabinet.zoneOverrides;
+      updateCabinet(selectedCabinet.id, { zoneOverrides });
+    }
+  }, [selectedCabinet, updateCabinet]);
+
   // Apply dark mode class to document
   useEffect(() => {
     if (ui.isDarkMode) {
@@ -74,6 +108,9 @@ function App() {
               dimensions={selectedCabinet?.dimensions ?? { height: 720, width: 600, depth: 560 }}
               globalSettings={globalSettings}
               onZoneProportionsChange={handleZoneProportionsChange}
+              onColumnZoneProportionsChange={handleColumnZoneProportionsChange}
+              onZoneUpdate={handleZoneUpdate}
+              onZoneReset={handleZoneReset}
               className="w-full h-full"
             />
           </div>
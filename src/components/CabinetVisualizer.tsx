@@ -1,6 +1,7 @@
 import { useMemo, useState, useCallback, useRef } from 'react';
 import type { CabinetPattern, CabinetInstance, GlobalSettings, PatternZone } from '../types';
 import { ZoneEditModal } from './ZoneEditModal';
+import { applyZoneOverrides, resolveProportions } from '../utils/cabinetLogic';
 
 // ============================================
 // Configuration Constants
@@ -61,22 +62,32 @@ interface CabinetVisualizerProps {
   };
   globalSettings: GlobalSettings;
   onZoneProportionsChange?: (proportions: number[]) => void;
+  onColumnZoneProportionsChange?: (columnId: string, proportions: number[]) => void;
   onZoneUpdate?: (zoneId: string, updates: Partial<PatternZone>) => void;
+  onZoneReset?: (zoneId: string) => void;
   className?: string;
 }
 
 export function CabinetVisualizer({
-  pattern,
+  pattern: basePattern,
   cabinet,
   dimensions,
   globalSettings,
   onZoneProportionsChange,
+  onColumnZoneProportionsChange,
   onZoneUpdate,
+  onZoneReset,
   className = '',
 }: CabinetVisualizerProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [isDragging, setIsDragging] = useState<number | null>(null);
-  const [editingZone, setEditingZone] = useState<CalculatedZone | null>(null);
+  const [editingZoneId, setEditingZoneId] = useState<string | null>(null);
+
+  // Pattern as customized by this instance (zone type, material, hinge side)
+  const pattern = useMemo(
+    () => basePattern && applyZoneOverrides(basePattern, cabinet?.zoneOverrides),
+    [basePattern, cabinet?.zoneOverrides]
+  );
   
   // Get zone proportions from cabinet or default to equal distribution
   const zoneProportions = useMemo(() => {
@@ -119,15 +130,138 @@ export function CabinetVisualizer({
   const internalX = padding + scaledThickness;
   const internalY = padding + scaledThickness;
 
+  // Check if pattern uses new column-based structure
+  const hasColumns = pattern?.columns && pattern.columns.length > 0;
+  
+  // Calculate column proportions
+  const columnProportions = useMemo(() => {
+    if (!pattern?.columns || pattern.columns.length === 0) return [];
+    // Instance proportions first, then pattern, then equal (same as the part calculator)
+    return resolveProportions(cabinet?.columnProportions ?? pattern.columnProportions, pattern.columns.length);
+  }, [pattern?.columns, pattern?.columnProportions, cabinet?.columnProportions]);
+
+  // Calculate columns with zones
+  const calculatedColumns = useMemo((): CalculatedColumn[] => {
+    if (!pattern?.columns || pattern.columns.length === 0) return [];
+    
+    const columns: CalculatedColumn[] = [];
+    let currentX = internalX;
+    
+    for (let colIdx = 0; colIdx < pattern.columns.length; colIdx++) {
+      const column = pattern.columns[colIdx];
+      const colProportion = columnProportions[colIdx] || (1 / pattern.columns.length);
+      const colWidth = internalWidth * colProportion;
+      
+      // Get zone proportions for this column from cabinet instance
+      const columnZoneProportions = resolveProportions(cabinet?.columnZoneProportions?.[column.id], column.zones.length);
+      
+      // Calculate zones within this column
+      const calculatedZones: CalculatedZone[] = [];
+      let currentY = internalY;
+      
+      for (let zoneIdx = 0; zoneIdx < column.zones.length; zoneIdx++) {
+        const zone = column.zones[zoneIdx];
+        const zoneProportion = columnZoneProportions[zoneIdx] || (1 / column.zones.length);
+        const zoneHeight = internalHeight * zoneProportion;
+        
+        calculatedZones.push({
+          ...zone,
+          x: currentX,
+          y: currentY,
+          width: colWidth,
+          height: zoneHeight,
+          actualHeight: Math.round((cabinetHeight - materialThickness * 2) * zoneProportion),
+          actualWidth: Math.round((cabinetWidth - materialThickness * (pattern.columns.length + 1)) * colProportion),
+          proportion: zoneProportion,
+          level: 0,
+          columnIndex: colIdx,
+          zoneIndex: zoneIdx,
+        });
+        
+        currentY += zoneHeight;
+      }
+      
+      columns.push({
+        id: column.id,
+        x: currentX,
+        y: internalY,
+        width: colWidth,
+        height: internalHeight,
+        proportion: colProportion,
+        zones: calculatedZones,
+      });
+      
+      currentX += colWidth;
+    }
+    
+    return columns;
+  }, [pattern?.columns, columnProportions, cabinet?.columnZoneProportions, internalX, internalY, internalWidth, internalHeight, cabinetWidth, cabinetHeight, materialThickness]);
+
+  // Calculate zone positions - legacy support for non-column patterns
+  const zones = useMemo((): CalculatedZone[] => {
+    // If using columns, flatten all column zones
+    if (hasColumns && calculatedColumns.length > 0) {
+      return calculatedColumns.flatMap(col => col.zones);
+    }
+    
+    // Legacy support
+    if (!pattern || !pattern.zones || pattern.zones.length === 0) return [];
+    if (!zoneProportions || zoneProportions.length === 0) return [];
+    
+    const result: CalculatedZone[] = [];
+    let currentY = internalY;
+    
+    for (let i = 0; i < pattern.zones.length; i++) {
+      const zone = pattern.zones[i];
+      const proportion = zoneProportions[i] || (1 / pattern.zones.length);
+      const height = internalHeight * proportion;
+      
+      result.push({
+        ...zone,
+        x: internalX,
+        y: currentY,
+        width: internalWidth,
+        height,
+        actualHeight: Math.round((cabinetHeight - materialThickness * 2) * proportion),
+        proportion,
+        level: 0,
+        zoneIndex: i,
+      });
+      
+      currentY += height;
+    }
+    
+    return result;
+  }, [hasColumns, calculatedColumns, pattern, zoneProportions, internalX, internalY, internalWidth, internalHeight, cabinetWidth, cabinetHeight, materialThickness]);
+
   // Handle drag start
   const handleDragStart = useCallback((dividerIndex: number, e: React.MouseEvent) => {
     e.preventDefault();
     setIsDragging(dividerIndex);
   }, []);
 
+  // Zones are resized within their proportion group: the zone's column for
+  // column-based patterns, the whole cabinet for legacy patterns
+  const getProportionGroup = useCallback((zone: CalculatedZone) => {
+    if (hasColumns && zone.columnIndex !== undefined) {
+      const column = calculatedColumns[zone.columnIndex];
+      return {
+        proportions: column.zones.map(z => z.proportion),
+        index: zone.zoneIndex,
+        commit: (proportions: number[]) => onColumnZoneProportionsChange?.(column.id, proportions),
+      };
+    }
+    return {
+      proportions: zoneProportions,
+      index: zone.zoneIndex,
+      commit: (proportions: number[]) => onZoneProportionsChange?.(proportions),
+    };
+  }, [hasColumns, calculatedColumns, zoneProportions, onColumnZoneProportionsChange, onZoneProportionsChange]);
+
   // Handle drag move - distributes change across ALL zones below the divider
   const handleDragMove = useCallback((e: React.MouseEvent<SVGSVGElement>) => {
-    if (isDragging === null || !pattern) return;
+    if (isDragging === null || !pattern || !zones[isDragging]) return;
+    const { proportions: zoneProportions, index: dividerIndex, commit } = getProportionGroup(zones[isDragging]);
 
     const svg = e.currentTarget;
     const rect = svg.getBoundingClientRect();
@@ -142,25 +276,25 @@ export function CabinetVisualizer({
     
     // Calculate cumulative proportion up to the current divider
     let cumulativeBefore = 0;
-    for (let i = 0; i <= isDragging; i++) {
+    for (let i = 0; i <= dividerIndex; i++) {
       cumulativeBefore += zoneProportions[i];
     }
     
     // Calculate bounds for the divider position
-    const minDividerPos = minZoneProportion * (isDragging + 1);
-    const maxDividerPos = 1 - minZoneProportion * (zoneCount - isDragging - 1);
+    const minDividerPos = minZoneProportion * (dividerIndex + 1);
+    const maxDividerPos = 1 - minZoneProportion * (zoneCount - dividerIndex - 1);
     
     // Clamp the new divider position
     const newDividerPos = Math.max(minDividerPos, Math.min(maxDividerPos, relativeY));
     
     // Calculate how much the upper zone needs to change
     let cumulative = 0;
-    for (let i = 0; i < isDragging; i++) {
+    for (let i = 0; i < dividerIndex; i++) {
       cumulative += newProportions[i];
     }
     
     const newUpperZone = newDividerPos - cumulative;
-    const oldUpperZone = newProportions[isDragging];
+    const oldUpperZone = newProportions[dividerIndex];
     const diff = newUpperZone - oldUpperZone;
     
     // Validate the upper zone meets minimum
@@ -168,24 +302,24 @@ export function CabinetVisualizer({
     
     // Calculate total proportion available below the divider
     let totalBelow = 0;
-    for (let i = isDragging + 1; i < zoneCount; i++) {
+    for (let i = dividerIndex + 1; i < zoneCount; i++) {
       totalBelow += newProportions[i];
     }
     
     // Check if we can distribute the change
     const newTotalBelow = totalBelow - diff;
-    const zonesBelow = zoneCount - isDragging - 1;
+    const zonesBelow = zoneCount - dividerIndex - 1;
     
     if (newTotalBelow < minZoneProportion * zonesBelow) return;
     
     // Apply change to upper zone
-    newProportions[isDragging] = newUpperZone;
+    newProportions[dividerIndex] = newUpperZone;
     
     // Distribute the difference proportionally among ALL zones below
     // This is the key change - instead of just affecting the adjacent zone,
     // we distribute the change proportionally to all zones below
     if (totalBelow > 0) {
-      for (let i = isDragging + 1; i < zoneCount; i++) {
+      for (let i = dividerIndex + 1; i < zoneCount; i++) {
         // Scale each zone's proportion based on its share of the total below
         const shareOfBelow = newProportions[i] / totalBelow;
         newProportions[i] = Math.max(minZoneProportion, newTotalBelow * shareOfBelow);
@@ -196,8 +330,8 @@ export function CabinetVisualizer({
     const sum = newProportions.reduce((a, b) => a + b, 0);
     const normalized = newProportions.map(p => p / sum);
     
-    onZoneProportionsChange?.(normalized);
-  }, [isDragging, pattern, zoneProportions, internalHeight, internalY, onZoneProportionsChange]);
+    commit(normalized);
+  }, [isDragging, pattern, zones, getProportionGroup, internalHeight, internalY]);
 
   // Handle drag end
   const handleDragEnd = useCallback(() => {
@@ -206,15 +340,21 @@ export function CabinetVisualizer({
 
   // Handle double-click on zone to open edit modal
   const handleZoneDoubleClick = useCallback((zone: CalculatedZone) => {
-    setEditingZone(zone);
+    setEditingZoneId(zone.id);
   }, []);
 
+  // Zone being edited, kept in sync with overrides applied while the modal is open
+  const editingZone = useMemo(
+    () => zones.find((zone) => zone.id === editingZoneId) ?? null,
+    [zones, editingZoneId]
+  );
+
   // Handle height change from modal (converts mm to proportion)
   const handleZoneHeightChange = useCallback((newHeightMm: number) => {
     if (!editingZone || !pattern) return;
     
+    const { proportions: zoneProportions, index: zoneIndex, commit } = getProportionGroup(editingZone);
     const newProportion = newHeightMm / realInternalHeight;
-    const zoneIndex = editingZone.zoneIndex;
     const newProportions = [...zoneProportions];
     const oldProportion = newProportions[zoneIndex];
     const diff = newProportion - oldProportion;
@@ -265,116 +405,8 @@ export function CabinetVisualizer({
     const sum = newProportions.reduce((a, b) => a + b, 0);
     const normalized = newProportions.map(p => p / sum);
     
-    onZoneProportionsChange?.(normalized);
-  }, [editingZone, pattern, zoneProportions, realInternalHeight, onZoneProportionsChange]);
-
-  // Check if pattern uses new column-based structure
-  const hasColumns = pattern?.columns && pattern.columns.length > 0;
-  
-  // Calculate column proportions
-  const columnProportions = useMemo(() => {
-    if (!pattern?.columns || pattern.columns.length === 0) return [];
-    if (pattern.columnProportions && pattern.columnProportions.length === pattern.columns.length) {
-      return pattern.columnProportions;
-    }
-    // Default: equal proportions
-    return Array(pattern.columns.length).fill(1 / pattern.columns.length);
-  }, [pattern?.columns, pattern?.columnProportions]);
-
-  // Calculate columns with zones
-  const calculatedColumns = useMemo((): CalculatedColumn[] => {
-    if (!pattern?.columns || pattern.columns.length === 0) return [];
-    
-    const columns: CalculatedColumn[] = [];
-    let currentX = internalX;
-    
-    for (let colIdx = 0; colIdx < pattern.columns.length; colIdx++) {
-      const column = pattern.columns[colIdx];
-      const colProportion = columnProportions[colIdx] || (1 / pattern.columns.length);
-      const colWidth = internalWidth * colProportion;
-      
-      // Get zone proportions for this column from cabinet instance
-      const columnZoneProportions = cabinet?.columnZoneProportions?.[column.id] 
-        || column.zones.map(() => 1 / column.zones.length);
-      
-      // Calculate zones within this column
-      const calculatedZones: CalculatedZone[] = [];
-      let currentY = internalY;
-      
-      for (let zoneIdx = 0; zoneIdx < column.zones.length; zoneIdx++) {
-        const zone = column.zones[zoneIdx];
-        const zoneProportion = columnZoneProportions[zoneIdx] || (1 / column.zones.length);
-        const zoneHeight = internalHeight * zoneProportion;
-        
-        calculatedZones.push({
-          ...zone,
-          x: currentX,
-          y: currentY,
-          width: colWidth,
-          height: zoneHeight,
-          actualHeight: Math.round((cabinetHeight - materialThickness * 2) * zoneProportion),
-          actualWidth: Math.round((cabinetWidth - materialThickness * 2) * colProportion),
-          proportion: zoneProportion,
-          level: 0,
-          columnIndex: colIdx,
-          zoneIndex: zoneIdx,
-        });
-        
-        currentY += zoneHeight;
-      }
-      
-      columns.push({
-        id: column.id,
-        x: currentX,
-        y: internalY,
-        width: colWidth,
-        height: internalHeight,
-        proportion: colProportion,
-        zones: calculatedZones,
-      });
-      
-      currentX += colWidth;
-    }
-    
-    return columns;
-  }, [pattern?.columns, columnProportions, cabinet?.columnZoneProportions, internalX, internalY, internalWidth, internalHeight, cabinetWidth, cabinetHeight, materialThickness]);
-
-  // Calculate zone positions - legacy support for non-column patterns
-  const zones = useMemo((): CalculatedZone[] => {
-    // If using columns, flatten all column zones
-    if (hasColumns && calculatedColumns.length > 0) {
-      return calculatedColumns.flatMap(col => col.zones);
-    }
-    
-    // Legacy support
-    if (!pattern || !pattern.zones || pattern.zones.length === 0) return [];
-    if (!zoneProportions || zoneProportions.length === 0) return [];
-    
-    const result: CalculatedZone[] = [];
-    let currentY = internalY;
-    
-    for (let i = 0; i < pattern.zones.length; i++) {
-      const zone = pattern.zones[i];
-      const proportion = zoneProportions[i] || (1 / pattern.zones.length);
-      const height = internalHeight * proportion;
-      
-      result.push({
-        ...zone,
-        x: internalX,
-        y: currentY,
-        width: internalWidth,
-        height,
-        actualHeight: Math.round((cabinetHeight - materialThickness * 2) * proportion),
-        proportion,
-        level: 0,
-        zoneIndex: i,
-      });
-      
-      currentY += height;
-    }
-    
-    return result;
-  }, [hasColumns, calculatedColumns, pattern, zoneProportions, internalX, internalY, internalWidth, internalHeight, cabinetWidth, cabinetHeight, materialThickness]);
+    commit(normalized);
+  }, [editingZone, pattern, getProportionGroup, realInternalHeight]);
 
   // Empty state
   if (!pattern) {
@@ -700,7 +732,7 @@ export function CabinetVisualizer({
         {/* Column dividers (vertical) */}
         {calculatedColumns.slice(0, -1).map((col, index) => {
           const dividerX = col.x + col.width;
-          const colWidthMm = Math.round((cabinetWidth - materialThickness * 2) * col.proportion);
+          const colWidthMm = Math.round((cabinetWidth - materialThickness * (calculatedColumns.length + 1)) * col.proportion);
           
           return (
             <g key={`col-divider-${index}`}>
@@ -765,9 +797,11 @@ export function CabinetVisualizer({
         totalInternalHeight={realInternalHeight}
         totalInternalWidth={realInternalWidth}
         globalSettings={globalSettings}
-        onClose={() => setEditingZone(null)}
+        onClose={() => setEditingZoneId(null)}
         onHeightChange={handleZoneHeightChange}
         onZoneUpdate={onZoneUpdate ? (updates) => onZoneUpdate(editingZone!.id, updates) : undefined}
+        isOverridden={!!editingZone && !!cabinet?.zoneOverrides?.[editingZone.id]}
+        onZoneReset={onZoneReset ? () => onZoneReset(editingZone!.id) : undefined}
       />
     </div>
   );
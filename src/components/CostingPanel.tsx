@@ -0,0 +1,136 @@
+// ============================================
+// CostingPanel - Project cost estimate with waste, labour and markup
+// ============================================
+
+import type { CostSettings, ProjectCost } from '../types';
+import { resolveCostSettings } from '../utils/costing';
+import { pt } from '../i18n/pt';
+
+const t = pt.cutList.costs;
+
+const formatEuro = (value: number) => `€${value.toFixed(2)}`;
+
+interface CostingPanelProps {
+  cost: ProjectCost;
+  settings?: CostSettings;
+  onChangeSettings: (settings: CostSettings) => void;
+}
+
+interface CostSectionProps {
+  title: string;
+  unitLabel: string;
+  rows: { key: string; name: string; amount: string; unitCost: number; totalCost: number }[];
+}
+
+function CostSection({ title, unitLabel, rows }: CostSectionProps) {
+  if (rows.length === 0) return null;
+  const total = rows.reduce((sum, row) => sum + row.totalCost, 0);
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
+      <div className="bg-gray-100 dark:bg-gray-800 px-4 py-2 flex justify-between">
+        <h3 className="font-semibold text-gray-900 dark:text-white text-sm">{title}</h3>
+        <span className="text-sm font-mono text-gray-700 dark:text-gray-300">{formatEuro(total)}</span>
+      </div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 dark:text-gray-400 text-xs uppercase">
+            <th className="py-2 px-4">{t.item}</th>
+            <th className="py-2 px-2 text-right">{unitLabel}</th>
+            <th className="py-2 px-2 text-right">{t.unitCost}</th>
+            <th className="py-2 px-4 text-right">{t.total}</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+          {rows.map((row) => (
+            <tr key={row.key} className="text-gray-900 dark:text-gray-200">
+              <td className="py-1.5 px-4">{row.name}</td>
+              <td className="py-1.5 px-2 text-right font-mono">{row.amount}</td>
+              <td className="py-1.5 px-2 text-right font-mono">{formatEuro(row.unitCost)}</td>
+              <td className="py-1.5 px-4 text-right font-mono">{formatEuro(row.totalCost)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function CostingPanel({ cost, settings, onChangeSettings }: CostingPanelProps) {
+  const resolved = resolveCostSettings(settings);
+
+  // Waste and markup are edited as percentages
+  const fields = [
+    { key: 'wasteFactor', label: t.wasteFactor, percent: true },
+    { key: 'laborRate', label: t.laborRate, percent: false },
+    { key: 'laborHoursPerCabinet', label: t.laborHoursPerCabinet, percent: false },
+    { key: 'markup', label: t.markup, percent: true },
+  ] as const;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-4 gap-3">
+        {fields.map(({ key, label, percent }) => (
+          <label key={key} className="text-xs text-gray-600 dark:text-gray-400">
+            {label}
+            <input
+              type="number"
+              min={0}
+              step={percent ? 1 : 0.5}
+              value={percent ? Math.round(resolved[key] * 1000) / 10 : resolved[key]}
+              onChange={(e) => {
+                const value = e.target.value === '' ? undefined : parseFloat(e.target.value);
+                onChangeSettings({ ...settings, [key]: value !== undefined && percent ? value / 100 : value });
+              }}
+              className="mt-1 w-full px-2 py-1 text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+            />
+          </label>
+        ))}
+      </div>
+
+      <CostSection
+        title={t.boards}
+        unitLabel={t.area}
+        rows={cost.materials.map((m) => ({ key: m.materialId, name: m.materialName || t.noMaterial, amount: m.area.toFixed(2), unitCost: m.unitCost, totalCost: m.totalCost }))}
+      />
+      <CostSection
+        title={t.edgeBanding}
+        unitLabel={t.length}
+        rows={cost.edgeBanding.map((e) => ({ key: e.materialId, name: e.materialName, amount: e.length.toFixed(1), unitCost: e.unitCost, totalCost: e.totalCost }))}
+      />
+      <CostSection
+        title={t.hardware}
+        unitLabel={pt.cutList.quantity}
+        rows={cost.hardware.map((h) => ({ key: h.hardwareId, name: h.hardwareName, amount: String(h.quantity), unitCost: h.unitCost, totalCost: h.totalCost }))}
+      />
+      <CostSection
+        title={t.countertops}
+        unitLabel={t.area}
+        rows={(cost.countertops ?? []).map((c) => ({ key: c.countertopId, name: c.name, amount: c.area.toFixed(2), unitCost: c.unitCost, totalCost: c.totalCost }))}
+      />
+
+      <div className="pt-3 border-t-2 border-gray-300 dark:border-gray-600 space-y-1 text-sm">
+        {!!cost.labor && (
+          <div className="flex justify-between text-gray-700 dark:text-gray-300">
+            <span>{t.labor}</span>
+            <span className="font-mono">{formatEuro(cost.labor)}</span>
+          </div>
+        )}
+        <div className="flex justify-between text-gray-700 dark:text-gray-300">
+          <span>{t.subtotal}</span>
+          <span className="font-mono">{formatEuro(cost.subtotal)}</span>
+        </div>
+        {!!cost.markup && (
+          <div className="flex justify-between text-gray-700 dark:text-gray-300">
+            <span>{t.markupAmount}</span>
+            <span className="font-mono">{formatEuro(cost.markup)}</span>
+          </div>
+        )}
+        <div className="flex justify-between items-center text-gray-900 dark:text-white font-bold">
+          <span>{t.total}</span>
+          <span className="text-lg font-mono">{formatEuro(cost.total)}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,21 +2,28 @@
 // CutListModal - Generate cut list with rule selection
 // ============================================
 
-import { useState, useMemo } from 'react';
-import { useCabinetStore, useCurrentProject, useGlobalSettings, useMaterials } from '../store/cabinetStore';
-import { calculateParts } from '../utils/cabinetLogic';
-import type { CutPart } from '../types';
+import { Fragment, useState, useMemo } from 'react';
+import { useCabinetStore, useCurrentProject, useGlobalSettings, useMaterials, useHardware, useRemnants } from '../store/cabinetStore';
+import { calculateCabinetPartsWithHardware, calculateProjectHardware, consolidateHardware } from '../utils/hardwareLogic';
+import { nestCutList, resolveNestingSettings } from '../utils/nesting';
+import { calculateProjectCost } from '../utils/costing';
+import { getQuoteLines } from '../utils/quote';
+import { generateQuoteDocument, renderCabinetElevation } from '../services/quoteDocument';
+import type { CutPart, DimensionTrace, HardwareRequirement, MachiningOperation, NestedSheet, NestingGroup, NestingSettings, Remnant, SheetRect, StockUsage } from '../types';
 import { pt } from '../i18n/pt';
 import ChartaConfigModal from './ChartaConfigModal';
+import CostingPanel from './CostingPanel';
 import {
   isChartaConfigured,
   fetchChartaProjects,
   uploadToCharta,
   generateCutListCSV,
+  generateProjectCostCSVLines,
   svgToPng,
   getCabinetVisualizerSvg,
   type ChartaProject,
 } from '../services/chartaApi';
+import { generateCutListDXF, createZip } from '../services/dxfExport';
 
 const t = pt;
 
@@ -41,7 +48,135 @@ interface CabinetGroup {
   totalParts: number;
 }
 
-function CutListTable({ parts, groupByMaterial }: { parts: CutPart[]; groupByMaterial: boolean }) {
+const EDGE_LABELS = { length1: 'L1', length2: 'L2', width1: 'W1', width2: 'W2' } as const;
+
+const formatMm = (value: number) => (Number.isInteger(value) ? String(value) : value.toFixed(1));
+const formatSigned = (value: number) => `${value >= 0 ? '+' : '−'}${formatMm(Math.abs(value))}`;
+
+// Face of a machining operation: inner/outer face or an edge (L1, W2...)
+const formatFace = (face: MachiningOperation['face']) =>
+  face === 'inner' || face === 'outer' ? t.cutList.machining.faces[face] : EDGE_LABELS[face];
+
+// One machining operation as the shop reads it, e.g. "Furo Ø8 × 12 · interior · 50, 9"
+function formatMachining(operation: MachiningOperation): string {
+  const face = formatFace(operation.face);
+  switch (operation.type) {
+    case 'bore':
+      return `${t.cutList.machining.bore} Ø${formatMm(operation.diameter)} × ${formatMm(operation.depth)} · ${face} · ${formatMm(operation.x)}, ${formatMm(operation.y)}`;
+    case 'groove':
+      return `${t.cutList.machining.groove} ${formatMm(operation.width)} × ${formatMm(operation.depth)} · ${face} · ${formatMm(operation.offset)} ${t.cutList.machining.from} ${EDGE_LABELS[operation.edge]}`;
+    case 'pocket':
+      return `${t.cutList.machining.pocket} ${formatMm(operation.length)} × ${formatMm(operation.width)} × ${formatMm(operation.depth)} · ${face} · ${formatMm(operation.x)}, ${formatMm(operation.y)}`;
+  }
+}
+
+function DimensionExplanation({ label, trace }: { label: string; trace: DimensionTrace }) {
+  const variables = Object.entries(trace.variables);
+  return (
+    <div className="space-y-1">
+      <div className="flex items-baseline justify-between gap-2">
+        <span className="font-medium text-gray-700 dark:text-gray-200">{label}</span>
+        <code className="text-gray-600 dark:text-gray-300 truncate">{trace.expression}</code>
+      </div>
+      {variables.length > 0 && (
+        <div className="flex flex-wrap gap-x-3 gap-y-0.5 text-gray-500 dark:text-gray-400 font-mono">
+          {variables.map(([name, value]) => (
+            <span key={name}>{name} = {formatMm(value)}</span>
+          ))}
+        </div>
+      )}
+      <div className="flex justify-between font-mono">
+        <span className="text-gray-500 dark:text-gray-400">{t.cutList.explain.design}</span>
+        <span>{formatMm(trace.designValue)}</span>
+      </div>
+      {trace.jointAdjustments.map((joint) => (
+        <div key={`joint-${joint.edge}`} className="flex justify-between font-mono">
+          <span className="text-gray-500 dark:text-gray-400">
+            {t.cutList.explain.joint} {EDGE_LABELS[joint.edge]} ({joint.jointTypeName || joint.jointTypeId}, {t.cutList.explain[joint.role]})
+          </span>
+          <span>{formatSigned(joint.amount)}</span>
+        </div>
+      ))}
+      {trace.bandingDeductions.map((banding) => (
+        <div key={`banding-${banding.edge}`} className="flex justify-between font-mono">
+          <span className="text-gray-500 dark:text-gray-400">
+            {t.cutList.explain.banding} {EDGE_LABELS[banding.edge]} ({banding.materialName || banding.materialId || '—'})
+          </span>
+          <span>{formatSigned(-banding.thickness)}</span>
+        </div>
+      ))}
+      <div className="flex justify-between font-mono font-semibold border-t border-gray-200 dark:border-gray-600 pt-1">
+        <span>{t.cutList.explain.cut}</span>
+        <span>{formatMm(trace.cutValue)}</span>
+      </div>
+    </div>
+  );
+}
+
+function PartExplanation({ part }: { part: CutPart }) {
+  const { provenance } = part;
+  if (!provenance) return null;
+  return (
+    <div className="grid grid-cols-2 gap-4 px-3 py-3 text-xs bg-gray-50 dark:bg-gray-900/40 rounded">
+      <DimensionExplanation label={t.cutList.length} trace={provenance.length} />
+      <DimensionExplanation label={t.cutList.width} trace={provenance.width} />
+      <div className="col-span-2 flex items-baseline justify-between gap-2 font-mono">
+        <span className="text-gray-500 dark:text-gray-400">{t.cutList.quantity}: <code>{provenance.quantity.expression}</code></span>
+        <span>{provenance.quantity.value}</span>
+      </div>
+      {part.hinges && part.hinges.length > 0 && (
+        <div className="col-span-2 flex items-baseline justify-between gap-2 font-mono border-t border-gray-200 dark:border-gray-600 pt-2">
+          <span className="text-gray-500 dark:text-gray-400">
+            {t.cutList.hinges.positions} · {t.cutList.hinges.cupBore} Ø{formatMm(part.hinges[0].cupBore.diameter)} × {formatMm(part.hinges[0].cupBore.depth)}, {formatMm(part.hinges[0].cupBore.x)} {t.cutList.hinges.fromEdge}
+          </span>
+          <span>{part.hinges.map((hinge) => formatMm(hinge.position)).join(' / ')}</span>
+        </div>
+      )}
+      {part.handle && part.handle.holes.length > 0 && (
+        <div className="col-span-2 flex items-baseline justify-between gap-2 font-mono border-t border-gray-200 dark:border-gray-600 pt-2">
+          <span className="text-gray-500 dark:text-gray-400">
+            {t.cutList.handles.holes} · {t.cutList.handles.placements[part.handle.placement]} · Ø{formatMm(part.handle.holes[0].diameter)}
+          </span>
+          <span>{part.handle.holes.map((hole) => `${formatMm(hole.x)}, ${formatMm(hole.y)}`).join(' / ')}</span>
+        </div>
+      )}
+      {part.shelfPinRows?.map((row, index) => (
+        <div key={`pins-${index}`} className="col-span-2 flex items-baseline justify-between gap-2 font-mono border-t border-gray-200 dark:border-gray-600 pt-2">
+          <span className="text-gray-500 dark:text-gray-400">
+            {t.cutList.shelfPins.row} · {formatMm(row.setback)} {row.edge === 'length1' ? t.cutList.shelfPins.fromFront : t.cutList.shelfPins.fromBack} · Ø{formatMm(row.diameter)} × {formatMm(row.depth)}{row.face === 'outer' ? ` · ${t.cutList.machining.faces.outer}` : ''}
+          </span>
+          <span>{row.count} × {formatMm(row.pitch)} · {formatMm(row.start)}–{formatMm(row.end)}</span>
+        </div>
+      ))}
+      {part.grooves?.map((groove, index) => (
+        <div key={index} className="col-span-2 flex items-baseline justify-between gap-2 font-mono border-t border-gray-200 dark:border-gray-600 pt-2">
+          <span className="text-gray-500 dark:text-gray-400">
+            {t.cutList.grooves.title} · {formatMm(groove.offset)} {t.cutList.grooves.fromBackEdge}
+          </span>
+          <span>{formatMm(groove.width)} × {formatMm(groove.depth)}</span>
+        </div>
+      ))}
+      {part.machining && (
+        <div className="col-span-2 space-y-0.5 font-mono border-t border-gray-200 dark:border-gray-600 pt-2">
+          <div className="text-gray-500 dark:text-gray-400">{t.cutList.machining.title}</div>
+          {part.machining.map((operation, index) => (
+            <div key={index} className="flex justify-between gap-2">
+              <span>{formatMachining(operation)}</span>
+              {operation.purpose && (
+                <span className="text-gray-500 dark:text-gray-400">{t.cutList.machining.purposes[operation.purpose]}</span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CutListTable({ parts, groupByMaterial, showEdgeBanding }: { parts: CutPart[]; groupByMaterial: boolean; showEdgeBanding: boolean }) {
+  // Row whose dimension derivation is expanded
+  const [explainedRow, setExplainedRow] = useState<string | null>(null);
+
   // Group parts by cabinet first, then consolidate identical parts within each cabinet
   const cabinetGroups = useMemo(() => {
     const groups: Record<string, CabinetGroup> = {};
@@ -59,9 +194,9 @@ function CutListTable({ parts, groupByMaterial }: { parts: CutPart[]; groupByMat
       }
       
       // Consolidate identical parts within this cabinet
-      const consolidationKey = `${part.partName}-${part.length}-${part.width}-${part.materialId || 'default'}`;
+      const consolidationKey = `${part.partName}-${part.length}-${part.width}-${part.materialId || 'default'}-${part.hingeSide ?? ''}`;
       const existingPart = groups[cabinetKey].parts.find(
-        p => `${p.partName}-${p.length}-${p.width}-${p.materialId || 'default'}` === consolidationKey
+        p => `${p.partName}-${p.length}-${p.width}-${p.materialId || 'default'}-${p.hingeSide ?? ''}` === consolidationKey
       );
       
       if (existingPart) {
@@ -98,17 +233,73 @@ function CutListTable({ parts, groupByMaterial }: { parts: CutPart[]; groupByMat
           <th className="py-2 px-2 text-right">{t.cutList.length}</th>
           <th className="py-2 px-2 text-right">{t.cutList.width}</th>
           <th className="py-2 pl-2 text-right">{t.cutList.quantity}</th>
+          {showEdgeBanding && <th className="py-2 pl-2">{t.cutList.edgeBanding}</th>}
+          <th className="py-2 pl-2 w-6"></th>
         </tr>
       </thead>
       <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
-        {tableParts.map((part, idx) => (
-          <tr key={idx} className="text-gray-900 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700/50">
-            <td className="py-2 pr-2 font-medium">{part.partName}</td>
-            <td className="py-2 px-2 text-right font-mono">{part.length.toFixed(1)}</td>
-            <td className="py-2 px-2 text-right font-mono">{part.width.toFixed(1)}</td>
-            <td className="py-2 pl-2 text-right font-mono">{part.count}</td>
-          </tr>
-        ))}
+        {tableParts.map((part) => {
+          const rowKey = `${part.cabinetName}|${part.partName}|${part.length}|${part.width}|${part.materialId || 'default'}|${part.hingeSide ?? ''}`;
+          const isExplained = explainedRow === rowKey;
+          return (
+            <Fragment key={rowKey}>
+              <tr className="text-gray-900 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                <td className="py-2 pr-2 font-medium">
+                  {part.partName}
+                  {part.hingeSide && (
+                    <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                      {t.cutList.hingeSide[part.hingeSide]}
+                      {part.hinges && ` · ${part.hinges.length} ${t.cutList.hinges.count}`}
+                    </span>
+                  )}
+                  {part.grooves && (
+                    <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                      {t.cutList.grooves.backPanel}
+                    </span>
+                  )}
+                  {part.shelfPinRows && part.shelfPinRows.length > 0 && (
+                    <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                      {t.cutList.shelfPins.label} · {part.shelfPinRows.length} {t.cutList.shelfPins.rows}
+                    </span>
+                  )}
+                  {part.handle && part.handle.holes.length > 0 && (
+                    <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                      {t.cutList.handles.label}
+                    </span>
+                  )}
+                </td>
+                <td className="py-2 px-2 text-right font-mono">{part.length.toFixed(1)}</td>
+                <td className="py-2 px-2 text-right font-mono">{part.width.toFixed(1)}</td>
+                <td className="py-2 pl-2 text-right font-mono">{part.count}</td>
+                {showEdgeBanding && (
+                  <td className="py-2 pl-2 font-mono text-xs text-gray-500 dark:text-gray-400">{part.edgeBanding || '—'}</td>
+                )}
+                <td className="py-2 pl-2 text-right">
+                  {part.provenance && (
+                    <button
+                      onClick={() => setExplainedRow(isExplained ? null : rowKey)}
+                      title={t.cutList.explain.title}
+                      className={`w-5 h-5 rounded-full text-xs font-semibold transition-colors ${
+                        isExplained
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-600'
+                      }`}
+                    >
+                      ?
+                    </button>
+                  )}
+                </td>
+              </tr>
+              {isExplained && (
+                <tr>
+                  <td colSpan={showEdgeBanding ? 6 : 5} className="pb-2">
+                    <PartExplanation part={part} />
+                  </td>
+                </tr>
+              )}
+            </Fragment>
+          );
+        })}
       </tbody>
     </table>
   );
@@ -136,7 +327,10 @@ function CutListTable({ parts, groupByMaterial }: { parts: CutPart[]; groupByMat
                 <div key={material}>
                   <h4 className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase mb-2 flex items-center gap-2">
                     <span className="w-3 h-3 rounded-full bg-amber-500"></span>
-                    {material === 'default' ? 'Material Padrão' : material}
+                    {material === 'default' ? 'Material Padrão' : materialParts[0].material || material}
+                    {materialParts[0].thickness !== undefined && (
+                      <span className="normal-case font-normal">· {materialParts[0].thickness} mm</span>
+                    )}
                   </h4>
                   {renderPartsTable(materialParts)}
                 </div>
@@ -160,16 +354,205 @@ function CutListTable({ parts, groupByMaterial }: { parts: CutPart[]; groupByMat
   );
 }
 
+function HardwareTable({ hardware, showCosts }: { hardware: HardwareRequirement[]; showCosts: boolean }) {
+  const total = hardware.reduce((sum, h) => sum + (h.totalCost ?? 0), 0);
+
+  return (
+    <div className="mt-6 border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
+      <div className="bg-gray-100 dark:bg-gray-800 px-4 py-3">
+        <h3 className="font-semibold text-gray-900 dark:text-white">{t.cutList.hardware.title}</h3>
+      </div>
+      <div className="p-4">
+        {hardware.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t.cutList.hardware.none}</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400 text-xs uppercase">
+                <th className="py-2 pr-2">{t.cutList.hardware.item}</th>
+                <th className="py-2 px-2 text-right">{t.cutList.quantity}</th>
+                {showCosts && <th className="py-2 px-2 text-right">{t.cutList.hardware.unitCost}</th>}
+                {showCosts && <th className="py-2 pl-2 text-right">{t.cutList.hardware.totalCost}</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {hardware.map((item) => (
+                <tr key={item.hardwareId} className="text-gray-900 dark:text-gray-200">
+                  <td className="py-2 pr-2 font-medium">{item.hardwareName}</td>
+                  <td className="py-2 px-2 text-right font-mono">{item.quantity}</td>
+                  {showCosts && (
+                    <td className="py-2 px-2 text-right font-mono">{item.unitCost !== undefined ? `€${item.unitCost.toFixed(2)}` : '—'}</td>
+                  )}
+                  {showCosts && (
+                    <td className="py-2 pl-2 text-right font-mono">{item.totalCost !== undefined ? `€${item.totalCost.toFixed(2)}` : '—'}</td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+            {showCosts && (
+              <tfoot>
+                <tr className="border-t-2 border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white font-semibold">
+                  <td className="py-2 pr-2" colSpan={3}>{t.cutList.hardware.total}</td>
+                  <td className="py-2 pl-2 text-right font-mono">€{total.toFixed(2)}</td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Cutting diagram of one sheet: parts in blue, usable offcuts hatched in green.
+// Drawn from the sheet's bottom-left corner, like the nesting coordinates.
+function SheetDiagram({ sheet }: { sheet: NestedSheet }) {
+  const flipY = (rect: SheetRect) => sheet.width - rect.y - rect.width;
+  const fontSize = (rect: SheetRect) => Math.max(20, Math.min(60, Math.min(rect.length, rect.width) / 5));
+
+  return (
+    <svg viewBox={`0 0 ${sheet.length} ${sheet.width}`} className="w-full h-auto bg-white border border-gray-300 dark:border-gray-600 rounded">
+      <defs>
+        <pattern id="offcut-hatch" width="40" height="40" patternUnits="userSpaceOnUse" patternTransform="rotate(45)">
+          <line x1="0" y1="0" x2="0" y2="40" stroke="#16a34a" strokeWidth="6" strokeOpacity="0.35" />
+        </pattern>
+      </defs>
+      <rect x={0} y={0} width={sheet.length} height={sheet.width} fill="#f3f4f6" stroke="#6b7280" strokeWidth={4} />
+      {sheet.offcuts.map((offcut, i) => (
+        <rect key={`offcut-${i}`} x={offcut.x} y={flipY(offcut)} width={offcut.length} height={offcut.width} fill="url(#offcut-hatch)" stroke="#16a34a" strokeWidth={3} strokeDasharray="12 8" />
+      ))}
+      {sheet.parts.map((part, i) => {
+        const size = fontSize(part);
+        const cx = part.x + part.length / 2;
+        const cy = flipY(part) + part.width / 2;
+        return (
+          <g key={`part-${i}`}>
+            <rect x={part.x} y={flipY(part)} width={part.length} height={part.width} fill="#dbeafe" stroke="#2563eb" strokeWidth={3} />
+            {part.width > size * 2.5 && part.length > size * 4 && (
+              <text x={cx} y={cy} textAnchor="middle" fontSize={size} fill="#1e3a8a">
+                <tspan x={cx} dy={-size * 0.2}>{part.partName}</tspan>
+                <tspan x={cx} dy={size * 1.1}>{formatMm(part.rotated ? part.width : part.length)} × {formatMm(part.rotated ? part.length : part.width)}</tspan>
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+function NestingSettingsForm({ settings, onChange }: { settings: NestingSettings | undefined; onChange: (settings: NestingSettings) => void }) {
+  const resolved = resolveNestingSettings(settings);
+  const fields = ['sheetLength', 'sheetWidth', 'kerf', 'trim', 'minOffcut'] as const;
+
+  return (
+    <div className="grid grid-cols-5 gap-3 mb-4">
+      {fields.map((field) => (
+        <label key={field} className="text-xs text-gray-600 dark:text-gray-400">
+          {t.cutList.nesting[field]}
+          <input
+            type="number"
+            min={0}
+            value={resolved[field]}
+            onChange={(e) => onChange({ ...settings, [field]: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+            className="mt-1 w-full px-2 py-1 text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+          />
+        </label>
+      ))}
+    </div>
+  );
+}
+
+// Note of a remnant as a suffix, e.g. " · Cozinha Silva"
+const remnantNote = (remnants: Remnant[], remnantId: string) => {
+  const note = remnants.find((r) => r.id === remnantId)?.note;
+  return note ? ` · ${note}` : '';
+};
+
+// Sheets and remnants a nesting takes, with what is on hand and what must be bought
+function StockUsageList({ stock, remnants }: { stock: StockUsage[]; remnants: Remnant[] }) {
+  return (
+    <div className="text-sm">
+      <p className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase mb-1">{t.cutList.nesting.stock}</p>
+      <ul className="space-y-0.5">
+        {stock.map((usage, i) => {
+          const toBuy = usage.available !== undefined ? Math.max(0, usage.used - usage.available) : 0;
+          return (
+            <li key={i} className="text-gray-700 dark:text-gray-300">
+              <span className="font-mono">{usage.used}×</span>{' '}
+              {usage.source === 'remnant' ? t.cutList.nesting.remnant : t.cutList.nesting.sheet} {usage.length} × {usage.width}
+              {usage.remnantId && remnantNote(remnants, usage.remnantId)}
+              {usage.available !== undefined && (
+                <span className="text-gray-500 dark:text-gray-400"> ({usage.available} {t.cutList.nesting.inStock})</span>
+              )}
+              {toBuy > 0 && (
+                <span className="ml-1 text-amber-600 dark:text-amber-400">· {toBuy} {t.cutList.nesting.toBuy}</span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+function NestingView({ groups, remnants }: { groups: NestingGroup[]; remnants: Remnant[] }) {
+  return (
+    <div className="space-y-6">
+      {groups.map((group) => (
+        <div key={`${group.materialId ?? group.materialName}-${group.thickness}`} className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
+          <div className="bg-gray-100 dark:bg-gray-800 px-4 py-3 flex items-center justify-between">
+            <h3 className="font-semibold text-gray-900 dark:text-white">
+              {group.materialName || t.cutList.nesting.noMaterial}
+              {group.thickness !== undefined && <span className="ml-1 font-normal text-gray-500 dark:text-gray-400">{group.thickness}mm</span>}
+              <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">{t.cutList.nesting.grain[group.grain]}</span>
+            </h3>
+            <span className="text-sm text-gray-600 dark:text-gray-300">
+              {group.sheets.length} {t.cutList.nesting.sheets} · {(group.yield * 100).toFixed(1)}% {t.cutList.nesting.yield}
+            </span>
+          </div>
+          <div className="p-4 space-y-4">
+            <StockUsageList stock={group.stock} remnants={remnants} />
+            {group.unplaced.length > 0 && (
+              <p className="text-sm text-red-600 dark:text-red-400">
+                {t.cutList.nesting.unplaced}: {group.unplaced.map((p) => `${p.partName} (${formatMm(p.length)} × ${formatMm(p.width)})`).join(', ')}
+              </p>
+            )}
+            {group.sheets.map((sheet, i) => (
+              <div key={i}>
+                <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
+                  <span>
+                    {sheet.source === 'remnant' ? t.cutList.nesting.remnant : t.cutList.nesting.sheet} {i + 1} · {sheet.length} × {sheet.width}
+                    {sheet.remnantId && remnantNote(remnants, sheet.remnantId)}
+                  </span>
+                  <span>{(sheet.yield * 100).toFixed(1)}% {t.cutList.nesting.yield}</span>
+                </div>
+                <SheetDiagram sheet={sheet} />
+                <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+                  {sheet.offcuts.length > 0
+                    ? `${t.cutList.nesting.offcuts}: ${sheet.offcuts.map((o) => `${formatMm(o.length)} × ${formatMm(o.width)}`).join(', ')}`
+                    : t.cutList.nesting.noOffcuts}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export default function CutListModal({ isOpen, onClose }: CutListModalProps) {
-  const { ruleSets, ui, patterns, joints } = useCabinetStore();
+  const { ruleSets, ui, patterns, joints, setCutListRuleSet, setGlobalSettings } = useCabinetStore();
   const project = useCurrentProject();
   const globalSettings = useGlobalSettings();
   const materials = useMaterials();
+  const hardwareLibrary = useHardware();
+  const remnants = useRemnants();
   
-  const [selectedRuleSetId, setSelectedRuleSetId] = useState<string>(
-    ui.cutListModal.selectedRuleSetId || ruleSets[0]?.id || ''
-  );
+  const selectedRuleSetId = ui.cutListModal.selectedRuleSetId || ruleSets[0]?.id || '';
   const [isGenerated, setIsGenerated] = useState(false);
+  const [view, setView] = useState<'parts' | 'nesting' | 'costs'>('parts');
   const [exportOptions, setExportOptions] = useState<ExportOptions>({
     includeEdgeBanding: false,
     includeHardware: false,
@@ -207,23 +590,38 @@ export default function CutListModal({ isOpen, onClose }: CutListModalProps) {
     for (const cabinet of project.cabinets) {
       const pattern = patterns.find(p => p.id === cabinet.patternId);
       if (!pattern) continue;
-      const cabinetParts = calculateParts(
+      const cabinetParts = calculateCabinetPartsWithHardware(
+        cabinet,
         pattern,
-        cabinet.dimensions,
         globalSettings,
-        cabinet.variableOverrides,
-        cabinet.zoneProportions,
         selectedRuleSet, // Now passing the selected rule set for construction-aware calculations
         materials, // Pass materials for thickness resolution
-        cabinet.materialOverrides, // Pass instance-level material overrides
-        undefined, // edgeBandingId - use pattern default
-        joints // Pass joint types for dimension adjustments
+        joints, // Pass joint types for dimension adjustments
+        hardwareLibrary // Pass hardware for drawer slides, hinges, handles and shelf pins
       );
       // Add cabinet name to each part for grouping
-      allParts.push(...cabinetParts.map(p => ({ ...p, cabinetName: cabinet.name })));
+      allParts.push(...cabinetParts.map(p => ({ ...p, cabinetId: cabinet.id, cabinetName: cabinet.name })));
     }
     return allParts;
-  }, [project, globalSettings, isGenerated, patterns, selectedRuleSet, materials, joints]);
+  }, [project, globalSettings, isGenerated, patterns, selectedRuleSet, materials, joints, hardwareLibrary]);
+
+  // Hardware per cabinet (for quotation lines) and consolidated for the project
+  const cabinetHardware = useMemo(() => {
+    if (!project?.cabinets || !isGenerated || !selectedRuleSet) return [];
+    return calculateProjectHardware(project.cabinets, patterns, globalSettings, hardwareLibrary, selectedRuleSet, materials, joints);
+  }, [project, globalSettings, isGenerated, patterns, selectedRuleSet, hardwareLibrary, materials, joints]);
+
+  const hardware = useMemo(() => consolidateHardware(cabinetHardware), [cabinetHardware]);
+
+  const nesting = useMemo(() => {
+    if (view !== 'nesting') return [];
+    return nestCutList(parts, materials, globalSettings.nesting, remnants);
+  }, [view, parts, materials, globalSettings.nesting, remnants]);
+
+  const cost = useMemo(() => {
+    if (!project || !isGenerated) return undefined;
+    return calculateProjectCost(project, parts, hardware, materials, globalSettings.costing);
+  }, [project, isGenerated, parts, hardware, materials, globalSettings.costing]);
 
   const handleGenerate = () => {
     if (!selectedRuleSet) return;
@@ -234,13 +632,42 @@ export default function CutListModal({ isOpen, onClose }: CutListModalProps) {
     if (parts.length === 0) return;
     
     // Build CSV content
-    const headers = ['Peça', 'Comprimento (mm)', 'Largura (mm)', 'Quantidade'];
-    const rows = parts.map(p => [p.partName, p.length.toFixed(1), p.width.toFixed(1), p.quantity.toString()]);
+    const headers = ['Peça', 'Comprimento (mm)', 'Largura (mm)', 'Quantidade', 'Material', 'Espessura (mm)'];
+    if (exportOptions.includeEdgeBanding) headers.push('Orla');
+    const hasHinges = parts.some(p => p.hinges);
+    if (hasHinges) headers.push('Dobradiças (mm do fundo)');
+    const hasHandles = parts.some(p => p.handle?.holes.length);
+    if (hasHandles) headers.push('Furação Puxador (x, y mm)');
+    const hasShelfPins = parts.some(p => p.shelfPinRows?.length);
+    if (hasShelfPins) headers.push('Furação Sistema 32');
+    const hasMachining = parts.some(p => p.machining);
+    if (hasMachining) headers.push('Maquinação');
+    const rows = parts.map(p => {
+      const row = [p.partName, p.length.toFixed(1), p.width.toFixed(1), p.quantity.toString(), `"${p.material || ''}"`, p.thickness?.toString() ?? ''];
+      if (exportOptions.includeEdgeBanding) row.push(`"${p.edgeBanding || ''}"`);
+      if (hasHinges) row.push(`"${p.hinges?.map(h => h.position).join(' / ') ?? ''}"`);
+      if (hasHandles) row.push(`"${p.handle?.holes.map(h => `${h.x}, ${h.y}`).join(' / ') ?? ''}"`);
+      if (hasShelfPins) row.push(`"${p.shelfPinRows?.map(r => `${r.count}×Ø${r.diameter} a ${r.setback} ${r.edge === 'length1' ? 'da frente' : 'de trás'}, ${r.start}-${r.end}`).join(' / ') ?? ''}"`);
+      if (hasMachining) row.push(`"${p.machining?.map(formatMachining).join(' / ') ?? ''}"`);
+      return row;
+    });
     
-    const csvContent = [
+    const lines = [
       headers.join(','),
       ...rows.map(row => row.join(','))
-    ].join('\n');
+    ];
+    if (exportOptions.includeHardware && hardware.length > 0) {
+      const hardwareHeaders = ['Ferragem', 'Quantidade'];
+      if (exportOptions.includeCosts) hardwareHeaders.push('Preço Unitário', 'Total');
+      lines.push('', hardwareHeaders.join(','));
+      for (const h of hardware) {
+        const row = [`"${h.hardwareName}"`, h.quantity.toString()];
+        if (exportOptions.includeCosts) row.push(h.unitCost?.toFixed(2) ?? '', h.totalCost?.toFixed(2) ?? '');
+        lines.push(row.join(','));
+      }
+    }
+    if (exportOptions.includeCosts && cost) lines.push(...generateProjectCostCSVLines(cost));
+    const csvContent = lines.join('\n');
     
     // Download
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
@@ -250,6 +677,43 @@ export default function CutListModal({ isOpen, onClose }: CutListModalProps) {
     link.click();
   };
 
+  // One download with every drawing: browsers drop downloads started together
+  const handleExportDXF = () => {
+    if (parts.length === 0) return;
+    const safeProjectName = (project?.name || 'Sem nome').replace(/\s+/g, '-');
+    const url = URL.createObjectURL(createZip(generateCutListDXF(parts)));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `dxf-${safeProjectName}-${new Date().toISOString().split('T')[0]}.zip`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleGenerateQuote = () => {
+    if (!project) return;
+    const elevations: Record<string, string> = {};
+    for (const cabinet of project.cabinets) {
+      const pattern = patterns.find(p => p.id === cabinet.patternId);
+      if (pattern) elevations[cabinet.id] = renderCabinetElevation(cabinet, pattern, globalSettings);
+    }
+    const blob = generateQuoteDocument({
+      project,
+      lines: getQuoteLines(project, parts, cabinetHardware, materials, globalSettings.costing),
+      settings: globalSettings.quote,
+      elevations,
+    });
+    const url = URL.createObjectURL(blob);
+    // Open for printing; download it when pop-ups are blocked
+    if (!window.open(url, '_blank')) {
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `orcamento-${(project.name || 'Sem nome').replace(/\s+/g, '-')}-${new Date().toISOString().split('T')[0]}.html`;
+      link.click();
+    }
+    // Give the new tab time to load the document before releasing it
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  };
+
   const handleExportToCharta = async () => {
     if (parts.length === 0 && !chartaExportOptions.exportSketch) return;
     if (!chartaExportOptions.exportCutList && !chartaExportOptions.exportSketch) return;
@@ -265,7 +729,7 @@ export default function CutListModal({ isOpen, onClose }: CutListModalProps) {
 
       // Export cut list CSV
       if (chartaExportOptions.exportCutList && parts.length > 0) {
-        const csvBlob = generateCutListCSV(parts);
+        const csvBlob = generateCutListCSV(parts, exportOptions.includeCosts ? cost : undefined);
         const csvFilename = `lista-corte-${safeProjectName}-${dateStr}.csv`;
         await uploadToCharta(csvBlob, csvFilename, selectedChartaProject || undefined);
         uploadCount++;
@@ -336,7 +800,7 @@ export default function CutListModal({ isOpen, onClose }: CutListModalProps) {
             <select
               value={selectedRuleSetId}
               onChange={(e) => {
-                setSelectedRuleSetId(e.target.value);
+                setCutListRuleSet(e.target.value);
                 setIsGenerated(false);
               }}
               className="w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
@@ -411,20 +875,73 @@ export default function CutListModal({ isOpen, onClose }: CutListModalProps) {
                   {t.cutList.preview}
                 </h3>
                 {parts.length > 0 && (
-                  <button
-                    onClick={handleExportCSV}
-                    className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded text-xs font-medium transition-colors"
-                  >
-                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-                    </svg>
-                    Exportar CSV
-                  </button>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={handleExportDXF}
+                      title={t.cutList.dxf.zipTitle}
+                      className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded text-xs font-medium transition-colors"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                      </svg>
+                      {t.cutList.dxf.exportZip}
+                    </button>
+                    <button
+                      onClick={handleExportCSV}
+                      className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded text-xs font-medium transition-colors"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                      </svg>
+                      Exportar CSV
+                    </button>
+                  </div>
                 )}
               </div>
               
-              {parts.length > 0 ? (
-                <CutListTable parts={parts} groupByMaterial={exportOptions.groupByMaterial} />
+              {parts.length > 0 && (
+                <div className="flex border-b border-gray-200 dark:border-gray-700 mb-4">
+                  {(['parts', 'nesting', 'costs'] as const).map((tab) => (
+                    <button
+                      key={tab}
+                      onClick={() => setView(tab)}
+                      className={`px-4 py-2 text-sm font-medium transition-colors ${
+                        view === tab
+                          ? 'text-blue-600 dark:text-blue-400 border-b-2 border-blue-600 dark:border-blue-400'
+                          : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                      }`}
+                    >
+                      {t.cutList.tabs[tab]}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {parts.length > 0 && view === 'costs' && cost ? (
+                <>
+                  <div className="flex justify-end mb-4">
+                    <button
+                      onClick={handleGenerateQuote}
+                      title={t.cutList.quote.hint}
+                      className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded text-xs font-medium transition-colors"
+                    >
+                      {t.cutList.quote.generate}
+                    </button>
+                  </div>
+                  <CostingPanel cost={cost} settings={globalSettings.costing} onChangeSettings={(costing) => setGlobalSettings({ costing })} />
+                </>
+              ) : parts.length > 0 && view === 'nesting' ? (
+                <>
+                  <NestingSettingsForm settings={globalSettings.nesting} onChange={(nestingSettings) => setGlobalSettings({ nesting: nestingSettings })} />
+                  <NestingView groups={nesting} remnants={remnants} />
+                </>
+              ) : parts.length > 0 ? (
+                <>
+                  <CutListTable parts={parts} groupByMaterial={exportOptions.groupByMaterial} showEdgeBanding={exportOptions.includeEdgeBanding} />
+                  {exportOptions.includeHardware && (
+                    <HardwareTable hardware={hardware} showCosts={exportOptions.includeCosts} />
+                  )}
+                </>
               ) : (
                 <p className="text-center text-gray-500 dark:text-gray-400 py-8">
                   {t.cutList.noParts}
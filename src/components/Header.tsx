@@ -1,7 +1,8 @@
 import { useState, useMemo } from 'react';
 import { Download, Moon, Sun, FolderPlus, FileText, Menu, Box } from 'lucide-react';
 import { useCabinetStore } from '../store/cabinetStore';
-import { calculateParts, generateCutListCSV, flattenProjectToCutList, consolidateParts, downloadFile } from '../utils/cabinetLogic';
+import { generateCutListCSV, flattenProjectToCutList, consolidateParts, downloadFile } from '../utils/cabinetLogic';
+import { calculateCabinetPartsWithHardware } from '../utils/hardwareLogic';
 import { pt } from '../i18n/pt';
 
 interface HeaderProps {
@@ -15,6 +16,7 @@ export function Header({ onMenuToggle }: HeaderProps) {
     globalSettings,
     materials,
     joints,
+    hardware,
     ui,
     toggleDarkMode,
     createProject,
@@ -40,22 +42,19 @@ export function Header({ onMenuToggle }: HeaderProps) {
       if (!pattern) return { name: cabinet.name, parts: [] };
       return {
         name: cabinet.name,
-        parts: calculateParts(
+        parts: calculateCabinetPartsWithHardware(
+          cabinet,
           pattern,
-          cabinet.dimensions,
           globalSettings,
-          cabinet.variableOverrides,
-          cabinet.zoneProportions,
           defaultRuleSet,
           materials, // Pass materials for thickness resolution
-          cabinet.materialOverrides, // Pass instance-level material overrides
-          undefined, // edgeBandingId
-          joints // Pass joint types for dimension adjustments
+          joints, // Pass joint types for dimension adjustments
+          hardware // Pass hardware for drawer slides, hinges, handles and shelf pins
         ),
       };
     });
     return flattenProjectToCutList(cabinetsWithParts);
-  }, [currentProject, patterns, globalSettings, defaultRuleSet, materials, joints]);
+  }, [currentProject, patterns, globalSettings, defaultRuleSet, materials, joints, hardware]);
 
   const handleExportCSV = () => {
     if (!currentProject || allParts.length === 0) {
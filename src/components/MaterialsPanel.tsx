@@ -1,8 +1,8 @@
 import { useState } from 'react';
-import { Plus, Edit2, Trash2, Package, X } from 'lucide-react';
-import { useCabinetStore, useMaterials } from '../store/cabinetStore';
+import { Plus, Edit2, Trash2, Package, X, Layers } from 'lucide-react';
+import { useCabinetStore, useMaterials, useRemnants } from '../store/cabinetStore';
 import { cn } from '../utils/cn';
-import type { Material } from '../types';
+import type { Material, SheetSize } from '../types';
 
 const generateId = () => `mat-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 
@@ -17,6 +17,9 @@ const MATERIAL_TYPES = [
   { value: 'other', label: 'Outro' },
 ] as const;
 
+// Materials cut from sheets: they get sheet sizes and can have remnants
+const SHEET_TYPES: Material['type'][] = ['board', 'mdf', 'melamine', 'plywood', 'hdf', 'back-panel', 'solid-wood', 'other'];
+
 interface MaterialFormData {
   name: string;
   type: Material['type'];
@@ -25,6 +28,7 @@ interface MaterialFormData {
   color: string;
   supplier: string;
   sku: string;
+  sheetSizes: SheetSize[];
 }
 
 const defaultFormData: MaterialFormData = {
@@ -35,20 +39,33 @@ const defaultFormData: MaterialFormData = {
   color: '#D4A574',
   supplier: '',
   sku: '',
+  sheetSizes: [],
 };
 
+interface RemnantFormData {
+  materialId: string;
+  length: number;
+  width: number;
+  quantity: number;
+  note: string;
+}
+
 interface MaterialsPanelProps {
   className?: string;
 }
 
 export function MaterialsPanel({ className }: MaterialsPanelProps) {
   const materials = useMaterials();
-  const { addMaterial, updateMaterial, deleteMaterial } = useCabinetStore();
+  const remnants = useRemnants();
+  const { addMaterial, updateMaterial, deleteMaterial, addRemnant, deleteRemnant } = useCabinetStore();
   
   const [showForm, setShowForm] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [formData, setFormData] = useState<MaterialFormData>(defaultFormData);
   const [filter, setFilter] = useState<Material['type'] | 'all'>('all');
+  const [remnantForm, setRemnantForm] = useState<RemnantFormData | null>(null);
+  
+  const sheetMaterials = materials.filter(m => SHEET_TYPES.includes(m.type));
   
   const filteredMaterials = filter === 'all' 
     ? materials 
@@ -66,6 +83,7 @@ export function MaterialsPanel({ className }: MaterialsPanelProps) {
       color: formData.color,
       supplier: formData.supplier || undefined,
       sku: formData.sku || undefined,
+      sheetSizes: SHEET_TYPES.includes(formData.type) && formData.sheetSizes.length > 0 ? formData.sheetSizes : undefined,
       isAvailable: true,
     };
     
@@ -93,6 +111,7 @@ export function MaterialsPanel({ className }: MaterialsPanelProps) {
       color: material.color || '#D4A574',
       supplier: material.supplier || '',
       sku: material.sku || '',
+      sheetSizes: material.sheetSizes ?? [],
     });
     setEditingId(material.id);
     setShowForm(true);
@@ -104,6 +123,26 @@ export function MaterialsPanel({ className }: MaterialsPanelProps) {
     }
   };
   
+  const updateSheetSize = (index: number, updates: Partial<SheetSize>) => {
+    setFormData(prev => ({
+      ...prev,
+      sheetSizes: prev.sheetSizes.map((size, i) => (i === index ? { ...size, ...updates } : size)),
+    }));
+  };
+  
+  const handleAddRemnant = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!remnantForm?.materialId) return;
+    addRemnant({
+      materialId: remnantForm.materialId,
+      length: remnantForm.length,
+      width: remnantForm.width,
+      quantity: remnantForm.quantity,
+      note: remnantForm.note || undefined,
+    });
+    setRemnantForm(null);
+  };
+  
   return (
     <div className={cn('flex flex-col h-full', className)}>
       {/* Header */}
@@ -162,6 +201,12 @@ export function MaterialsPanel({ className }: MaterialsPanelProps) {
                       {MATERIAL_TYPES.find(t => t.value === material.type)?.label} • {material.thickness}mm
                       {material.pricePerM2 ? ` • €${material.pricePerM2.toFixed(2)}/m²` : ''}
                     </p>
+                    {material.sheetSizes?.map((size, i) => (
+                      <p key={i} className="text-xs text-gray-400 dark:text-gray-500">
+                        Chapa {size.length} × {size.width}
+                        {size.stock !== undefined ? ` • ${size.stock} em stock` : ''}
+                      </p>
+                    ))}
                   </div>
                 </div>
                 <div className="flex items-center gap-1">
@@ -188,6 +233,89 @@ export function MaterialsPanel({ className }: MaterialsPanelProps) {
             </div>
           ))
         )}
+        
+        {/* Remnants */}
+        <div className="pt-4 mt-4 border-t border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+              <Layers className="w-4 h-4" />
+              Sobras em Stock
+            </h3>
+            <button
+              onClick={() => setRemnantForm({ materialId: sheetMaterials[0]?.id ?? '', length: 1000, width: 500, quantity: 1, note: '' })}
+              disabled={sheetMaterials.length === 0}
+              className="flex items-center gap-1 px-2 py-1 text-xs text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-950/30 disabled:opacity-50 rounded"
+            >
+              <Plus className="w-3.5 h-3.5" />
+              Registar
+            </button>
+          </div>
+          
+          {remnantForm && (
+            <form onSubmit={handleAddRemnant} className="p-3 mb-2 space-y-2 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+              <select
+                value={remnantForm.materialId}
+                onChange={(e) => setRemnantForm({ ...remnantForm, materialId: e.target.value })}
+                className="w-full px-2 py-1.5 text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              >
+                {sheetMaterials.map(m => (
+                  <option key={m.id} value={m.id}>{m.name} ({m.thickness}mm)</option>
+                ))}
+              </select>
+              <div className="grid grid-cols-3 gap-2">
+                <label className="text-xs text-gray-600 dark:text-gray-400">
+                  Comp. (mm)
+                  <input type="number" min={1} required value={remnantForm.length} onChange={(e) => setRemnantForm({ ...remnantForm, length: Number(e.target.value) })} className="mt-0.5 w-full px-2 py-1 text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white" />
+                </label>
+                <label className="text-xs text-gray-600 dark:text-gray-400">
+                  Larg. (mm)
+                  <input type="number" min={1} required value={remnantForm.width} onChange={(e) => setRemnantForm({ ...remnantForm, width: Number(e.target.value) })} className="mt-0.5 w-full px-2 py-1 text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white" />
+                </label>
+                <label className="text-xs text-gray-600 dark:text-gray-400">
+                  Qtd
+                  <input type="number" min={1} required value={remnantForm.quantity} onChange={(e) => setRemnantForm({ ...remnantForm, quantity: Number(e.target.value) })} className="mt-0.5 w-full px-2 py-1 text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white" />
+                </label>
+              </div>
+              <input
+                type="text"
+                value={remnantForm.note}
+                onChange={(e) => setRemnantForm({ ...remnantForm, note: e.target.value })}
+                placeholder="Nota (ex: obra de origem)"
+                className="w-full px-2 py-1.5 text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+              <div className="flex justify-end gap-2">
+                <button type="button" onClick={() => setRemnantForm(null)} className="px-3 py-1 text-xs text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded">
+                  Cancelar
+                </button>
+                <button type="submit" className="px-3 py-1 text-xs text-white bg-blue-600 hover:bg-blue-700 rounded">
+                  Adicionar
+                </button>
+              </div>
+            </form>
+          )}
+          
+          {remnants.length === 0 ? (
+            <p className="text-xs text-gray-500 dark:text-gray-400">Nenhuma sobra registada</p>
+          ) : (
+            <ul className="space-y-1">
+              {remnants.map(remnant => (
+                <li key={remnant.id} className="flex items-center justify-between px-2 py-1.5 text-xs bg-gray-50 dark:bg-gray-800 rounded border border-gray-200 dark:border-gray-700">
+                  <span className="text-gray-700 dark:text-gray-300">
+                    <span className="font-mono">{remnant.quantity}×</span> {remnant.length} × {remnant.width} •{' '}
+                    {materials.find(m => m.id === remnant.materialId)?.name ?? remnant.materialId}
+                    {remnant.note && <span className="text-gray-400 dark:text-gray-500"> • {remnant.note}</span>}
+                  </span>
+                  <button
+                    onClick={() => deleteRemnant(remnant.id)}
+                    className="p-1 hover:bg-red-100 dark:hover:bg-red-900/30 rounded text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
       </div>
       
       {/* Add/Edit Form Modal */}
@@ -317,6 +445,63 @@ export function MaterialsPanel({ className }: MaterialsPanelProps) {
                 </div>
               </div>
               
+              {SHEET_TYPES.includes(formData.type) && (
+                <div>
+                  <div className="flex items-center justify-between mb-1">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Formatos de Chapa (C × L mm, stock)
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => setFormData(prev => ({ ...prev, sheetSizes: [...prev.sheetSizes, { length: 2800, width: 2070 }] }))}
+                      className="flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      <Plus className="w-3.5 h-3.5" />
+                      Formato
+                    </button>
+                  </div>
+                  <div className="space-y-2">
+                    {formData.sheetSizes.map((size, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <input
+                          type="number"
+                          value={size.length}
+                          onChange={(e) => updateSheetSize(index, { length: Number(e.target.value) })}
+                          min={1}
+                          className="w-full px-2 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                        />
+                        <span className="text-gray-400">×</span>
+                        <input
+                          type="number"
+                          value={size.width}
+                          onChange={(e) => updateSheetSize(index, { width: Number(e.target.value) })}
+                          min={1}
+                          className="w-full px-2 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                        />
+                        <input
+                          type="number"
+                          value={size.stock ?? ''}
+                          onChange={(e) => updateSheetSize(index, { stock: e.target.value === '' ? undefined : Number(e.target.value) })}
+                          min={0}
+                          placeholder="Stock"
+                          className="w-24 px-2 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setFormData(prev => ({ ...prev, sheetSizes: prev.sheetSizes.filter((_, i) => i !== index) }))}
+                          className="p-1.5 hover:bg-red-100 dark:hover:bg-red-900/30 rounded text-gray-500 hover:text-red-600"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                    {formData.sheetSizes.length === 0 && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">Sem formatos: usa a chapa das definições do plano de corte</p>
+                    )}
+                  </div>
+                </div>
+              )}
+              
               <div className="flex justify-end gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
                 <button
                   type="button"
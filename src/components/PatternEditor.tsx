@@ -2,7 +2,10 @@ import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { Trash2, Save, X, Box, Layers, Square, ArrowDown, RotateCw, Settings, ChevronUp, ChevronDown, Refrigerator, Columns, Plus, GripVertical } from 'lucide-react';
 import { cn } from '../utils/cn';
 import { useCabinetStore } from '../store/cabinetStore';
-import type { CabinetPattern, PatternZone, PartRule, PatternColumn } from '../types';
+import { calculatePartsWithDiagnostics, calculateZoneHeights, uniqueDiagnostics } from '../utils/cabinetLogic';
+import { calculateCabinetHardwareWithDiagnostics } from '../utils/hardwareLogic';
+import { generateZonePartRules, getZoneOrdinalKey } from '../utils/zoneRules';
+import type { CabinetInstance, CabinetPattern, PatternZone, PartRule, PartRole, PatternColumn } from '../types';
 import { pt } from '../i18n/pt';
 
 interface PatternEditorProps {
@@ -14,56 +17,76 @@ interface PatternEditorProps {
 
 const generateId = () => `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 
-// Generate part rules from columns (or zones for single-column)
-function generatePartRules(columns: PatternColumn[], columnProportions: number[]): PartRule[] {
+// Editable expression fields of a part rule (C = comprimento, L = largura)
+const PART_RULE_FIELDS = [
+  { field: 'lengthExpression', label: 'C' },
+  { field: 'widthExpression', label: 'L' },
+  { field: 'quantityExpression', label: 'Qtd' },
+  { field: 'condition', label: 'Se' },
+] as const;
+
+// Numeric text is stored as a constant variable, anything else as a derived expression
+function parseVariableValue(value: string): number | string {
+  const trimmed = value.trim();
+  return trimmed !== '' && !isNaN(Number(trimmed)) ? Number(trimmed) : trimmed;
+}
+
+// Generate part rules from columns (or zones for single-column).
+// Rule ids are stable so per-cabinet overrides keyed by rule id survive re-saving.
+function generatePartRules(columns: PatternColumn[], backPanelConfig: CabinetPattern['backPanelConfig']): PartRule[] {
   // Base cabinet construction (European style):
   // - Sides fit BETWEEN top and bottom panels
   // - Top panel is between sides horizontally
   // - Bottom panel is between sides horizontally  
-  // - Back panel OVERLAYS the back (covers full back)
+  // - Back panel OVERLAYS the back (covers full back), unless the pattern has a back panel config
   const rules: PartRule[] = [
     // Side panels - height minus top and bottom panel thicknesses (sides between top/bottom)
     { 
-      id: generateId(), 
+      id: 'side', 
       partName: 'Lateral', 
       lengthExpression: 'total_height - 2 * material_thickness',
       widthExpression: 'total_depth - back_thickness',
       quantityExpression: '2', 
       material: 'MDF', 
       grain: 'length', 
-      edgeBanding: { length1: true, length2: false, width1: false, width2: true } 
+      role: 'carcass',
+      holdsBackPanel: true,
+      isSidePanel: true
     },
     // Bottom panel - between sides
     { 
-      id: generateId(), 
+      id: 'bottom', 
       partName: 'Base', 
       lengthExpression: 'total_width - 2 * material_thickness', 
       widthExpression: 'total_depth - back_thickness', 
       quantityExpression: '1', 
       material: 'MDF', 
       grain: 'length', 
-      edgeBanding: { length1: true, length2: false, width1: false, width2: false } 
+      role: 'carcass',
+      holdsBackPanel: true
     },
     // Top panel - between sides
     { 
-      id: generateId(), 
+      id: 'top', 
       partName: 'Topo', 
       lengthExpression: 'total_width - 2 * material_thickness', 
       widthExpression: 'total_depth - back_thickness', 
       quantityExpression: '1', 
       material: 'MDF', 
       grain: 'length', 
-      edgeBanding: { length1: true, length2: false, width1: false, width2: false } 
+      role: 'carcass',
+      holdsBackPanel: true
     },
-    // Back panel - FULL OVERLAY (covers entire back)
+    // Back panel - FULL OVERLAY (covers entire back), or sized by the back panel config
     { 
-      id: generateId(), 
+      id: 'back', 
       partName: 'Traseira', 
-      lengthExpression: 'total_width', 
-      widthExpression: 'total_height', 
+      lengthExpression: backPanelConfig ? 'back_width' : 'total_width', 
+      widthExpression: backPanelConfig ? 'back_height' : 'total_height', 
       quantityExpression: '1', 
       material: 'HDF 3mm', 
-      grain: 'none' 
+      grain: 'none',
+      role: 'back'
     },
   ];
 
@@ -71,132 +94,36 @@ function generatePartRules(columns: PatternColumn[], columnProportions: number[]
   if (columns.length > 1) {
     for (let i = 0; i < columns.length - 1; i++) {
       rules.push({
-        id: generateId(),
+        id: `divider-${i}`,
         partName: `Divisória Vertical ${i + 1}`,
         lengthExpression: 'total_height - 2 * material_thickness',
         widthExpression: 'total_depth - back_thickness',
         quantityExpression: '1',
         material: 'MDF',
         grain: 'length',
-        edgeBanding: { length1: true, length2: true, width1: false, width2: false }
+        role: 'carcass',
+        dividerColumn: i
       });
     }
   }
 
-  // Process zones in each column
-  let globalDrawerCount = 0, globalDoorCount = 0, globalShelfCount = 0;
+  // Process zones in each column (numbering continues across columns)
+  const ordinals: Record<string, number> = {};
 
   columns.forEach((column, colIdx) => {
-    const colWidthExpr = columns.length > 1 
-      ? `(total_width - 2 * material_thickness - ${columns.length - 1} * material_thickness) * ${columnProportions[colIdx] || 1 / columns.length}`
+    // Column width comes from the context so per-cabinet column proportions apply
+    const widthExpression = columns.length > 1 
+      ? `column_${colIdx}_width`
       : 'total_width - 2 * material_thickness';
 
     column.zones.forEach((zone, zoneIdx) => {
-      const isDoubleDoor = zone.options?.hingeType === 'double';
-      const zoneHeightExpr = `col_${colIdx}_zone_${zoneIdx}_height`;
-      
-      switch (zone.type) {
-        case 'drawer':
-          globalDrawerCount++;
-          rules.push(
-            // Drawer front (decorative)
-            { 
-              id: generateId(), 
-              partName: `Frente Gaveta ${globalDrawerCount}`, 
-              lengthExpression: `${colWidthExpr} - 4`, 
-              widthExpression: `${zoneHeightExpr} - 3`, 
-              quantityExpression: '1', 
-              material: 'MDF', 
-              grain: 'width', 
-              edgeBanding: { length1: true, length2: true, width1: true, width2: true } 
-            },
-            // Drawer box sides (2x)
-            { 
-              id: generateId(), 
-              partName: `Ilharga Gaveta ${globalDrawerCount}`, 
-              lengthExpression: 'total_depth - 60', 
-              widthExpression: `${zoneHeightExpr} - 40`, 
-              quantityExpression: '2', 
-              material: 'MDF', 
-              grain: 'length' 
-            },
-            // Drawer box front (inner structural front)
-            { 
-              id: generateId(), 
-              partName: `Testa Gaveta ${globalDrawerCount}`, 
-              lengthExpression: `${colWidthExpr} - 90`, 
-              widthExpression: `${zoneHeightExpr} - 40`, 
-              quantityExpression: '1', 
-              material: 'MDF', 
-              grain: 'length' 
-            },
-            // Drawer box back
-            { 
-              id: generateId(), 
-              partName: `Costas Gaveta ${globalDrawerCount}`, 
-              lengthExpression: `${colWidthExpr} - 90`, 
-              widthExpression: `${zoneHeightExpr} - 40`, 
-              quantityExpression: '1', 
-              material: 'MDF', 
-              grain: 'length' 
-            },
-            // Drawer bottom
-            { 
-              id: generateId(), 
-              partName: `Fundo Gaveta ${globalDrawerCount}`, 
-              lengthExpression: `${colWidthExpr} - 86`, 
-              widthExpression: 'total_depth - 70', 
-              quantityExpression: '1', 
-              material: 'HDF 3mm', 
-              grain: 'none' 
-            }
-          );
-          break;
-        case 'door':
-          globalDoorCount++;
-          if (isDoubleDoor) {
-            rules.push({ 
-              id: generateId(), 
-              partName: `Porta ${globalDoorCount}`, 
-              lengthExpression: `(${colWidthExpr} - 4) / 2 - 2`, 
-              widthExpression: `${zoneHeightExpr} - 3`, 
-              quantityExpression: '2', 
-              material: 'MDF', 
-              grain: 'width', 
-              edgeBanding: { length1: true, length2: true, width1: true, width2: true } 
-            });
-          } else {
-            rules.push({ 
-              id: generateId(), 
-              partName: `Porta ${globalDoorCount}`, 
-              lengthExpression: `${colWidthExpr} - 4`, 
-              widthExpression: `${zoneHeightExpr} - 3`, 
-              quantityExpression: '1', 
-              material: 'MDF', 
-              grain: 'width', 
-              edgeBanding: { length1: true, length2: true, width1: true, width2: true } 
-            });
-          }
-          break;
-        case 'shelf':
-        case 'fixed-shelf':
-          globalShelfCount++;
-          rules.push({ 
-            id: generateId(), 
-            partName: `Prateleira ${globalShelfCount}`, 
-            lengthExpression: `${colWidthExpr} - 2`, 
-            widthExpression: 'total_depth - back_thickness - 20', 
-            quantityExpression: '1', 
-            material: 'MDF', 
-            grain: 'length', 
-            edgeBanding: { length1: true, length2: false, width1: false, width2: false } 
-          });
-          break;
-        case 'appliance-space':
-        case 'opening':
-          // No parts generated
-          break;
-      }
+      const key = getZoneOrdinalKey(zone);
+      ordinals[key] = (ordinals[key] ?? 0) + 1;
+      rules.push(...generateZonePartRules(
+        zone,
+        { widthExpression, heightExpression: `col_${colIdx}_zone_${zoneIdx}_height` },
+        ordinals[key]
+      ));
     });
   });
 
@@ -204,7 +131,7 @@ function generatePartRules(columns: PatternColumn[], columnProportions: number[]
 }
 
 export function PatternEditor({ pattern, onSave, onCancel, className }: PatternEditorProps) {
-  const { globalSettings, materials } = useCabinetStore();
+  const { globalSettings, materials, ruleSets, joints, hardware } = useCabinetStore();
   
   // State - Column-based architecture
   const [name, setName] = useState(pattern?.name || '');
@@ -220,6 +147,9 @@ export function PatternEditor({ pattern, onSave, onCancel, className }: PatternE
     front: { materialId: '', thickness: globalSettings.materialThickness },
   });
   
+  // Back panel configuration (undefined: the generated back overlays the full back)
+  const [backPanelConfig, setBackPanelConfig] = useState<CabinetPattern['backPanelConfig']>(pattern?.backPanelConfig);
+  
   // Columns state - convert legacy zones to single column if needed
   const [columns, setColumns] = useState<PatternColumn[]>(() => {
     if (pattern?.columns && pattern.columns.length > 0) {
@@ -616,12 +546,10 @@ export function PatternEditor({ pattern, onSave, onCancel, className }: PatternE
     return result;
   }, [columns, columnProportions, zoneProportionsMap, internalX, internalY, internalWidth, internalHeight, dimensions, globalSettings.materialThickness]);
 
-  // Build pattern for saving
-  const buildPattern = useCallback((): CabinetPattern => {
+  // Columns with zone heights resolved from the current proportions
+  const columnsWithHeights = useMemo((): PatternColumn[] => {
     const internalH = dimensions.height - 2 * globalSettings.materialThickness;
-    
-    // Update columns with calculated heights
-    const columnsWithHeights: PatternColumn[] = columns.map((col, colIdx) => {
+    return columns.map((col, colIdx) => {
       const colZoneProps = zoneProportionsMap[col.id] || [];
       return {
         ...col,
@@ -632,7 +560,44 @@ export function PatternEditor({ pattern, onSave, onCancel, className }: PatternE
         }))
       };
     });
-    
+  }, [columns, columnProportions, zoneProportionsMap, dimensions.height, globalSettings.materialThickness]);
+
+  // Pattern variables (name = constant or expression), kept as rows while editing
+  const [variables, setVariables] = useState<{ name: string; value: string }[]>(() =>
+    Object.entries(pattern?.variables ?? {}).map(([varName, value]) => ({ name: varName, value: String(value) }))
+  );
+
+  const updateVariable = useCallback((varIdx: number, updates: Partial<{ name: string; value: string }>) => {
+    setVariables(prev => prev.map((v, i) => i === varIdx ? { ...v, ...updates } : v));
+  }, []);
+
+  // Part rules: generated from the layout until the user edits one, then kept as-is
+  const [customPartRules, setCustomPartRules] = useState<PartRule[] | null>(
+    pattern?.customPartRules ? pattern.partRules : null
+  );
+  const generatedPartRules = useMemo(
+    () => generatePartRules(columnsWithHeights, backPanelConfig),
+    [columnsWithHeights, backPanelConfig]
+  );
+  const partRules = customPartRules ?? generatedPartRules;
+
+  const updatePartRule = useCallback((ruleIdx: number, updates: Partial<PartRule>) => {
+    setCustomPartRules(prev => (prev ?? generatedPartRules).map((r, i) => i === ruleIdx ? { ...r, ...updates } : r));
+  }, [generatedPartRules]);
+
+  const addPartRule = useCallback(() => {
+    setCustomPartRules(prev => [
+      ...(prev ?? generatedPartRules),
+      { id: generateId(), partName: 'Nova Peça', lengthExpression: 'internal_width', widthExpression: 'internal_depth', quantityExpression: '1', grain: 'length' },
+    ]);
+  }, [generatedPartRules]);
+
+  const removePartRule = useCallback((ruleIdx: number) => {
+    setCustomPartRules(prev => (prev ?? generatedPartRules).filter((_, i) => i !== ruleIdx));
+  }, [generatedPartRules]);
+
+  // Build pattern for saving
+  const buildPattern = useCallback((): CabinetPattern => {
     // For backwards compatibility, flatten zones into the zones array
     const allZones = columnsWithHeights.flatMap(c => c.zones);
     
@@ -644,14 +609,55 @@ export function PatternEditor({ pattern, onSave, onCancel, className }: PatternE
       columns: columnsWithHeights,
       columnProportions: columnProportions,
       zones: allZones, // Backwards compatibility
-      partRules: generatePartRules(columnsWithHeights, columnProportions),
+      partRules,
+      customPartRules: customPartRules !== null,
+      // Not edited here: kept as they are
+      generateZoneParts: pattern?.generateZoneParts,
+      hardwareRules: pattern?.hardwareRules,
       defaultDimensions: dimensions,
       materials: patternMaterials, // Pattern-specific material configuration
-      variables: {},
+      backPanelConfig,
+      variables: Object.fromEntries(
+        variables.filter(v => v.name.trim()).map(v => [v.name.trim(), parseVariableValue(v.value)])
+      ),
       createdAt: pattern?.createdAt || new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
-  }, [pattern, name, description, category, columns, columnProportions, zoneProportionsMap, dimensions, globalSettings.materialThickness, patternMaterials]);
+  }, [pattern, name, description, category, columnsWithHeights, columnProportions, partRules, customPartRules, dimensions, patternMaterials, backPanelConfig, variables]);
+
+  // Expression diagnostics for the part rules, zone heights and hardware rules,
+  // evaluated at the default dimensions
+  const ruleDiagnostics = useMemo(() => {
+    const ruleSet = ruleSets.find(r => r.isDefault) || ruleSets[0];
+    const previewPattern = buildPattern();
+    const previewCabinet: CabinetInstance = {
+      id: previewPattern.id,
+      name: previewPattern.name,
+      patternId: previewPattern.id,
+      dimensions,
+      createdAt: previewPattern.createdAt,
+      updatedAt: previewPattern.updatedAt,
+    };
+    return uniqueDiagnostics([
+      ...calculatePartsWithDiagnostics(
+        previewPattern,
+        dimensions,
+        globalSettings,
+        undefined,
+        undefined,
+        ruleSet,
+        materials,
+        undefined,
+        undefined,
+        joints
+      ).diagnostics,
+      ...calculateZoneHeights(previewPattern, dimensions, globalSettings).diagnostics,
+      ...calculateCabinetHardwareWithDiagnostics(previewCabinet, previewPattern, globalSettings, hardware, ruleSet, materials, joints).diagnostics,
+    ]);
+  }, [buildPattern, dimensions, globalSettings, ruleSets, materials, joints, hardware]);
+
+  // Diagnostics of the zone heights and hardware rules, listed below the part rules
+  const patternDiagnostics = ruleDiagnostics.filter(d => !d.ruleId && !d.variable);
 
   // Get door hinge label
   const getDoorLabel = (zone: PatternZone) => {
@@ -1078,6 +1084,18 @@ export function PatternEditor({ pattern, onSave, onCancel, className }: PatternE
                   {/* Back material */}
                   <div>
                     <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Traseira</label>
+                    <select
+                      value={backPanelConfig?.type || ''}
+                      onChange={(e) => setBackPanelConfig(e.target.value
+                        ? { ...backPanelConfig, type: e.target.value as NonNullable<CabinetPattern['backPanelConfig']>['type'] }
+                        : undefined)}
+                      className="w-full mb-2 px-2 py-1.5 text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    >
+                      <option value="">Conforme conjunto de regras</option>
+                      {Object.entries(pt.properties.backPanelTypes).map(([type, label]) => (
+                        <option key={type} value={type}>{label}</option>
+                      ))}
+                    </select>
                     <div className="flex gap-2">
                       <select 
                         value={patternMaterials?.back?.materialId || ''} 
@@ -1250,6 +1268,170 @@ export function PatternEditor({ pattern, onSave, onCancel, className }: PatternE
                   ))}
                 </div>
               </div>
+
+              {/* Variables */}
+              <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Variáveis ({variables.length})
+                  </h4>
+                  <button onClick={() => setVariables(prev => [...prev, { name: '', value: '0' }])} title="Adicionar variável" className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500">
+                    <Plus className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+                <p className="text-xs text-gray-400 mb-2">Número ou expressão, ex: internal_width - drawer_slide_offset * 2</p>
+                <div className="space-y-1.5">
+                  {variables.map((variable, varIdx) => {
+                    const diagnostic = ruleDiagnostics.find(d => d.variable && d.variable === variable.name.trim());
+                    return (
+                      <div key={varIdx}>
+                        <div className="flex items-center gap-1">
+                          <input
+                            type="text"
+                            value={variable.name}
+                            onChange={(e) => updateVariable(varIdx, { name: e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, '_') })}
+                            placeholder="nome"
+                            className="w-28 min-w-0 px-1.5 py-1 text-xs font-mono rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                          />
+                          <span className="text-xs text-gray-400">=</span>
+                          <input
+                            type="text"
+                            value={variable.value}
+                            onChange={(e) => updateVariable(varIdx, { value: e.target.value })}
+                            title={diagnostic?.message}
+                            className={cn(
+                              'flex-1 min-w-0 px-1.5 py-1 text-xs font-mono rounded border bg-white dark:bg-gray-700 text-gray-900 dark:text-white',
+                              diagnostic ? 'border-red-400 dark:border-red-600' : 'border-gray-300 dark:border-gray-600'
+                            )}
+                          />
+                          <button
+                            onClick={() => setVariables(prev => prev.filter((_, i) => i !== varIdx))}
+                            className="p-0.5 rounded hover:bg-red-100 dark:hover:bg-red-900/30 text-gray-400 hover:text-red-500 shrink-0"
+                          >
+                            <Trash2 className="w-2.5 h-2.5" />
+                          </button>
+                        </div>
+                        {diagnostic && (
+                          <p className="mt-0.5 text-xs text-red-600 dark:text-red-400">{diagnostic.message}</p>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              {/* Part rules */}
+              <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Regras de Peças ({partRules.length})
+                  </h4>
+                  <div className="flex items-center gap-1">
+                    {customPartRules && (
+                      <button onClick={() => setCustomPartRules(null)} title="Regenerar a partir das zonas" className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500">
+                        <RotateCw className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                    <button onClick={addPartRule} title="Adicionar regra" className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500">
+                      <Plus className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                </div>
+                {!customPartRules && (
+                  <p className="text-xs text-gray-400 mb-2">Geradas a partir das zonas. Ao editar uma regra, as regras passam a ser mantidas.</p>
+                )}
+                <div className="space-y-2">
+                  {partRules.map((rule, ruleIdx) => {
+                    const diagnostics = ruleDiagnostics.filter(d => d.ruleId === rule.id);
+                    return (
+                      <div key={rule.id} className={cn(
+                        'border rounded-lg p-2 space-y-1',
+                        diagnostics.some(d => d.severity === 'error') ? 'border-red-300 dark:border-red-800' : 'border-gray-200 dark:border-gray-600'
+                      )}>
+                        <div className="flex items-center gap-1">
+                          <input
+                            type="text"
+                            value={rule.partName}
+                            onChange={(e) => updatePartRule(ruleIdx, { partName: e.target.value })}
+                            className="flex-1 min-w-0 px-1 py-0.5 text-xs font-medium rounded border-0 bg-transparent text-gray-700 dark:text-gray-300"
+                          />
+                          <select
+                            value={rule.role ?? ''}
+                            onChange={(e) => updatePartRule(ruleIdx, { role: (e.target.value || undefined) as PartRole | undefined })}
+                            title="Função da peça (define material e orlagem a partir do conjunto de regras)"
+                            className="w-24 shrink-0 px-1 py-0.5 text-xs rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+                          >
+                            <option value="">Sem função</option>
+                            {(Object.keys(pt.partRoles) as PartRole[]).map(role => (
+                              <option key={role} value={role}>{pt.partRoles[role]}</option>
+                            ))}
+                          </select>
+                          <label className="flex items-center gap-1 text-xs text-gray-400 shrink-0" title="Pode ser desativada em cada armário">
+                            <input
+                              type="checkbox"
+                              checked={rule.isOptional ?? false}
+                              onChange={(e) => updatePartRule(ruleIdx, { isOptional: e.target.checked })}
+                              className="rounded border-gray-300 dark:border-gray-600"
+                            />
+                            Opcional
+                          </label>
+                          <button
+                            onClick={() => removePartRule(ruleIdx)}
+                            className="p-0.5 rounded hover:bg-red-100 dark:hover:bg-red-900/30 text-gray-400 hover:text-red-500 shrink-0"
+                          >
+                            <Trash2 className="w-2.5 h-2.5" />
+                          </button>
+                        </div>
+                        {PART_RULE_FIELDS.map(({ field, label }) => {
+                          const diagnostic = diagnostics.find(d => d.field === field);
+                          return (
+                            <div key={field}>
+                              <div className="flex items-center gap-1.5">
+                                <label className="w-7 text-xs text-gray-400 shrink-0">{label}</label>
+                                <input
+                                  type="text"
+                                  value={rule[field] ?? ''}
+                                  placeholder={field === 'condition' ? 'sempre' : undefined}
+                                  onChange={(e) => updatePartRule(ruleIdx, { [field]: e.target.value })}
+                                  title={diagnostic?.message}
+                                  className={cn(
+                                    'flex-1 min-w-0 px-1.5 py-1 text-xs font-mono rounded border bg-white dark:bg-gray-700 text-gray-900 dark:text-white',
+                                    !diagnostic && 'border-gray-300 dark:border-gray-600',
+                                    diagnostic?.severity === 'error' && 'border-red-400 dark:border-red-600',
+                                    diagnostic?.severity === 'warning' && 'border-amber-400 dark:border-amber-600'
+                                  )}
+                                />
+                              </div>
+                              {diagnostic && (
+                                <p className={cn(
+                                  'ml-8 mt-0.5 text-xs',
+                                  diagnostic.severity === 'error' ? 'text-red-600 dark:text-red-400' : 'text-amber-600 dark:text-amber-400'
+                                )}>
+                                  {diagnostic.message}
+                                </p>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    );
+                  })}
+                </div>
+                {patternDiagnostics.length > 0 && (
+                  <div className="mt-2 space-y-0.5">
+                    {patternDiagnostics.map((diagnostic, idx) => (
+                      <p key={idx} className={cn(
+                        'text-xs',
+                        diagnostic.severity === 'error' ? 'text-red-600 dark:text-red-400' : 'text-amber-600 dark:text-amber-400'
+                      )} title={diagnostic.expression}>
+                        {diagnostic.hardwareId
+                          ? `Ferragem ${diagnostic.hardwareId}`
+                          : `Zona ${columns.flatMap(c => c.zones).find(z => z.id === diagnostic.zoneId)?.name ?? diagnostic.zoneId}`}: {diagnostic.message}
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </div>
             </div>
           </aside>
         )}
@@ -2,7 +2,11 @@ import { Suspense, useState, useMemo } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls, PerspectiveCamera, Environment, Grid, Html } from '@react-three/drei';
 import { useCabinetStore, useMaterialById } from '../store/cabinetStore';
-import type { CabinetInstance, PatternZone, Material } from '../types';
+import { calculatePartsWithDiagnostics, getPartCalculationOptions, resolveBackPanelConfig, resolveInstancePattern, resolveProportions } from '../utils/cabinetLogic';
+import { getFrontFrameDimensions, isFramedFront } from '../utils/frontStyles';
+import { getHandleLayout } from '../utils/handles';
+import { resolveFrontHandle } from '../utils/hardwareLogic';
+import type { CabinetInstance, CabinetPattern, PatternZone, Material, FrontStyle, HandleConfig, HardwareItem } from '../types';
 
 // ============================================
 // Material Helpers
@@ -59,19 +63,78 @@ function CabinetBox({ cabinet, position, isSelected, onClick }: CabinetBoxProps)
   
   // Get pattern zones
   const patterns = useCabinetStore((s) => s.patterns);
-  const pattern = patterns.find((p) => p.id === cabinet.patternId);
+  const basePattern = patterns.find((p) => p.id === cabinet.patternId);
+  
+  // Pattern as customized by this instance (zone type, material, hinge side)
+  const pattern = useMemo(
+    () => basePattern && resolveInstancePattern(basePattern, cabinet.zoneOverrides),
+    [basePattern, cabinet.zoneOverrides]
+  );
   
   // Check if pattern uses new column-based structure
   const hasColumns = pattern?.columns && pattern.columns.length > 0;
   
-  // Get column proportions
+  // Zones whose part rules were all turned off (condition false or optional part switched off);
+  // zones whose parts were dropped for other reasons (e.g. invalid dimensions) are still drawn
+  const globalSettings = useCabinetStore((s) => s.globalSettings);
+  const ruleSets = useCabinetStore((s) => s.ruleSets);
+  const materials = useCabinetStore((s) => s.materials);
+  const joints = useCabinetStore((s) => s.joints);
+  const hardware = useCabinetStore((s) => s.hardware);
+  const ruleSet = ruleSets.find((r) => r.isDefault) || ruleSets[0];
+  const hiddenZoneIds = useMemo(() => {
+    const hidden = new Set<string>();
+    if (!basePattern || !pattern) return hidden;
+    const { excludedRuleIds } = calculatePartsWithDiagnostics(
+      basePattern,
+      cabinet.dimensions,
+      globalSettings,
+      cabinet.variableOverrides,
+      cabinet.zoneProportions,
+      ruleSet,
+      materials,
+      cabinet.materialOverrides,
+      undefined,
+      joints,
+      { ...getPartCalculationOptions(cabinet), hardware }
+    );
+    const excluded = new Set(excludedRuleIds);
+    const zoneRules = pattern.partRules.filter((rule) => rule.zoneId);
+    for (const rule of zoneRules) {
+      const zoneId = rule.zoneId!;
+      if (zoneRules.every((r) => r.zoneId !== zoneId || excluded.has(r.id))) {
+        hidden.add(zoneId);
+      }
+    }
+    return hidden;
+  }, [cabinet, basePattern, pattern, globalSettings, ruleSet, materials, joints, hardware]);
+  
+  // Handle of each door and drawer zone (same resolution as the hardware totals)
+  const frontHandles = useMemo(() => {
+    const handles = new Map<string, FrontHandleItem>();
+    if (!pattern) return handles;
+    for (const zone of [...pattern.zones, ...(pattern.columns ?? []).flatMap((column) => column.zones)]) {
+      const frontHandle = resolveFrontHandle(zone, hardware, globalSettings, cabinet, ruleSet);
+      if (frontHandle) handles.set(zone.id, frontHandle);
+    }
+    return handles;
+  }, [pattern, hardware, globalSettings, cabinet, ruleSet]);
+  
+  // Back panel (instance config, then pattern, then global default)
+  const backPanel = basePattern
+    ? resolveBackPanelConfig(cabinet.backPanelConfig ?? cabinet.backPanel, basePattern, globalSettings)
+    : cabinet.backPanel;
+  const backThickness = (backPanel?.thickness || globalSettings.backPanelThickness || 3) / 1000;
+  const backRailWidth = (backPanel?.railWidth ?? 80) / 1000;
+  const backRailPositions = backPanel?.type === 'rail-system'
+    ? (backPanel.railPositions?.length ? backPanel.railPositions : ['top', 'bottom'])
+    : [];
+
+  // Get column proportions (instance first, then pattern, same as the part calculator)
   const columnProportions = useMemo(() => {
     if (!pattern?.columns || pattern.columns.length === 0) return [];
-    if (pattern.columnProportions && pattern.columnProportions.length === pattern.columns.length) {
-      return pattern.columnProportions;
-    }
-    return Array(pattern.columns.length).fill(1 / pattern.columns.length);
-  }, [pattern?.columns, pattern?.columnProportions]);
+    return resolveProportions(cabinet.columnProportions ?? pattern.columnProportions, pattern.columns.length);
+  }, [pattern?.columns, pattern?.columnProportions, cabinet.columnProportions]);
   
   // Get zone proportions from cabinet instance, or default to equal distribution
   const zoneProportions = useMemo(() => {
@@ -122,21 +185,47 @@ function CabinetBox({ cabinet, position, isSelected, onClick }: CabinetBoxProps)
       </mesh>
       
       {/* Back Panel */}
-      {cabinet.backPanel?.type !== 'none' && (
-        <mesh position={[0, height / 2, -depth / 2 + (cabinet.backPanel?.thickness || 3) / 2000]}>
-          <boxGeometry 
-            args={[
-              width - thickness * 2, 
-              height - thickness * 2, 
-              (cabinet.backPanel?.thickness || 3) / 1000
-            ]} 
-          />
-          <meshStandardMaterial 
-            color={isSelected ? '#388E3C' : '#A0522D'} 
-          />
-        </mesh>
+      {backPanel?.type !== 'none' && backPanel?.type !== 'rail-system' && (
+        backPanel?.type === 'full-overlay' ? (
+          <mesh position={[0, height / 2, -depth / 2 - backThickness / 2]}>
+            <boxGeometry args={[width, height, backThickness]} />
+            <meshStandardMaterial 
+              color={isSelected ? '#388E3C' : '#A0522D'} 
+            />
+          </mesh>
+        ) : (
+          <mesh position={[0, height / 2, -depth / 2 + backThickness / 2]}>
+            <boxGeometry 
+              args={[
+                width - thickness * 2, 
+                height - thickness * 2, 
+                backThickness
+              ]} 
+            />
+            <meshStandardMaterial 
+              color={isSelected ? '#388E3C' : '#A0522D'} 
+            />
+          </mesh>
+        )
       )}
       
+      {/* Back Rails */}
+      {backRailPositions.map((position) => {
+        const railY = position === 'top'
+          ? height - thickness - backRailWidth / 2
+          : position === 'bottom'
+            ? thickness + backRailWidth / 2
+            : height / 2;
+        return (
+          <mesh key={position} position={[0, railY, -depth / 2 + thickness / 2]}>
+            <boxGeometry args={[width - thickness * 2, backRailWidth, thickness]} />
+            <meshStandardMaterial 
+              color={isSelected ? '#4CAF50' : hovered ? '#81C784' : bodyColor} 
+            />
+          </mesh>
+        );
+      })}
+      
       {/* Render Column-based zones */}
       {hasColumns && pattern?.columns?.map((column, colIdx) => {
         // Calculate column X position
@@ -149,13 +238,12 @@ function CabinetBox({ cabinet, position, isSelected, onClick }: CabinetBoxProps)
         const colCenterX = colStartX + colWidth / 2;
         
         // Get zone proportions for this column
-        const colZoneProportions = cabinet.columnZoneProportions?.[column.id] 
-          || column.zones.map(() => 1 / column.zones.length);
+        const colZoneProportions = resolveProportions(cabinet.columnZoneProportions?.[column.id], column.zones.length);
         
         return (
           <group key={column.id}>
             {/* Column zones */}
-            {column.zones.map((zone, zoneIdx) => (
+            {column.zones.map((zone, zoneIdx) => !hiddenZoneIds.has(zone.id) && (
               <ColumnZoneComponent
                 key={zone.id}
                 zone={zone}
@@ -168,6 +256,8 @@ function CabinetBox({ cabinet, position, isSelected, onClick }: CabinetBoxProps)
                 frontColor={frontColor}
                 bodyColor={bodyColor}
                 isSelected={isSelected}
+                handle={frontHandles.get(zone.id)}
+                category={pattern.category}
               />
             ))}
             
@@ -183,7 +273,7 @@ function CabinetBox({ cabinet, position, isSelected, onClick }: CabinetBoxProps)
       })}
       
       {/* Render legacy flat zones (non-column patterns) */}
-      {!hasColumns && pattern?.zones.map((zone, index) => (
+      {!hasColumns && pattern?.zones.map((zone, index) => !hiddenZoneIds.has(zone.id) && (
         <ZoneComponent
           key={zone.id}
           zone={zone}
@@ -194,6 +284,8 @@ function CabinetBox({ cabinet, position, isSelected, onClick }: CabinetBoxProps)
           frontColor={frontColor}
           bodyColor={bodyColor}
           isSelected={isSelected}
+          handle={frontHandles.get(zone.id)}
+          category={pattern.category}
         />
       ))}
       
@@ -207,6 +299,120 @@ function CabinetBox({ cabinet, position, isSelected, onClick }: CabinetBoxProps)
   );
 }
 
+// ============================================
+// Front Panel Component (slab or framed front)
+// ============================================
+
+interface FrontPanelProps {
+  width: number; // m
+  height: number; // m
+  thickness: number; // m
+  color: string;
+  style?: FrontStyle;
+  position?: [number, number, number];
+}
+
+function FrontPanel({ width, height, thickness, color, style, position }: FrontPanelProps) {
+  if (!isFramedFront(style)) {
+    return (
+      <mesh position={position}>
+        <boxGeometry args={[width, height, thickness]} />
+        <meshStandardMaterial color={color} />
+      </mesh>
+    );
+  }
+
+  // Stiles full height, rails between them, centre recessed behind the frame
+  // (raised panels: with their field standing forward inside the fielding)
+  const { frameWidth, raiseWidth } = getFrontFrameDimensions(style);
+  const frame = Math.min(frameWidth / 1000, width / 3, height / 3);
+  const field = Math.min(raiseWidth / 1000, (width - frame * 2) / 3, (height - frame * 2) / 3);
+  return (
+    <group position={position}>
+      {[-1, 1].map((side) => (
+        <mesh key={`stile-${side}`} position={[side * (width - frame) / 2, 0, 0]}>
+          <boxGeometry args={[frame, height, thickness]} />
+          <meshStandardMaterial color={color} />
+        </mesh>
+      ))}
+      {[-1, 1].map((side) => (
+        <mesh key={`rail-${side}`} position={[0, side * (height - frame) / 2, 0]}>
+          <boxGeometry args={[width - frame * 2, frame, thickness]} />
+          <meshStandardMaterial color={color} />
+        </mesh>
+      ))}
+      <mesh position={[0, 0, -thickness / 4]}>
+        <boxGeometry args={[width - frame * 2, height - frame * 2, thickness / 3]} />
+        {style.centre === 'glass'
+          ? <meshStandardMaterial color="#B3E5FC" transparent opacity={0.35} roughness={0.05} />
+          : <meshStandardMaterial color={color} />}
+      </mesh>
+      {field > 0 && style.centre !== 'glass' && (
+        <mesh position={[0, 0, 0]}>
+          <boxGeometry args={[width - (frame + field) * 2, height - (frame + field) * 2, thickness / 3]} />
+          <meshStandardMaterial color={color} />
+        </mesh>
+      )}
+    </group>
+  );
+}
+
+// ============================================
+// Front Handle Component
+// ============================================
+
+interface FrontHandleItem {
+  config: HandleConfig;
+  handle: HardwareItem;
+}
+
+interface FrontHandleProps {
+  frontHandle?: FrontHandleItem;
+  zone: PatternZone;
+  category: CabinetPattern['category'];
+  width: number; // m, whole front (both leaves of a double door)
+  height: number; // m
+  z: number; // m, face of the front
+}
+
+function FrontHandle({ frontHandle, zone, category, width, height, z }: FrontHandleProps) {
+  if (!frontHandle) return null;
+
+  // A double door has two leaves, each hinged on its outer side
+  const hingeType = zone.options?.hingeType;
+  const leaves: { hingeSide?: 'left' | 'right'; offsetX: number; width: number }[] =
+    zone.type === 'door' && hingeType === 'double'
+      ? [
+          { hingeSide: 'left', offsetX: -width / 4, width: width / 2 },
+          { hingeSide: 'right', offsetX: width / 4, width: width / 2 },
+        ]
+      : [{ hingeSide: zone.type === 'door' ? (hingeType === 'right' ? 'right' : 'left') : undefined, offsetX: 0, width }];
+
+  return (
+    <>
+      {leaves.map((leaf, index) => {
+        const layout = getHandleLayout(frontHandle.handle, frontHandle.config, {
+          width: leaf.width * 1000,
+          height: height * 1000,
+          zoneType: zone.type === 'door' ? 'door' : 'drawer',
+          category,
+          hingeSide: leaf.hingeSide,
+        });
+        const length = layout.length / 1000;
+        return (
+          <mesh
+            key={index}
+            position={[leaf.offsetX - leaf.width / 2 + layout.x / 1000, -height / 2 + layout.y / 1000, z + 0.008]}
+          >
+            <boxGeometry args={layout.vertical ? [0.012, length, 0.012] : [length, 0.012, 0.012]} />
+            <meshStandardMaterial color="#C0C0C0" metalness={0.8} roughness={0.2} />
+          </mesh>
+        );
+      })}
+    </>
+  );
+}
+
 // ============================================
 // Zone Component (Drawer, Door, Shelf, etc.)
 // ============================================
@@ -220,9 +426,11 @@ interface ZoneComponentProps {
   frontColor: string;
   bodyColor: string;
   isSelected: boolean;
+  handle?: FrontHandleItem;
+  category: CabinetPattern['category'];
 }
 
-function ZoneComponent({ zone, index, totalZones, zoneProportions, cabinetDimensions, frontColor, bodyColor, isSelected }: ZoneComponentProps) {
+function ZoneComponent({ zone, index, totalZones, zoneProportions, cabinetDimensions, frontColor, bodyColor, isSelected, handle, category }: ZoneComponentProps) {
   const { width, height, depth, thickness } = cabinetDimensions;
   const innerWidth = width - thickness * 2;
   const innerHeight = height - thickness * 2;
@@ -252,10 +460,14 @@ function ZoneComponent({ zone, index, totalZones, zoneProportions, cabinetDimens
       return (
         <group position={[0, zoneY, 0]}>
           {/* Drawer Front Panel */}
-          <mesh position={[0, 0, depth / 2 - thickness / 2]}>
-            <boxGeometry args={[innerWidth - gap * 2, zoneHeight - gap * 2, thickness]} />
-            <meshStandardMaterial color={isSelected ? '#66BB6A' : frontColor} />
-          </mesh>
+          <FrontPanel
+            position={[0, 0, depth / 2 - thickness / 2]}
+            width={innerWidth - gap * 2}
+            height={zoneHeight - gap * 2}
+            thickness={thickness}
+            color={isSelected ? '#66BB6A' : frontColor}
+            style={zone.options?.frontStyle}
+          />
           
           {/* Drawer Box - Left Side */}
           <mesh position={[-innerWidth / 2 + drawerSideThickness / 2 + gap, 0, 0]}>
@@ -282,10 +494,14 @@ function ZoneComponent({ zone, index, totalZones, zoneProportions, cabinetDimens
           </mesh>
           
           {/* Handle */}
-          <mesh position={[0, 0, depth / 2 + 0.005]}>
-            <boxGeometry args={[0.08, 0.015, 0.015]} />
-            <meshStandardMaterial color="#C0C0C0" metalness={0.8} roughness={0.2} />
-          </mesh>
+          <FrontHandle
+            frontHandle={handle}
+            zone={zone}
+            category={category}
+            width={innerWidth - gap * 2}
+            height={zoneHeight - gap * 2}
+            z={depth / 2}
+          />
         </group>
       );
       
@@ -293,15 +509,22 @@ function ZoneComponent({ zone, index, totalZones, zoneProportions, cabinetDimens
       return (
         <group position={[0, zoneY, depth / 2 - thickness / 2]}>
           {/* Door Panel */}
-          <mesh>
-            <boxGeometry args={[innerWidth - gap * 2, zoneHeight - gap * 2, thickness]} />
-            <meshStandardMaterial color={isSelected ? '#66BB6A' : frontColor} />
-          </mesh>
+          <FrontPanel
+            width={innerWidth - gap * 2}
+            height={zoneHeight - gap * 2}
+            thickness={thickness}
+            color={isSelected ? '#66BB6A' : frontColor}
+            style={zone.options?.frontStyle}
+          />
           {/* Handle */}
-          <mesh position={[innerWidth / 2 - 0.03, 0, thickness / 2 + 0.005]}>
-            <boxGeometry args={[0.015, 0.08, 0.015]} />
-            <meshStandardMaterial color="#C0C0C0" metalness={0.8} roughness={0.2} />
-          </mesh>
+          <FrontHandle
+            frontHandle={handle}
+            zone={zone}
+            category={category}
+            width={innerWidth - gap * 2}
+            height={zoneHeight - gap * 2}
+            z={thickness / 2}
+          />
         </group>
       );
       
@@ -382,6 +605,8 @@ interface ColumnZoneComponentProps {
   frontColor: string;
   bodyColor: string;
   isSelected: boolean;
+  handle?: FrontHandleItem;
+  category: CabinetPattern['category'];
 }
 
 function ColumnZoneComponent({
@@ -395,6 +620,8 @@ function ColumnZoneComponent({
   frontColor,
   bodyColor,
   isSelected,
+  handle,
+  category,
 }: ColumnZoneComponentProps) {
   const { height, depth, thickness } = cabinetDimensions;
   const innerHeight = height - thickness * 2;
@@ -416,29 +643,44 @@ function ColumnZoneComponent({
       return (
         <group position={[columnCenterX, zoneY, 0]}>
           {/* Drawer Front */}
-          <mesh position={[0, 0, depth / 2 - thickness / 2]}>
-            <boxGeometry args={[columnWidth - gap * 2, zoneHeight - gap * 2, thickness]} />
-            <meshStandardMaterial color={isSelected ? '#66BB6A' : frontColor} />
-          </mesh>
+          <FrontPanel
+            position={[0, 0, depth / 2 - thickness / 2]}
+            width={columnWidth - gap * 2}
+            height={zoneHeight - gap * 2}
+            thickness={thickness}
+            color={isSelected ? '#66BB6A' : frontColor}
+            style={zone.options?.frontStyle}
+          />
           {/* Handle */}
-          <mesh position={[0, 0, depth / 2 + 0.005]}>
-            <boxGeometry args={[0.06, 0.012, 0.012]} />
-            <meshStandardMaterial color="#C0C0C0" metalness={0.8} roughness={0.2} />
-          </mesh>
+          <FrontHandle
+            frontHandle={handle}
+            zone={zone}
+            category={category}
+            width={columnWidth - gap * 2}
+            height={zoneHeight - gap * 2}
+            z={depth / 2}
+          />
         </group>
       );
       
     case 'door':
       return (
         <group position={[columnCenterX, zoneY, depth / 2 - thickness / 2]}>
-          <mesh>
-            <boxGeometry args={[columnWidth - gap * 2, zoneHeight - gap * 2, thickness]} />
-            <meshStandardMaterial color={isSelected ? '#66BB6A' : frontColor} />
-          </mesh>
-          <mesh position={[columnWidth / 2 - 0.02, 0, thickness / 2 + 0.005]}>
-            <boxGeometry args={[0.012, 0.06, 0.012]} />
-            <meshStandardMaterial color="#C0C0C0" metalness={0.8} roughness={0.2} />
-          </mesh>
+          <FrontPanel
+            width={columnWidth - gap * 2}
+            height={zoneHeight - gap * 2}
+            thickness={thickness}
+            color={isSelected ? '#66BB6A' : frontColor}
+            style={zone.options?.frontStyle}
+          />
+          <FrontHandle
+            frontHandle={handle}
+            zone={zone}
+            category={category}
+            width={columnWidth - gap * 2}
+            height={zoneHeight - gap * 2}
+            z={thickness / 2}
+          />
         </group>
       );
       
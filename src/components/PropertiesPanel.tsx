@@ -3,13 +3,14 @@ import { useCabinetStore } from '../store/cabinetStore';
 import { cn } from '../utils/cn';
 import { pt } from '../i18n/pt';
 import CutListModal from './CutListModal';
+import type { BackPanelConfig } from '../types';
 
 interface PropertiesPanelProps {
   className?: string;
 }
 
 export function PropertiesPanel({ className }: PropertiesPanelProps) {
-  const { currentProject, patterns, ui, updateCabinet, openCutListModal, closeCutListModal } = useCabinetStore();
+  const { currentProject, patterns, globalSettings, ui, updateCabinet, openCutListModal, closeCutListModal } = useCabinetStore();
 
   const selectedCabinet = useMemo(() => {
     if (!ui.selectedCabinetId || !currentProject) return null;
@@ -21,6 +22,9 @@ export function PropertiesPanel({ className }: PropertiesPanelProps) {
     return patterns.find((p) => p.id === selectedCabinet.patternId) ?? null;
   }, [selectedCabinet, patterns]);
 
+  // Back panel the cabinet gets when it has no config of its own
+  const defaultBackPanel = selectedPattern?.backPanelConfig ?? globalSettings.defaultBackPanelConfig;
+
   const handleDimensionChange = (dimension: 'height' | 'width' | 'depth', value: string) => {
     if (!selectedCabinet) return;
     const numValue = parseInt(value, 10);
@@ -43,6 +47,21 @@ export function PropertiesPanel({ className }: PropertiesPanelProps) {
     updateCabinet(selectedCabinet.id, { location });
   };
 
+  const handleOptionalPartToggle = (ruleId: string, enabled: boolean) => {
+    if (!selectedCabinet) return;
+    updateCabinet(selectedCabinet.id, { optionalParts: { ...selectedCabinet.optionalParts, [ruleId]: enabled } });
+  };
+
+  const handleBackPanelTypeChange = (type: string) => {
+    if (!selectedCabinet) return;
+    const current = selectedCabinet.backPanelConfig ?? selectedCabinet.backPanel;
+    updateCabinet(selectedCabinet.id, type
+      ? { backPanelConfig: { ...current, type: type as BackPanelConfig['type'] } }
+      : { backPanelConfig: undefined, backPanel: undefined });
+  };
+
+  const optionalRules = useMemo(() => selectedPattern?.partRules.filter((r) => r.isOptional) ?? [], [selectedPattern]);
+
   if (!selectedCabinet) {
     return (
       <aside className={cn('flex flex-col h-full bg-white dark:bg-gray-900', className)}>
@@ -97,6 +116,37 @@ export function PropertiesPanel({ className }: PropertiesPanelProps) {
           </div>
         </div>
 
+        <div className="p-4 border-b border-gray-200 dark:border-gray-800">
+          <label className="block text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2">{pt.properties.backPanel}</label>
+          <select
+            value={(selectedCabinet.backPanelConfig ?? selectedCabinet.backPanel)?.type ?? ''}
+            onChange={(e) => handleBackPanelTypeChange(e.target.value)}
+            className="w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+          >
+            <option value="">
+              {pt.properties.backPanelDefault}
+              {defaultBackPanel && ` (${pt.properties.backPanelTypes[defaultBackPanel.type]})`}
+            </option>
+            {Object.entries(pt.properties.backPanelTypes).map(([type, label]) => (
+              <option key={type} value={type}>{label}</option>
+            ))}
+          </select>
+        </div>
+
+        {optionalRules.length > 0 && (
+          <div className="p-4 border-b border-gray-200 dark:border-gray-800">
+            <label className="block text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2">{pt.properties.optionalParts}</label>
+            <div className="space-y-1.5">
+              {optionalRules.map((rule) => (
+                <label key={rule.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                  <input type="checkbox" checked={selectedCabinet.optionalParts?.[rule.id] !== false} onChange={(e) => handleOptionalPartToggle(rule.id, e.target.checked)} className="rounded border-gray-300 dark:border-gray-600" />
+                  {rule.partName}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
         <div className="p-4 border-b border-gray-200 dark:border-gray-800">
           <label className="block text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2">{pt.properties.location}</label>
           <input type="text" value={selectedCabinet.location || ''} onChange={(e) => handleLocationChange(e.target.value)} placeholder={pt.properties.locationPlaceholder} className="w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors" />
@@ -3,8 +3,9 @@
 // ============================================
 
 import { useState, useEffect } from 'react';
-import { useCabinetStore, useMaterials } from '../store/cabinetStore';
-import type { RuleSet } from '../types';
+import { useCabinetStore, useHardware, useMaterials } from '../store/cabinetStore';
+import type { RuleSet, ShelfPinConfig } from '../types';
+import { resolveShelfPinConfig } from '../utils/shelfPins';
 import { pt } from '../i18n/pt';
 
 const t = pt;
@@ -28,6 +29,7 @@ interface RuleModalProps {
 
 function RuleModal({ isOpen, ruleSet, onSave, onClose }: RuleModalProps) {
   const materials = useMaterials();
+  const handles = useHardware().filter(h => h.type === 'handle');
   const isNew = !ruleSet;
   
   const [formData, setFormData] = useState<RuleSet>(() => ruleSet || createEmptyRuleSet());
@@ -103,6 +105,20 @@ function RuleModal({ isOpen, ruleSet, onSave, onClose }: RuleModalProps) {
     }));
   };
 
+  const updateHandle = (zoneType: 'door' | 'drawer', handleId: string) => {
+    setFormData(prev => ({
+      ...prev,
+      handles: { ...prev.handles, [zoneType]: handleId ? { ...prev.handles?.[zoneType], handleId } : undefined },
+    }));
+  };
+
+  const updateShelfPins = (key: keyof ShelfPinConfig, value: number | boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      shelfPins: { ...prev.shelfPins, [key]: value },
+    }));
+  };
+
   const toggleEdge = (category: keyof RuleSet['edgeBanding'], edge: string) => {
     setFormData(prev => {
       const edges = prev.edgeBanding[category] as string[];
@@ -205,6 +221,19 @@ function RuleModal({ isOpen, ruleSet, onSave, onClose }: RuleModalProps) {
                   >
                     <option value="sides-on-bottom">{t.rules.construction.drawerSidesOnBottom}</option>
                     <option value="bottom-in-groove">{t.rules.construction.bottomInGroove}</option>
+                    <option value="metal-sided">{t.rules.construction.metalSided}</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{t.rules.construction.doorOverlay}</label>
+                  <select
+                    value={formData.construction.doorOverlay ?? 'full-overlay'}
+                    onChange={e => updateConstruction('doorOverlay', e.target.value)}
+                    className="w-full bg-gray-50 dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-lg px-3 py-2 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="full-overlay">{t.rules.construction.fullOverlay}</option>
+                    <option value="half-overlay">{t.rules.construction.halfOverlay}</option>
+                    <option value="inset">{t.rules.construction.inset}</option>
                   </select>
                 </div>
               </div>
@@ -238,6 +267,33 @@ function RuleModal({ isOpen, ruleSet, onSave, onClose }: RuleModalProps) {
                   ))}
                 </div>
               </div>
+
+              {/* Default Handles */}
+              <div className="space-y-3">
+                <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wider border-b border-gray-200 dark:border-slate-700 pb-2">
+                  {t.rules.handles.title}
+                </h3>
+                <div className="grid grid-cols-2 gap-2">
+                  {([
+                    ['door', t.rules.handles.door],
+                    ['drawer', t.rules.handles.drawer],
+                  ] as const).map(([zoneType, label]) => (
+                    <div key={zoneType}>
+                      <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{label}</label>
+                      <select
+                        value={formData.handles?.[zoneType]?.handleId || ''}
+                        onChange={e => updateHandle(zoneType, e.target.value)}
+                        className="w-full bg-gray-50 dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-lg px-2 py-1.5 text-xs text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="">{t.rules.handles.none}</option>
+                        {handles.map(h => (
+                          <option key={h.id} value={h.id}>{h.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
             </div>
 
             {/* Right Column - Offsets & Edge Banding */}
@@ -255,13 +311,22 @@ function RuleModal({ isOpen, ruleSet, onSave, onClose }: RuleModalProps) {
                     ['drawerSlideOffset', t.rules.offsets.drawerSlideOffset],
                     ['backPanelThickness', t.rules.offsets.backPanelThickness],
                     ['backGrooveDepth', t.rules.offsets.backGrooveDepth],
+                    ...(formData.construction.drawerConstruction === 'bottom-in-groove' ? [
+                      ['drawerBottomGrooveDepth', t.rules.offsets.drawerBottomGrooveDepth],
+                      ['drawerBottomGrooveOffset', t.rules.offsets.drawerBottomGrooveOffset],
+                    ] as const : []),
+                    ...(formData.construction.drawerConstruction === 'metal-sided' ? [
+                      ['metalDrawerBottomDeduction', t.rules.offsets.metalDrawerBottomDeduction],
+                      ['metalDrawerBackDeduction', t.rules.offsets.metalDrawerBackDeduction],
+                      ['metalDrawerBottomDepthDeduction', t.rules.offsets.metalDrawerBottomDepthDeduction],
+                    ] as const : []),
                   ] as const).map(([key, label]) => (
                     <div key={key}>
                       <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{label}</label>
                       <div className="relative">
                         <input
                           type="number"
-                          value={formData.offsets[key]}
+                          value={formData.offsets[key] ?? ''}
                           onChange={e => updateOffsets(key, parseFloat(e.target.value) || 0)}
                           className="w-full bg-gray-50 dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-lg px-2 py-1.5 pr-8 text-xs text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500"
                           step="0.5"
@@ -274,6 +339,46 @@ function RuleModal({ isOpen, ruleSet, onSave, onClose }: RuleModalProps) {
                 </div>
               </div>
 
+              {/* Shelf Pins (System 32) */}
+              <div className="space-y-3">
+                <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wider border-b border-gray-200 dark:border-slate-700 pb-2">
+                  {t.rules.shelfPins.title}
+                </h3>
+                <label className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={resolveShelfPinConfig(formData).enabled}
+                    onChange={e => updateShelfPins('enabled', e.target.checked)}
+                    className="rounded border-gray-300 dark:border-slate-600"
+                  />
+                  {t.rules.shelfPins.enabled}
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  {([
+                    ['pitch', t.rules.shelfPins.pitch],
+                    ['frontSetback', t.rules.shelfPins.frontSetback],
+                    ['backSetback', t.rules.shelfPins.backSetback],
+                    ['startOffset', t.rules.shelfPins.startOffset],
+                    ['endOffset', t.rules.shelfPins.endOffset],
+                  ] as const).map(([key, label]) => (
+                    <div key={key}>
+                      <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{label}</label>
+                      <div className="relative">
+                        <input
+                          type="number"
+                          value={resolveShelfPinConfig(formData)[key]}
+                          onChange={e => updateShelfPins(key, parseFloat(e.target.value) || 0)}
+                          className="w-full bg-gray-50 dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-lg px-2 py-1.5 pr-8 text-xs text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500"
+                          step="1"
+                          min="0"
+                        />
+                        <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-gray-400">mm</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
               {/* Edge Banding */}
               <div className="space-y-3">
                 <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wider border-b border-gray-200 dark:border-slate-700 pb-2">
@@ -344,6 +449,31 @@ function RuleModal({ isOpen, ruleSet, onSave, onClose }: RuleModalProps) {
                     ))}
                   </div>
                 </div>
+
+                <div>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1.5">{t.rules.edgeBanding.drawerFrontEdges}</label>
+                  <div className="flex flex-wrap gap-1.5">
+                    {(['all', 'front-only'] as const).map(edge => (
+                      <button
+                        key={edge}
+                        type="button"
+                        onClick={() => {
+                          setFormData(prev => ({
+                            ...prev,
+                            edgeBanding: { ...prev.edgeBanding, drawerFrontEdges: [edge] },
+                          }));
+                        }}
+                        className={`px-2 py-1 rounded text-xs transition-colors ${
+                          (formData.edgeBanding.drawerFrontEdges as string[]).includes(edge)
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-gray-200 dark:bg-slate-600 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-slate-500'
+                        }`}
+                      >
+                        {edge === 'all' ? t.rules.edgeBanding.all : t.rules.edgeBanding.frontOnly}
+                      </button>
+                    ))}
+                  </div>
+                </div>
               </div>
             </div>
           </div>
@@ -21,7 +21,8 @@ import { MaterialsPanel } from './MaterialsPanel';
 import { HardwarePanel } from './HardwarePanel';
 import { ValidationPanel } from './ValidationPanel';
 import RulesPanel from './RulesPanel';
-import type { CabinetPattern } from '../types';
+import type { CabinetPattern, QuoteSettings } from '../types';
+import { resolveQuoteSettings } from '../utils/quote';
 
 interface SidebarProps {
   className?: string;
@@ -345,7 +346,7 @@ export function Sidebar({ className }: SidebarProps) {
 }
 
 interface SettingsPanelProps {
-  globalSettings: { materialThickness: number; backPanelThickness: number; backPanelGrooveDepth: number; defaultEdgeBanding: number; };
+  globalSettings: { materialThickness: number; backPanelThickness: number; backPanelGrooveDepth: number; defaultEdgeBanding: number; quote?: QuoteSettings };
   setGlobalSettings: (settings: Partial<SettingsPanelProps['globalSettings']>) => void;
   resetGlobalSettings: () => void;
 }
@@ -371,8 +372,58 @@ function SettingsPanel({ globalSettings, setGlobalSettings, resetGlobalSettings
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{pt.settings.edgeBandingThickness}</label>
           <input type="number" step="0.1" value={globalSettings.defaultEdgeBanding} onChange={(e) => setGlobalSettings({ defaultEdgeBanding: parseFloat(e.target.value) || 0.5 })} className="w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500" />
         </div>
+        <QuoteSettingsForm quote={globalSettings.quote} onChange={(quote) => setGlobalSettings({ quote })} />
         <button onClick={resetGlobalSettings} className="w-full px-4 py-2 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors">{pt.settings.resetToDefaults}</button>
       </div>
     </div>
   );
 }
+
+// Company details and terms printed on client quotations
+function QuoteSettingsForm({ quote = {}, onChange }: { quote?: QuoteSettings; onChange: (quote: QuoteSettings) => void }) {
+  const resolved = resolveQuoteSettings(quote);
+  const inputClass = 'w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+  const textFields = ['companyName', 'companyAddress', 'companyPhone', 'companyEmail', 'companyTaxId', 'logoUrl'] as const;
+
+  return (
+    <div className="pt-4 border-t border-gray-200 dark:border-gray-700 space-y-4">
+      <h3 className="font-semibold text-gray-900 dark:text-white">{pt.settings.quote.title}</h3>
+      {textFields.map((field) => (
+        <div key={field}>
+          <label className={labelClass}>{pt.settings.quote[field]}</label>
+          {field === 'companyAddress' ? (
+            <textarea rows={3} value={quote[field] ?? ''} onChange={(e) => onChange({ ...quote, [field]: e.target.value || undefined })} className={inputClass} />
+          ) : (
+            <input type="text" value={quote[field] ?? ''} onChange={(e) => onChange({ ...quote, [field]: e.target.value || undefined })} className={inputClass} />
+          )}
+        </div>
+      ))}
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass}>{pt.settings.quote.vatRate}</label>
+          <input type="number" min={0} value={Math.round(resolved.vatRate * 1000) / 10} onChange={(e) => onChange({ ...quote, vatRate: e.target.value === '' ? undefined : parseFloat(e.target.value) / 100 })} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>{pt.settings.quote.validityDays}</label>
+          <input type="number" min={1} value={resolved.validityDays} onChange={(e) => onChange({ ...quote, validityDays: parseInt(e.target.value) || undefined })} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>{pt.settings.quote.pricing}</label>
+          <select value={resolved.pricing} onChange={(e) => onChange({ ...quote, pricing: e.target.value as QuoteSettings['pricing'] })} className={inputClass}>
+            <option value="line-items">{pt.settings.quote.lineItems}</option>
+            <option value="lump-sum">{pt.settings.quote.lumpSum}</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>{pt.settings.quote.accentColor}</label>
+          <input type="color" value={resolved.accentColor} onChange={(e) => onChange({ ...quote, accentColor: e.target.value })} className="w-full h-10 rounded border border-gray-300 dark:border-gray-600 cursor-pointer" />
+        </div>
+      </div>
+      <div>
+        <label className={labelClass}>{pt.settings.quote.terms}</label>
+        <textarea rows={4} value={resolved.terms} onChange={(e) => onChange({ ...quote, terms: e.target.value })} className={inputClass} />
+      </div>
+    </div>
+  );
+}
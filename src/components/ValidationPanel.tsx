@@ -11,10 +11,18 @@ interface ValidationPanelProps {
 export function ValidationPanel({ className }: ValidationPanelProps) {
   const validateProject = useCabinetStore((s) => s.validateProject);
   const currentProject = useCabinetStore((s) => s.currentProject);
+  // Part rule diagnostics depend on the libraries as well as the project
+  const patterns = useCabinetStore((s) => s.patterns);
+  const globalSettings = useCabinetStore((s) => s.globalSettings);
+  const ruleSets = useCabinetStore((s) => s.ruleSets);
+  const materials = useCabinetStore((s) => s.materials);
+  const joints = useCabinetStore((s) => s.joints);
+  const hardware = useCabinetStore((s) => s.hardware);
+  const selectedRuleSetId = useCabinetStore((s) => s.ui.cutListModal.selectedRuleSetId);
   
   const validationResult = useMemo(() => {
     return validateProject();
-  }, [validateProject, currentProject]);
+  }, [validateProject, currentProject, patterns, globalSettings, ruleSets, materials, joints, hardware, selectedRuleSetId]);
   
   const { isValid, errors, warnings, info } = validationResult;
   
@@ -173,6 +181,12 @@ function ValidationSection({ title, icon, messages, severity }: ValidationSectio
                 {msg.limit !== undefined && ` • Limite: ${msg.limit}`}
               </p>
             )}
+            {msg.expression && (
+              <pre className="mt-1 px-2 py-1 text-xs font-mono bg-white/60 dark:bg-gray-900/40 rounded text-gray-700 dark:text-gray-300 overflow-x-auto">
+                {msg.expression}
+                {msg.column !== undefined && `\n${' '.repeat(Math.max(0, msg.column - 1))}^`}
+              </pre>
+            )}
             {msg.suggestion && (
               <p className="mt-1 text-xs text-gray-600 dark:text-gray-300">
                 💡 {msg.suggestion}
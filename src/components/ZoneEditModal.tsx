@@ -1,5 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
-import type { PatternZone, GlobalSettings } from '../types';
+import type { PatternZone, GlobalSettings, DoorOverlayMode, FrontStyle, HandleConfig, HandlePlacement } from '../types';
+import { getFrontFrameDimensions, isFramedFront } from '../utils/frontStyles';
+import { useMaterials, useHardware } from '../store/cabinetStore';
 
 interface ZoneEditModalProps {
   isOpen: boolean;
@@ -18,8 +20,12 @@ interface ZoneEditModalProps {
   onClose: () => void;
   /** Called when height is changed via absolute value input */
   onHeightChange: (newHeightMm: number) => void;
-  /** Called when zone properties are updated (name, etc.) */
+  /** Called when zone properties are updated (name, type, options) */
   onZoneUpdate?: (updates: Partial<PatternZone>) => void;
+  /** Whether the cabinet overrides this zone of its pattern */
+  isOverridden?: boolean;
+  /** Called to drop the cabinet's overrides and restore the pattern zone */
+  onZoneReset?: () => void;
 }
 
 export function ZoneEditModal({
@@ -34,7 +40,11 @@ export function ZoneEditModal({
   onClose,
   onHeightChange,
   onZoneUpdate,
+  isOverridden,
+  onZoneReset,
 }: ZoneEditModalProps) {
+  const materials = useMaterials();
+  const hardware = useHardware();
   const [heightInput, setHeightInput] = useState('');
   const [widthInput, setWidthInput] = useState('');
   const [nameInput, setNameInput] = useState('');
@@ -76,7 +86,169 @@ export function ZoneEditModal({
 
   if (!isOpen || !zone) return null;
 
-  const zoneTypeLabels: Record<string, string> = {
+  const boardMaterials = materials.filter((m) => m.type !== 'edge-banding');
+  const drawerSlides = hardware.filter((h) => h.type === 'drawer-slide');
+  const handles = hardware.filter((h) => h.type === 'handle');
+
+  const overlayLabels: Record<DoorOverlayMode, string> = {
+    'full-overlay': 'Total',
+    'half-overlay': 'Meia',
+    inset: 'Embutida',
+  };
+
+  // Fronts of door and drawer zones: overlay mode (default from the rule set)
+  const overlayRow = (
+    <div className="flex justify-between items-center gap-2">
+      <span>Sobreposição:</span>
+      {onZoneUpdate ? (
+        <select
+          value={zone.options?.doorOverlayMode ?? ''}
+          onChange={(e) => onZoneUpdate({ options: { doorOverlayMode: (e.target.value || undefined) as DoorOverlayMode | undefined } })}
+          className="px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded-md 
+                     bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+        >
+          <option value="">Conforme regras</option>
+          {Object.entries(overlayLabels).map(([mode, label]) => (
+            <option key={mode} value={mode}>{label}</option>
+          ))}
+        </select>
+      ) : (
+        <span>{zone.options?.doorOverlayMode ? overlayLabels[zone.options.doorOverlayMode] : 'Conforme regras'}</span>
+      )}
+    </div>
+  );
+
+  const frontStyleLabels: Record<FrontStyle['type'], string> = {
+    slab: 'Lisa',
+    shaker: 'Shaker',
+    'frame-and-panel': 'Quadro e Almofada',
+  };
+  const frontStyle = zone.options?.frontStyle;
+  const updateFrontStyle = (updates: Partial<FrontStyle>) =>
+    onZoneUpdate?.({ options: { frontStyle: { type: 'slab', ...frontStyle, ...updates } } });
+
+  // Fronts of door and drawer zones: slab, or a frame (stiles and rails) around a panel or glass
+  const frontStyleRows = (
+    <>
+      <div className="flex justify-between items-center gap-2">
+        <span>Frente:</span>
+        {onZoneUpdate ? (
+          <select
+            value={frontStyle?.type ?? 'slab'}
+            onChange={(e) => updateFrontStyle({ type: e.target.value as FrontStyle['type'] })}
+            className="px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded-md 
+                       bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+          >
+            {Object.entries(frontStyleLabels).map(([type, label]) => (
+              <option key={type} value={type}>{label}</option>
+            ))}
+          </select>
+        ) : (
+          <span>{frontStyleLabels[frontStyle?.type ?? 'slab']}</span>
+        )}
+      </div>
+      {isFramedFront(frontStyle) && (
+        <>
+          <div className="flex justify-between items-center gap-2">
+            <span>Centro:</span>
+            {onZoneUpdate ? (
+              <select
+                value={frontStyle.centre ?? 'panel'}
+                onChange={(e) => updateFrontStyle({ centre: e.target.value as 'panel' | 'glass' })}
+                className="px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded-md 
+                           bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+              >
+                <option value="panel">Almofada</option>
+                <option value="glass">Vidro</option>
+              </select>
+            ) : (
+              <span>{frontStyle.centre === 'glass' ? 'Vidro' : 'Almofada'}</span>
+            )}
+          </div>
+          <div className="flex justify-between items-center gap-2">
+            <span>Largura do Quadro:</span>
+            {onZoneUpdate ? (
+              <input
+                type="number"
+                min={20}
+                value={getFrontFrameDimensions(frontStyle).frameWidth}
+                onChange={(e) => {
+                  const frameWidth = parseInt(e.target.value, 10);
+                  if (!isNaN(frameWidth) && frameWidth > 0) updateFrontStyle({ frameWidth });
+                }}
+                className="w-16 px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded-md text-center
+                           bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+              />
+            ) : (
+              <span>{getFrontFrameDimensions(frontStyle).frameWidth}mm</span>
+            )}
+          </div>
+        </>
+      )}
+    </>
+  );
+
+  const placementLabels: Record<HandlePlacement, string> = {
+    centred: 'Centrado',
+    top: 'No topo',
+    vertical: 'Vertical',
+  };
+  const handle = zone.options?.handle;
+  // Keys left unset fall back to the rule set's handle for the zone type
+  const updateHandle = (key: keyof HandleConfig, value: string | undefined) => {
+    const { [key]: _previous, ...rest } = handle ?? {};
+    const next: HandleConfig = value === undefined ? rest : { ...rest, [key]: value };
+    onZoneUpdate?.({ options: { handle: Object.keys(next).length > 0 ? next : undefined } });
+  };
+  const handleName = (handleId: string | undefined) =>
+    handleId === undefined ? 'Conforme regras' : handles.find((h) => h.id === handleId)?.name ?? 'Sem puxador';
+
+  // Fronts of door and drawer zones: handle (default from the rule set) and where it goes
+  const handleRows = (
+    <>
+      <div className="flex justify-between items-center gap-2">
+        <span>Puxador:</span>
+        {onZoneUpdate ? (
+          <select
+            value={handle?.handleId ?? '__rules'}
+            onChange={(e) => updateHandle('handleId', e.target.value === '__rules' ? undefined : e.target.value)}
+            className="min-w-0 px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded-md 
+                       bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+          >
+            <option value="__rules">Conforme regras</option>
+            <option value="">Sem puxador</option>
+            {handles.map((h) => (
+              <option key={h.id} value={h.id}>{h.name}</option>
+            ))}
+          </select>
+        ) : (
+          <span>{handleName(handle?.handleId)}</span>
+        )}
+      </div>
+      {handle?.handleId !== '' && (
+        <div className="flex justify-between items-center gap-2">
+          <span>Posição do Puxador:</span>
+          {onZoneUpdate ? (
+            <select
+              value={handle?.placement ?? ''}
+              onChange={(e) => updateHandle('placement', e.target.value || undefined)}
+              className="px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded-md 
+                         bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            >
+              <option value="">Automática</option>
+              {Object.entries(placementLabels).map(([placement, label]) => (
+                <option key={placement} value={placement}>{label}</option>
+              ))}
+            </select>
+          ) : (
+            <span>{handle?.placement ? placementLabels[handle.placement] : 'Automática'}</span>
+          )}
+        </div>
+      )}
+    </>
+  );
+
+  const zoneTypeLabels: Record<PatternZone['type'], string> = {
     drawer: 'Gaveta',
     door: 'Porta',
     shelf: 'Prateleira',
@@ -134,6 +306,47 @@ export function ZoneEditModal({
             />
           </div>
 
+          {/* Zone Type */}
+          {onZoneUpdate && (
+            <div>
+              <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                Tipo
+              </label>
+              <select
+                value={zone.type}
+                onChange={(e) => onZoneUpdate({ type: e.target.value as PatternZone['type'] })}
+                className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md 
+                           bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
+                           focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {(Object.keys(zoneTypeLabels) as PatternZone['type'][]).map((type) => (
+                  <option key={type} value={type}>{zoneTypeLabels[type]}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {/* Zone Material */}
+          {onZoneUpdate && (
+            <div>
+              <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                Material
+              </label>
+              <select
+                value={zone.options?.materialId ?? ''}
+                onChange={(e) => onZoneUpdate({ options: { materialId: e.target.value || undefined } })}
+                className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md 
+                           bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
+                           focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Padrão do modelo</option>
+                {boardMaterials.map((m) => (
+                  <option key={m.id} value={m.id}>{m.name} ({m.thickness}mm)</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Height */}
           <div>
             <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
@@ -181,16 +394,71 @@ export function ZoneEditModal({
           )}
 
           {/* Zone-specific options */}
+          {zone.type === 'shelf' && (
+            <div className="pt-2 border-t border-gray-200 dark:border-gray-700">
+              <p className="text-xs font-medium text-gray-600 dark:text-gray-400 mb-2">
+                Furação Sistema 32
+              </p>
+              <div className="text-xs text-gray-500 dark:text-gray-400 space-y-1">
+                {([
+                  ['startOffset', 'Início acima da zona:'],
+                  ['endOffset', 'Fim abaixo da zona:'],
+                ] as const).map(([key, label]) => (
+                  <div key={key} className="flex justify-between items-center gap-2">
+                    <span>{label}</span>
+                    {onZoneUpdate ? (
+                      <input
+                        type="number"
+                        min={0}
+                        placeholder="Regras"
+                        value={zone.options?.shelfPins?.[key] ?? ''}
+                        onChange={(e) => {
+                          const value = parseInt(e.target.value, 10);
+                          onZoneUpdate({ options: { shelfPins: { ...zone.options?.shelfPins, [key]: isNaN(value) ? undefined : value } } });
+                        }}
+                        className="w-16 px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded-md text-center
+                                   bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                      />
+                    ) : (
+                      <span>{zone.options?.shelfPins?.[key] !== undefined ? `${zone.options.shelfPins[key]}mm` : 'Conforme regras'}</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {zone.type === 'drawer' && (
             <div className="pt-2 border-t border-gray-200 dark:border-gray-700">
               <p className="text-xs font-medium text-gray-600 dark:text-gray-400 mb-2">
                 Opções de Gaveta
               </p>
               <div className="text-xs text-gray-500 dark:text-gray-400 space-y-1">
+                <div className="flex justify-between items-center gap-2">
+                  <span>Corrediça:</span>
+                  {onZoneUpdate ? (
+                    <select
+                      value={zone.options?.slideId ?? ''}
+                      onChange={(e) => onZoneUpdate({ options: { slideId: e.target.value || undefined } })}
+                      className="min-w-0 px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded-md 
+                                 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                    >
+                      <option value="">Automática (mais longa que cabe)</option>
+                      {drawerSlides.map((slide) => (
+                        <option key={slide.id} value={slide.id}>{slide.name}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span>{drawerSlides.find((slide) => slide.id === zone.options?.slideId)?.name ?? 'Automática'}</span>
+                  )}
+                </div>
                 <div className="flex justify-between">
                   <span>Offset Corrediça:</span>
-                  <span>{zone.options?.drawerSlideOffset ?? 12.5}mm</span>
+                  <span>{drawerSlides.find((slide) => slide.id === zone.options?.slideId)?.specifications?.sideClearance ?? zone.options?.drawerSlideOffset ?? 12.5}mm</span>
                 </div>
+                {overlayRow}
+                {frontStyleRows}
+                {handleRows}
               </div>
             </div>
           )}
@@ -201,15 +469,27 @@ export function ZoneEditModal({
                 Opções de Porta
               </p>
               <div className="text-xs text-gray-500 dark:text-gray-400 space-y-1">
-                <div className="flex justify-between">
+                <div className="flex justify-between items-center">
                   <span>Dobradiça:</span>
-                  <span>{zone.options?.hingeType === 'double' ? 'Dupla' : 
-                         zone.options?.hingeType === 'right' ? 'Direita' : 'Esquerda'}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span>Sobreposição:</span>
-                  <span>{zone.options?.doorOverlay ?? 2}mm</span>
+                  {onZoneUpdate ? (
+                    <select
+                      value={zone.options?.hingeType ?? 'left'}
+                      onChange={(e) => onZoneUpdate({ options: { hingeType: e.target.value as 'left' | 'right' | 'double' } })}
+                      className="px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded-md 
+                                 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                    >
+                      <option value="left">Esquerda</option>
+                      <option value="right">Direita</option>
+                      <option value="double">Dupla</option>
+                    </select>
+                  ) : (
+                    <span>{zone.options?.hingeType === 'double' ? 'Dupla' : 
+                           zone.options?.hingeType === 'right' ? 'Direita' : 'Esquerda'}</span>
+                  )}
                 </div>
+                {overlayRow}
+                {frontStyleRows}
+                {handleRows}
               </div>
             </div>
           )}
@@ -217,6 +497,15 @@ export function ZoneEditModal({
 
         {/* Footer */}
         <div className="px-4 py-3 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-2">
+          {isOverridden && onZoneReset && (
+            <button
+              onClick={onZoneReset}
+              className="mr-auto px-3 py-1.5 text-sm text-amber-600 dark:text-amber-400 hover:bg-amber-50 dark:hover:bg-amber-900/20 rounded-md"
+              title="Remover as alterações desta zona feitas neste armário"
+            >
+              Repor Modelo
+            </button>
+          )}
           <button
             onClick={onClose}
             className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md"
@@ -17,6 +17,9 @@ export const defaultHardware: HardwareItem[] = [
     brand: 'Generic',
     specifications: {
       openingAngle: 110,
+      cupDiameter: 35,
+      cupDepth: 12,
+      boreDistance: 4,
       color: 'Níquel',
     },
     costPerUnit: 2.50,
@@ -25,6 +28,44 @@ export const defaultHardware: HardwareItem[] = [
     createdAt: now,
     updatedAt: now,
   },
+  {
+    id: 'hinge-soft-close-110-half',
+    name: 'Dobradiça Fecho Suave 110° Meia Sobreposição',
+    type: 'hinge',
+    brand: 'Generic',
+    specifications: {
+      openingAngle: 110,
+      cupDiameter: 35,
+      cupDepth: 12,
+      boreDistance: 4,
+      crank: 'half-overlay',
+      color: 'Níquel',
+    },
+    costPerUnit: 2.60,
+    requiresPerUnit: 2,
+    notes: 'Portas que partilham uma divisória',
+    createdAt: now,
+    updatedAt: now,
+  },
+  {
+    id: 'hinge-soft-close-110-inset',
+    name: 'Dobradiça Fecho Suave 110° Embutida',
+    type: 'hinge',
+    brand: 'Generic',
+    specifications: {
+      openingAngle: 110,
+      cupDiameter: 35,
+      cupDepth: 12,
+      boreDistance: 4,
+      crank: 'inset',
+      color: 'Níquel',
+    },
+    costPerUnit: 2.70,
+    requiresPerUnit: 2,
+    notes: 'Portas embutidas no vão',
+    createdAt: now,
+    updatedAt: now,
+  },
   {
     id: 'hinge-blum-clip-110',
     name: 'Blum CLIP top 110°',
@@ -33,6 +74,9 @@ export const defaultHardware: HardwareItem[] = [
     model: 'CLIP top',
     specifications: {
       openingAngle: 110,
+      cupDiameter: 35,
+      cupDepth: 13,
+      boreDistance: 4,
       loadCapacity: 25,
       color: 'Níquel',
     },
@@ -42,6 +86,48 @@ export const defaultHardware: HardwareItem[] = [
     createdAt: now,
     updatedAt: now,
   },
+  {
+    id: 'hinge-blum-clip-110-half',
+    name: 'Blum CLIP top 110° Meia Sobreposição',
+    type: 'hinge',
+    brand: 'Blum',
+    model: 'CLIP top',
+    specifications: {
+      openingAngle: 110,
+      cupDiameter: 35,
+      cupDepth: 13,
+      boreDistance: 4,
+      crank: 'half-overlay',
+      loadCapacity: 25,
+      color: 'Níquel',
+    },
+    costPerUnit: 4.90,
+    requiresPerUnit: 2,
+    notes: 'Braço com meia curvatura',
+    createdAt: now,
+    updatedAt: now,
+  },
+  {
+    id: 'hinge-blum-clip-110-inset',
+    name: 'Blum CLIP top 110° Embutida',
+    type: 'hinge',
+    brand: 'Blum',
+    model: 'CLIP top',
+    specifications: {
+      openingAngle: 110,
+      cupDiameter: 35,
+      cupDepth: 13,
+      boreDistance: 4,
+      crank: 'inset',
+      loadCapacity: 25,
+      color: 'Níquel',
+    },
+    costPerUnit: 5.10,
+    requiresPerUnit: 2,
+    notes: 'Braço com curvatura total',
+    createdAt: now,
+    updatedAt: now,
+  },
   {
     id: 'hinge-blum-clip-155',
     name: 'Blum CLIP top 155°',
@@ -50,6 +136,9 @@ export const defaultHardware: HardwareItem[] = [
     model: 'CLIP top 155°',
     specifications: {
       openingAngle: 155,
+      cupDiameter: 35,
+      cupDepth: 13,
+      boreDistance: 4,
       loadCapacity: 25,
       color: 'Níquel',
     },
@@ -66,6 +155,9 @@ export const defaultHardware: HardwareItem[] = [
     brand: 'Generic',
     specifications: {
       openingAngle: 110,
+      cupDiameter: 35,
+      cupDepth: 12,
+      boreDistance: 4,
       color: 'Níquel',
     },
     costPerUnit: 5.50,
@@ -83,8 +175,11 @@ export const defaultHardware: HardwareItem[] = [
     name: 'Corrediça de Rolos 400mm',
     type: 'drawer-slide',
     brand: 'Generic',
+    model: 'Rolos',
     specifications: {
       length: 400,
+      sideClearance: 12.5,
+      heightClearance: 30,
       loadCapacity: 25,
     },
     costPerUnit: 3.50,
@@ -98,8 +193,11 @@ export const defaultHardware: HardwareItem[] = [
     name: 'Corrediça de Rolos 500mm',
     type: 'drawer-slide',
     brand: 'Generic',
+    model: 'Rolos',
     specifications: {
       length: 500,
+      sideClearance: 12.5,
+      heightClearance: 30,
       loadCapacity: 25,
     },
     costPerUnit: 4.00,
@@ -112,8 +210,11 @@ export const defaultHardware: HardwareItem[] = [
     name: 'Corrediça Fecho Suave 400mm',
     type: 'drawer-slide',
     brand: 'Generic',
+    model: 'Fecho Suave',
     specifications: {
       length: 400,
+      sideClearance: 12.5,
+      heightClearance: 30,
       loadCapacity: 30,
     },
     costPerUnit: 8.50,
@@ -127,8 +228,11 @@ export const defaultHardware: HardwareItem[] = [
     name: 'Corrediça Fecho Suave 500mm',
     type: 'drawer-slide',
     brand: 'Generic',
+    model: 'Fecho Suave',
     specifications: {
       length: 500,
+      sideClearance: 12.5,
+      heightClearance: 30,
       loadCapacity: 30,
     },
     costPerUnit: 9.50,
@@ -144,6 +248,10 @@ export const defaultHardware: HardwareItem[] = [
     model: 'TANDEM plus BLUMOTION',
     specifications: {
       length: 500,
+      minCabinetDepth: 503,
+      sideClearance: 5,
+      heightClearance: 40,
+      boxLengthDeduction: 10,
       loadCapacity: 30,
     },
     costPerUnit: 28.00,
@@ -160,6 +268,10 @@ export const defaultHardware: HardwareItem[] = [
     model: 'TANDEM plus BLUMOTION',
     specifications: {
       length: 450,
+      minCabinetDepth: 453,
+      sideClearance: 5,
+      heightClearance: 40,
+      boxLengthDeduction: 10,
       loadCapacity: 30,
     },
     costPerUnit: 26.00,
@@ -175,6 +287,10 @@ export const defaultHardware: HardwareItem[] = [
     model: 'MOVENTO',
     specifications: {
       length: 500,
+      minCabinetDepth: 503,
+      sideClearance: 5,
+      heightClearance: 40,
+      boxLengthDeduction: 10,
       loadCapacity: 60,
     },
     costPerUnit: 45.00,
@@ -194,6 +310,7 @@ export const defaultHardware: HardwareItem[] = [
     brand: 'Generic',
     specifications: {
       length: 128,
+      holeSpacing: 128,
       finish: 'Inox escovado',
     },
     costPerUnit: 3.50,
@@ -208,6 +325,7 @@ export const defaultHardware: HardwareItem[] = [
     brand: 'Generic',
     specifications: {
       length: 256,
+      holeSpacing: 256,
       finish: 'Inox escovado',
     },
     costPerUnit: 5.50,
@@ -222,6 +340,7 @@ export const defaultHardware: HardwareItem[] = [
     brand: 'Generic',
     specifications: {
       length: 320,
+      holeSpacing: 320,
       finish: 'Inox escovado',
     },
     costPerUnit: 7.00,
@@ -235,6 +354,7 @@ export const defaultHardware: HardwareItem[] = [
     type: 'handle',
     brand: 'Generic',
     specifications: {
+      holeSpacing: 0,
       finish: 'Níquel acetinado',
     },
     costPerUnit: 2.00,
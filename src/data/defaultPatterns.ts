@@ -37,7 +37,9 @@ export const defaultPatterns: CabinetPattern[] = [
         widthExpression: 'total_depth - back_groove',
         quantityExpression: '2',
         grain: 'length',
-        edgeBanding: { length1: true },
+        role: 'carcass',
+        holdsBackPanel: true,
+        isSidePanel: true,
       },
       // Top & Bottom - uses bottom_width for construction-aware width
       {
@@ -47,35 +49,8 @@ export const defaultPatterns: CabinetPattern[] = [
         widthExpression: 'total_depth - back_groove',
         quantityExpression: '2',
         grain: 'length',
-        edgeBanding: { length1: true },
-      },
-      // Drawer Fronts - uses door_gap for surrounding clearance
-      {
-        id: 'drawer-fronts',
-        partName: 'Drawer Front',
-        lengthExpression: 'total_width - door_gap - 1',
-        widthExpression: '(total_height - door_gap - 1) / 2',
-        quantityExpression: '2',
-        grain: 'width',
-        edgeBanding: { length1: true, length2: true, width1: true, width2: true },
-      },
-      // Drawer Box Sides - uses context variables for clearances
-      {
-        id: 'drawer-sides',
-        partName: 'Drawer Side',
-        lengthExpression: 'total_depth - drawer_depth_clearance',
-        widthExpression: '(total_height - material_thickness * 2) / 2 - drawer_box_height_clearance',
-        quantityExpression: '4',
-        grain: 'length',
-      },
-      // Drawer Box Front/Back - uses drawer_slide_offset for slide clearance
-      {
-        id: 'drawer-fb',
-        partName: 'Drawer Front/Back',
-        lengthExpression: 'total_width - material_thickness * 2 - drawer_slide_offset * 2 - material_thickness * 2',
-        widthExpression: '(total_height - material_thickness * 2) / 2 - drawer_box_height_clearance',
-        quantityExpression: '4',
-        grain: 'length',
+        role: 'carcass',
+        holdsBackPanel: true,
       },
       // Back Panel - uses back_width/back_height with rabbet joints
       {
@@ -86,6 +61,7 @@ export const defaultPatterns: CabinetPattern[] = [
         quantityExpression: '1',
         material: 'HDF',
         grain: 'none',
+        role: 'back',
         joints: {
           length1: { jointTypeId: 'rabbet-back-3mm', role: 'inserted' },
           length2: { jointTypeId: 'rabbet-back-3mm', role: 'inserted' },
@@ -94,6 +70,12 @@ export const defaultPatterns: CabinetPattern[] = [
         },
       },
     ],
+    hardwareRules: [
+      { id: 'hinges', hardwareId: 'hinge', quantityExpression: 'hinge_count', condition: { zoneType: ['door'] } },
+      { id: 'slides', hardwareId: 'drawer-slide', quantityExpression: '1', condition: { zoneType: ['drawer'] } },
+      { id: 'legs', hardwareId: 'leg', quantityExpression: '4' },
+    ],
+    generateZoneParts: true,
     defaultDimensions: { height: 720, width: 600, depth: 560 },
     createdAt: now,
     updatedAt: now,
@@ -109,7 +91,7 @@ export const defaultPatterns: CabinetPattern[] = [
         type: 'door',
         name: 'Door',
         heightExpression: 'total_height - door_gap - 1',
-        options: { hasFront: true, hingeType: 'left', doorOverlay: 2 },
+        options: { hasFront: true, hingeType: 'left' },
       },
     ],
     partRules: [
@@ -120,7 +102,9 @@ export const defaultPatterns: CabinetPattern[] = [
         widthExpression: 'total_depth - back_groove',
         quantityExpression: '2',
         grain: 'length',
-        edgeBanding: { length1: true },
+        role: 'carcass',
+        holdsBackPanel: true,
+        isSidePanel: true,
       },
       {
         id: 'top-bottom',
@@ -129,7 +113,8 @@ export const defaultPatterns: CabinetPattern[] = [
         widthExpression: 'total_depth - back_groove',
         quantityExpression: '2',
         grain: 'length',
-        edgeBanding: { length1: true },
+        role: 'carcass',
+        holdsBackPanel: true,
       },
       {
         id: 'shelf',
@@ -138,21 +123,8 @@ export const defaultPatterns: CabinetPattern[] = [
         widthExpression: 'total_depth - back_groove - shelf_inset',
         quantityExpression: '1',
         grain: 'length',
-        edgeBanding: { length1: true },
-        joints: {
-          // Shelf extends into dado on each side (left/right into side panels)
-          width1: { jointTypeId: 'dado-6mm', role: 'inserted' },
-          width2: { jointTypeId: 'dado-6mm', role: 'inserted' },
-        },
-      },
-      {
-        id: 'door',
-        partName: 'Door',
-        lengthExpression: 'total_width - door_gap - 1',
-        widthExpression: 'total_height - door_gap - 1',
-        quantityExpression: '1',
-        grain: 'width',
-        edgeBanding: { length1: true, length2: true, width1: true, width2: true },
+        role: 'shelf',
+        isAdjustable: true,
       },
       {
         id: 'back',
@@ -162,6 +134,7 @@ export const defaultPatterns: CabinetPattern[] = [
         quantityExpression: '1',
         material: 'HDF',
         grain: 'none',
+        role: 'back',
         joints: {
           length1: { jointTypeId: 'rabbet-back-3mm', role: 'inserted' },
           length2: { jointTypeId: 'rabbet-back-3mm', role: 'inserted' },
@@ -170,6 +143,13 @@ export const defaultPatterns: CabinetPattern[] = [
         },
       },
     ],
+    hardwareRules: [
+      { id: 'hinges', hardwareId: 'hinge', quantityExpression: 'hinge_count', condition: { zoneType: ['door'] } },
+      { id: 'slides', hardwareId: 'drawer-slide', quantityExpression: '1', condition: { zoneType: ['drawer'] } },
+      { id: 'shelf-pins', hardwareId: 'shelf-pin', quantityExpression: 'shelf_pin_count' },
+      { id: 'legs', hardwareId: 'leg', quantityExpression: '4' },
+    ],
+    generateZoneParts: true,
     defaultDimensions: { height: 720, width: 450, depth: 560 },
     createdAt: now,
     updatedAt: now,
@@ -181,18 +161,11 @@ export const defaultPatterns: CabinetPattern[] = [
     category: 'base',
     zones: [
       {
-        id: 'door-left',
-        type: 'door',
-        name: 'Left Door',
-        heightExpression: 'total_height - door_gap - 1',
-        options: { hasFront: true, hingeType: 'left' },
-      },
-      {
-        id: 'door-right',
+        id: 'doors',
         type: 'door',
-        name: 'Right Door',
+        name: 'Double Doors',
         heightExpression: 'total_height - door_gap - 1',
-        options: { hasFront: true, hingeType: 'right' },
+        options: { hasFront: true, hingeType: 'double' },
       },
     ],
     partRules: [
@@ -203,7 +176,9 @@ export const defaultPatterns: CabinetPattern[] = [
         widthExpression: 'total_depth - back_groove',
         quantityExpression: '2',
         grain: 'length',
-        edgeBanding: { length1: true },
+        role: 'carcass',
+        holdsBackPanel: true,
+        isSidePanel: true,
       },
       {
         id: 'top-bottom',
@@ -212,7 +187,8 @@ export const defaultPatterns: CabinetPattern[] = [
         widthExpression: 'total_depth - back_groove',
         quantityExpression: '2',
         grain: 'length',
-        edgeBanding: { length1: true },
+        role: 'carcass',
+        holdsBackPanel: true,
       },
       {
         id: 'shelf',
@@ -221,20 +197,8 @@ export const defaultPatterns: CabinetPattern[] = [
         widthExpression: 'total_depth - back_groove - shelf_inset',
         quantityExpression: '1',
         grain: 'length',
-        edgeBanding: { length1: true },
-        joints: {
-          width1: { jointTypeId: 'dado-6mm', role: 'inserted' },
-          width2: { jointTypeId: 'dado-6mm', role: 'inserted' },
-        },
-      },
-      {
-        id: 'doors',
-        partName: 'Door',
-        lengthExpression: '(total_width - door_gap * 2) / 2',
-        widthExpression: 'total_height - door_gap - 1',
-        quantityExpression: '2',
-        grain: 'width',
-        edgeBanding: { length1: true, length2: true, width1: true, width2: true },
+        role: 'shelf',
+        isAdjustable: true,
       },
       {
         id: 'back',
@@ -244,6 +208,7 @@ export const defaultPatterns: CabinetPattern[] = [
         quantityExpression: '1',
         material: 'HDF',
         grain: 'none',
+        role: 'back',
         joints: {
           length1: { jointTypeId: 'rabbet-back-3mm', role: 'inserted' },
           length2: { jointTypeId: 'rabbet-back-3mm', role: 'inserted' },
@@ -252,6 +217,13 @@ export const defaultPatterns: CabinetPattern[] = [
         },
       },
     ],
+    hardwareRules: [
+      { id: 'hinges', hardwareId: 'hinge', quantityExpression: 'hinge_count', condition: { zoneType: ['door'] } },
+      { id: 'slides', hardwareId: 'drawer-slide', quantityExpression: '1', condition: { zoneType: ['drawer'] } },
+      { id: 'shelf-pins', hardwareId: 'shelf-pin', quantityExpression: 'shelf_pin_count' },
+      { id: 'legs', hardwareId: 'leg', quantityExpression: '4' },
+    ],
+    generateZoneParts: true,
     defaultDimensions: { height: 720, width: 800, depth: 560 },
     createdAt: now,
     updatedAt: now,
@@ -278,7 +250,9 @@ export const defaultPatterns: CabinetPattern[] = [
         widthExpression: 'total_depth - back_groove',
         quantityExpression: '2',
         grain: 'length',
-        edgeBanding: { length1: true },
+        role: 'carcass',
+        holdsBackPanel: true,
+        isSidePanel: true,
       },
       {
         id: 'top-bottom',
@@ -287,7 +261,8 @@ export const defaultPatterns: CabinetPattern[] = [
         widthExpression: 'total_depth - back_groove',
         quantityExpression: '2',
         grain: 'length',
-        edgeBanding: { length1: true },
+        role: 'carcass',
+        holdsBackPanel: true,
       },
       {
         id: 'shelves',
@@ -296,20 +271,8 @@ export const defaultPatterns: CabinetPattern[] = [
         widthExpression: 'total_depth - back_groove - shelf_inset',
         quantityExpression: '2',
         grain: 'length',
-        edgeBanding: { length1: true },
-        joints: {
-          width1: { jointTypeId: 'dado-6mm', role: 'inserted' },
-          width2: { jointTypeId: 'dado-6mm', role: 'inserted' },
-        },
-      },
-      {
-        id: 'door',
-        partName: 'Door',
-        lengthExpression: 'total_width - door_gap - 1',
-        widthExpression: 'total_height - door_gap - 1',
-        quantityExpression: '1',
-        grain: 'width',
-        edgeBanding: { length1: true, length2: true, width1: true, width2: true },
+        role: 'shelf',
+        isAdjustable: true,
       },
       {
         id: 'back',
@@ -319,6 +282,7 @@ export const defaultPatterns: CabinetPattern[] = [
         quantityExpression: '1',
         material: 'HDF',
         grain: 'none',
+        role: 'back',
         joints: {
           length1: { jointTypeId: 'rabbet-back-3mm', role: 'inserted' },
           length2: { jointTypeId: 'rabbet-back-3mm', role: 'inserted' },
@@ -327,6 +291,12 @@ export const defaultPatterns: CabinetPattern[] = [
         },
       },
     ],
+    hardwareRules: [
+      { id: 'hinges', hardwareId: 'hinge', quantityExpression: 'hinge_count', condition: { zoneType: ['door'] } },
+      { id: 'slides', hardwareId: 'drawer-slide', quantityExpression: '1', condition: { zoneType: ['drawer'] } },
+      { id: 'shelf-pins', hardwareId: 'shelf-pin', quantityExpression: 'shelf_pin_count' },
+    ],
+    generateZoneParts: true,
     defaultDimensions: { height: 720, width: 400, depth: 320 },
     createdAt: now,
     updatedAt: now,
@@ -374,7 +344,9 @@ export const defaultPatterns: CabinetPattern[] = [
         widthExpression: 'total_depth - back_groove',
         quantityExpression: '2',
         grain: 'length',
-        edgeBanding: { length1: true },
+        role: 'carcass',
+        holdsBackPanel: true,
+        isSidePanel: true,
       },
       {
         id: 'top-bottom',
@@ -383,32 +355,8 @@ export const defaultPatterns: CabinetPattern[] = [
         widthExpression: 'total_depth - back_groove',
         quantityExpression: '2',
         grain: 'length',
-        edgeBanding: { length1: true },
-      },
-      {
-        id: 'drawer-fronts',
-        partName: 'Drawer Front',
-        lengthExpression: 'total_width - door_gap - 1',
-        widthExpression: '(total_height - door_gap * 2 - drawer_count + 1) / drawer_count',
-        quantityExpression: 'drawer_count',
-        grain: 'width',
-        edgeBanding: { length1: true, length2: true, width1: true, width2: true },
-      },
-      {
-        id: 'drawer-sides',
-        partName: 'Drawer Side',
-        lengthExpression: 'total_depth - drawer_depth_clearance',
-        widthExpression: '(total_height - material_thickness * 2) / drawer_count - drawer_box_height_clearance',
-        quantityExpression: 'drawer_count * 2',
-        grain: 'length',
-      },
-      {
-        id: 'drawer-fb',
-        partName: 'Drawer Front/Back',
-        lengthExpression: 'total_width - material_thickness * 2 - drawer_slide_offset * 2 - material_thickness * 2',
-        widthExpression: '(total_height - material_thickness * 2) / drawer_count - drawer_box_height_clearance',
-        quantityExpression: 'drawer_count * 2',
-        grain: 'length',
+        role: 'carcass',
+        holdsBackPanel: true,
       },
       {
         id: 'back',
@@ -418,6 +366,7 @@ export const defaultPatterns: CabinetPattern[] = [
         quantityExpression: '1',
         material: 'HDF',
         grain: 'none',
+        role: 'back',
         joints: {
           length1: { jointTypeId: 'rabbet-back-3mm', role: 'inserted' },
           length2: { jointTypeId: 'rabbet-back-3mm', role: 'inserted' },
@@ -426,8 +375,13 @@ export const defaultPatterns: CabinetPattern[] = [
         },
       },
     ],
+    hardwareRules: [
+      { id: 'hinges', hardwareId: 'hinge', quantityExpression: 'hinge_count', condition: { zoneType: ['door'] } },
+      { id: 'slides', hardwareId: 'drawer-slide', quantityExpression: '1', condition: { zoneType: ['drawer'] } },
+      { id: 'legs', hardwareId: 'leg', quantityExpression: '4' },
+    ],
+    generateZoneParts: true,
     defaultDimensions: { height: 720, width: 600, depth: 560 },
-    variables: { drawer_count: 4 },
     createdAt: now,
     updatedAt: now,
   },
@@ -453,7 +407,9 @@ export const defaultPatterns: CabinetPattern[] = [
         widthExpression: 'total_depth - back_groove',
         quantityExpression: '2',
         grain: 'length',
-        edgeBanding: { length1: true },
+        role: 'carcass',
+        holdsBackPanel: true,
+        isSidePanel: true,
       },
       {
         id: 'top-bottom',
@@ -462,7 +418,8 @@ export const defaultPatterns: CabinetPattern[] = [
         widthExpression: 'total_depth - back_groove',
         quantityExpression: '2',
         grain: 'length',
-        edgeBanding: { length1: true },
+        role: 'carcass',
+        holdsBackPanel: true,
       },
       {
         id: 'fixed-shelf',
@@ -471,7 +428,7 @@ export const defaultPatterns: CabinetPattern[] = [
         widthExpression: 'total_depth - back_groove',
         quantityExpression: '1',
         grain: 'length',
-        edgeBanding: { length1: true },
+        role: 'shelf',
       },
       {
         id: 'adj-shelves',
@@ -480,20 +437,8 @@ export const defaultPatterns: CabinetPattern[] = [
         widthExpression: 'total_depth - back_groove - shelf_inset',
         quantityExpression: '4',
         grain: 'length',
-        edgeBanding: { length1: true },
-        joints: {
-          width1: { jointTypeId: 'dado-6mm', role: 'inserted' },
-          width2: { jointTypeId: 'dado-6mm', role: 'inserted' },
-        },
-      },
-      {
-        id: 'doors',
-        partName: 'Door',
-        lengthExpression: '(total_width - door_gap * 2) / 2',
-        widthExpression: 'total_height - door_gap - 1',
-        quantityExpression: '2',
-        grain: 'width',
-        edgeBanding: { length1: true, length2: true, width1: true, width2: true },
+        role: 'shelf',
+        isAdjustable: true,
       },
       {
         id: 'back',
@@ -503,6 +448,7 @@ export const defaultPatterns: CabinetPattern[] = [
         quantityExpression: '1',
         material: 'HDF',
         grain: 'none',
+        role: 'back',
         joints: {
           length1: { jointTypeId: 'rabbet-back-3mm', role: 'inserted' },
           length2: { jointTypeId: 'rabbet-back-3mm', role: 'inserted' },
@@ -511,6 +457,13 @@ export const defaultPatterns: CabinetPattern[] = [
         },
       },
     ],
+    hardwareRules: [
+      { id: 'hinges', hardwareId: 'hinge', quantityExpression: 'hinge_count', condition: { zoneType: ['door'] } },
+      { id: 'slides', hardwareId: 'drawer-slide', quantityExpression: '1', condition: { zoneType: ['drawer'] } },
+      { id: 'shelf-pins', hardwareId: 'shelf-pin', quantityExpression: 'shelf_pin_count' },
+      { id: 'legs', hardwareId: 'leg', quantityExpression: '4' },
+    ],
+    generateZoneParts: true,
     defaultDimensions: { height: 2100, width: 600, depth: 560 },
     createdAt: now,
     updatedAt: now,
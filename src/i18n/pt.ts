@@ -112,6 +112,17 @@ export const pt = {
     divider: 'Divisória Vertical',
   },
 
+  // Part roles
+  partRoles: {
+    carcass: 'Carcaça',
+    back: 'Traseira',
+    shelf: 'Prateleira',
+    door: 'Porta',
+    'drawer-front': 'Frente de Gaveta',
+    'drawer-box': 'Caixa de Gaveta',
+    'drawer-bottom': 'Fundo de Gaveta',
+  },
+
   // Properties Panel
   properties: {
     title: 'Propriedades',
@@ -124,6 +135,15 @@ export const pt = {
     locationPlaceholder: 'ex: Cozinha, Quarto',
     notes: 'Notas',
     notesPlaceholder: 'Adicione notas sobre este armário...',
+    optionalParts: 'Peças Opcionais',
+    backPanel: 'Traseira',
+    backPanelDefault: 'Padrão do modelo',
+    backPanelTypes: {
+      'full-inset': 'Embutida em ranhura',
+      'full-overlay': 'Sobreposta',
+      'rail-system': 'Travessas',
+      none: 'Sem traseira',
+    },
   },
 
   // Cut List
@@ -134,12 +154,141 @@ export const pt = {
     length: 'C',
     width: 'L',
     quantity: 'Qtd',
+    material: 'Material',
+    thickness: 'Espessura',
+    edgeBanding: 'Orla',
     totalParts: 'peças no total',
     noParts: 'Adicione primeiro alguns armários.',
     generate: 'Gerar Lista de Corte',
     selectRules: 'Selecionar Regras',
     selectRulesDesc: 'Escolha o conjunto de regras a aplicar',
     generating: 'A gerar...',
+    hardware: {
+      title: 'Ferragens',
+      item: 'Ferragem',
+      unitCost: 'Preço Unit.',
+      totalCost: 'Total',
+      total: 'Total Ferragens',
+      none: 'Nenhuma ferragem necessária.',
+    },
+    hinges: {
+      count: 'dobradiças',
+      positions: 'Dobradiças (mm do fundo)',
+      cupBore: 'copa',
+      fromEdge: 'mm da orla',
+    },
+    grooves: {
+      backPanel: 'ranhura traseira',
+      title: 'Ranhura da traseira (largura × profundidade)',
+      fromBackEdge: 'mm da aresta traseira',
+    },
+    handles: {
+      label: 'puxador',
+      holes: 'Furação do puxador (x, y mm do canto inferior esquerdo)',
+      placements: {
+        centred: 'centrado',
+        top: 'no topo',
+        vertical: 'vertical',
+      },
+    },
+    shelfPins: {
+      label: 'sistema 32',
+      rows: 'filas',
+      row: 'Fila de suportes',
+      fromFront: 'mm da frente',
+      fromBack: 'mm de trás',
+    },
+    machining: {
+      title: 'Maquinação (x, y mm)',
+      bore: 'Furo',
+      groove: 'Ranhura',
+      pocket: 'Caixa',
+      from: 'mm de',
+      faces: {
+        inner: 'interior',
+        outer: 'exterior',
+      },
+      purposes: {
+        joint: 'junta',
+        dowel: 'cavilha',
+        cam: 'minifix',
+        'hinge-cup': 'copa dobradiça',
+        handle: 'puxador',
+        'shelf-pin': 'suporte prateleira',
+        'back-panel': 'traseira',
+        'drawer-bottom': 'fundo gaveta',
+        'raised-panel': 'almofada',
+      },
+    },
+    tabs: {
+      parts: 'Peças',
+      nesting: 'Plano de Corte',
+      costs: 'Custos',
+    },
+    quote: {
+      generate: 'Gerar Orçamento',
+      hint: 'Orçamento para o cliente, pronto a imprimir (empresa e condições nas Definições)',
+    },
+    costs: {
+      item: 'Item',
+      area: 'Área (m²)',
+      length: 'Comp. (m)',
+      unitCost: 'Preço Unit.',
+      total: 'Total',
+      boards: 'Placas',
+      edgeBanding: 'Orlas',
+      hardware: 'Ferragens',
+      countertops: 'Tampos',
+      noMaterial: 'Sem material',
+      labor: 'Mão de obra',
+      subtotal: 'Subtotal',
+      markupAmount: 'Margem',
+      wasteFactor: 'Desperdício (%)',
+      laborRate: 'Mão de obra (€/h)',
+      laborHoursPerCabinet: 'Horas por armário',
+      markup: 'Margem (%)',
+    },
+    nesting: {
+      sheet: 'Chapa',
+      sheets: 'chapas',
+      remnant: 'Sobra',
+      stock: 'Material a usar',
+      inStock: 'em stock',
+      toBuy: 'a comprar',
+      yield: 'aproveitamento',
+      offcuts: 'Sobras aproveitáveis',
+      noOffcuts: 'Sem sobras aproveitáveis',
+      unplaced: 'Peças maiores que a chapa',
+      noMaterial: 'Sem material',
+      sheetLength: 'Comprimento da chapa (mm)',
+      sheetWidth: 'Largura da chapa (mm)',
+      kerf: 'Espessura da serra (mm)',
+      trim: 'Refilo (mm)',
+      minOffcut: 'Sobra mínima (mm)',
+      grain: {
+        length: 'veio ao comprimento',
+        width: 'veio à largura',
+        none: 'sem veio',
+      },
+    },
+    dxf: {
+      exportZip: 'Exportar DXF (zip)',
+      zipTitle: 'Um ficheiro DXF por peça única, num arquivo zip',
+    },
+    hingeSide: {
+      left: 'dobradiças à esquerda',
+      right: 'dobradiças à direita',
+    },
+    explain: {
+      title: 'Explicar medidas',
+      expression: 'Expressão',
+      design: 'Medida de projeto',
+      joint: 'Junta',
+      banding: 'Orla',
+      cut: 'Medida de corte',
+      inserted: 'inserida',
+      receiving: 'recetora',
+    },
     modal: {
       title: 'Gerar Lista de Corte',
       selectRuleSet: 'Selecionar Conjunto de Regras',
@@ -180,6 +329,11 @@ export const pt = {
       drawerConstruction: 'Construção de Gavetas',
       drawerSidesOnBottom: 'Ilhargas sobre Fundo',
       bottomInGroove: 'Fundo em Ranhura',
+      metalSided: 'Ilhargas Metálicas',
+      doorOverlay: 'Sobreposição das Frentes',
+      fullOverlay: 'Sobreposição Total',
+      halfOverlay: 'Meia Sobreposição',
+      inset: 'Embutidas',
     },
     materials: {
       title: 'Materiais Padrão',
@@ -189,6 +343,21 @@ export const pt = {
       drawer: 'Gavetas',
       shelf: 'Prateleiras',
     },
+    handles: {
+      title: 'Puxadores',
+      door: 'Portas',
+      drawer: 'Gavetas',
+      none: 'Sem puxador',
+    },
+    shelfPins: {
+      title: 'Furação Sistema 32',
+      enabled: 'Furar filas de suportes',
+      pitch: 'Passo',
+      frontSetback: 'Recuo da Frente',
+      backSetback: 'Recuo de Trás',
+      startOffset: 'Início (acima da zona)',
+      endOffset: 'Fim (abaixo da zona)',
+    },
     offsets: {
       title: 'Folgas e Ajustes',
       drawerFrontGap: 'Folga Frente de Gaveta',
@@ -197,6 +366,11 @@ export const pt = {
       drawerSlideOffset: 'Offset Corrediças',
       backPanelThickness: 'Espessura Traseira',
       backGrooveDepth: 'Profundidade Ranhura',
+      drawerBottomGrooveDepth: 'Ranhura Fundo Gaveta',
+      drawerBottomGrooveOffset: 'Distância Ranhura Fundo',
+      metalDrawerBottomDeduction: 'Dedução Largura Fundo',
+      metalDrawerBackDeduction: 'Dedução Largura Costas',
+      metalDrawerBottomDepthDeduction: 'Dedução Compr. Fundo',
     },
     edgeBanding: {
       title: 'Orlagem',
@@ -224,6 +398,22 @@ export const pt = {
     backPanelGrooveDepth: 'Profundidade da Ranhura (mm)',
     edgeBandingThickness: 'Espessura da Orla (mm)',
     resetToDefaults: 'Repor Valores Padrão',
+    quote: {
+      title: 'Orçamentos',
+      companyName: 'Nome da Empresa',
+      companyAddress: 'Morada',
+      companyPhone: 'Telefone',
+      companyEmail: 'Email',
+      companyTaxId: 'NIF',
+      logoUrl: 'Logótipo (URL)',
+      accentColor: 'Cor',
+      pricing: 'Preços',
+      lineItems: 'Por armário',
+      lumpSum: 'Valor global',
+      vatRate: 'IVA (%)',
+      validityDays: 'Validade (dias)',
+      terms: 'Condições',
+    },
   },
 
   // Pattern Editor
@@ -2,6 +2,8 @@
 // Charta API Client - Export documents to Charta
 // ============================================
 
+import type { ProjectCost } from '../types';
+
 /**
  * Response from Charta upload API
  */
@@ -237,10 +239,40 @@ export function generateCutListPDF(
 }
 
 /**
- * Generate CSV from cut list data
+ * CSV lines of a project's cost estimate: one section per cost kind, then the totals
+ */
+export function generateProjectCostCSVLines(cost: ProjectCost): string[] {
+  const money = (value: number) => value.toFixed(2);
+  const lines = ['', 'Custos'];
+  if (cost.materials.length > 0) {
+    lines.push('Material,Área (m²),Preço (€/m²),Total (€)');
+    lines.push(...cost.materials.map(m => `"${m.materialName}",${m.area},${money(m.unitCost)},${money(m.totalCost)}`));
+  }
+  if (cost.edgeBanding.length > 0) {
+    lines.push('Orla,Comprimento (m),Preço (€/m),Total (€)');
+    lines.push(...cost.edgeBanding.map(e => `"${e.materialName}",${e.length},${money(e.unitCost)},${money(e.totalCost)}`));
+  }
+  if (cost.hardware.length > 0) {
+    lines.push('Ferragem,Quantidade,Preço Unitário (€),Total (€)');
+    lines.push(...cost.hardware.map(h => `"${h.hardwareName}",${h.quantity},${money(h.unitCost)},${money(h.totalCost)}`));
+  }
+  if (cost.countertops?.length) {
+    lines.push('Tampo,Área (m²),Preço (€/m²),Total (€)');
+    lines.push(...cost.countertops.map(c => `"${c.name}",${c.area},${money(c.unitCost)},${money(c.totalCost)}`));
+  }
+  if (cost.labor) lines.push(`Mão de obra,,,${money(cost.labor)}`);
+  lines.push(`Subtotal,,,${money(cost.subtotal)}`);
+  if (cost.markup) lines.push(`Margem,,,${money(cost.markup)}`);
+  lines.push(`Total,,,${money(cost.total)}`);
+  return lines;
+}
+
+/**
+ * Generate CSV from cut list data, with the cost estimate appended when given
  */
 export function generateCutListCSV(
-  parts: Array<{ partName: string; length: number; width: number; quantity: number }>
+  parts: Array<{ partName: string; length: number; width: number; quantity: number }>,
+  cost?: ProjectCost
 ): Blob {
   const headers = ['Peça', 'Comprimento (mm)', 'Largura (mm)', 'Quantidade'];
   const rows = parts.map(p => [
@@ -252,7 +284,8 @@ export function generateCutListCSV(
   
   const csvContent = [
     headers.join(','),
-    ...rows.map(row => row.join(','))
+    ...rows.map(row => row.join(',')),
+    ...(cost ? generateProjectCostCSVLines(cost) : [])
   ].join('\n');
   
   return new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
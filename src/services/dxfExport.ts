@@ -0,0 +1,309 @@
+// ============================================
+// DXF Export - Per-part CNC drawings with machining layers
+// ============================================
+
+import type { CutPart, MachiningOperation } from '../types';
+
+/**
+ * A DXF file ready to download
+ */
+export interface DxfFile {
+  filename: string;
+  content: string;
+}
+
+// Layer names follow the convention nesting software maps to tools:
+// the outline on OUTLINE, vertical bores on DRILL_D<diameter>_Z<depth>,
+// horizontal (edge) bores on HDRILL_D<diameter>_Z<depth>, grooves on
+// GROOVE_W<width>_Z<depth> and pockets on POCKET_Z<depth>. Operations on the
+// outer face get an _OUTER suffix (the inner face is machined face up).
+const OUTLINE_LAYER = 'OUTLINE';
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+const layerNumber = (value: number) => formatNumber(value).replace('.', '_');
+
+/**
+ * Layer of a machining operation, named by its kind, diameter or width, and depth
+ */
+export function getMachiningLayer(operation: MachiningOperation): string {
+  const isEdge = operation.face !== 'inner' && operation.face !== 'outer';
+  const suffix = operation.face === 'outer' ? '_OUTER' : '';
+  switch (operation.type) {
+    case 'bore':
+      return `${isEdge ? 'HDRILL' : 'DRILL'}_D${layerNumber(operation.diameter)}_Z${layerNumber(operation.depth)}${suffix}`;
+    case 'groove':
+      return `${isEdge ? 'EDGE_GROOVE' : 'GROOVE'}_W${layerNumber(operation.width)}_Z${layerNumber(operation.depth)}${suffix}`;
+    case 'pocket':
+      return `POCKET_Z${layerNumber(operation.depth)}${suffix}`;
+  }
+}
+
+// ============================================
+// DXF Writer (R12 ASCII)
+// ============================================
+
+/**
+ * Group code/value pairs of a DXF file
+ */
+class DxfWriter {
+  private lines: string[] = [];
+
+  pair(code: number, value: string | number): this {
+    this.lines.push(String(code), typeof value === 'number' ? formatNumber(value) : value);
+    return this;
+  }
+
+  line(layer: string, x1: number, y1: number, x2: number, y2: number): this {
+    return this.pair(0, 'LINE').pair(8, layer).pair(10, x1).pair(20, y1).pair(30, 0).pair(11, x2).pair(21, y2).pair(31, 0);
+  }
+
+  circle(layer: string, x: number, y: number, radius: number): this {
+    return this.pair(0, 'CIRCLE').pair(8, layer).pair(10, x).pair(20, y).pair(30, 0).pair(40, radius);
+  }
+
+  rectangle(layer: string, x1: number, y1: number, x2: number, y2: number): this {
+    this.pair(0, 'POLYLINE').pair(8, layer).pair(66, 1).pair(10, 0).pair(20, 0).pair(30, 0).pair(70, 1);
+    for (const [x, y] of [[x1, y1], [x2, y1], [x2, y2], [x1, y2]]) {
+      this.pair(0, 'VERTEX').pair(8, layer).pair(10, x).pair(20, y).pair(30, 0);
+    }
+    return this.pair(0, 'SEQEND').pair(8, layer);
+  }
+
+  toString(): string {
+    return [...this.lines, ''].join('\n');
+  }
+}
+
+/**
+ * Draws a machining operation in the part's frame (x along the length, y along the width).
+ * Edge operations are drawn on their edge, inwards as far as they go deep: bores as a
+ * line, grooves as a strip along the edge. Face grooves and pockets are drawn as their
+ * outline.
+ */
+function drawOperation(dxf: DxfWriter, operation: MachiningOperation, part: CutPart): void {
+  const layer = getMachiningLayer(operation);
+  const { length, width } = part;
+
+  switch (operation.type) {
+    case 'bore': {
+      const { face, x, depth } = operation;
+      if (face === 'inner' || face === 'outer') {
+        dxf.circle(layer, operation.x, operation.y, operation.diameter / 2);
+      } else if (face === 'length1') {
+        dxf.line(layer, x, 0, x, depth);
+      } else if (face === 'length2') {
+        dxf.line(layer, x, width, x, width - depth);
+      } else if (face === 'width1') {
+        dxf.line(layer, 0, x, depth, x);
+      } else {
+        dxf.line(layer, length, x, length - depth, x);
+      }
+      break;
+    }
+    case 'groove': {
+      const { face, edge } = operation;
+      const onFace = face === 'inner' || face === 'outer';
+      const offset = onFace ? operation.offset : 0;
+      const across = onFace ? operation.width : operation.depth;
+      if (edge === 'length1') dxf.rectangle(layer, 0, offset, length, offset + across);
+      else if (edge === 'length2') dxf.rectangle(layer, 0, width - offset - across, length, width - offset);
+      else if (edge === 'width1') dxf.rectangle(layer, offset, 0, offset + across, width);
+      else dxf.rectangle(layer, length - offset - across, 0, length - offset, width);
+      break;
+    }
+    case 'pocket':
+      dxf.rectangle(
+        layer,
+        operation.x - operation.length / 2,
+        operation.y - operation.width / 2,
+        operation.x + operation.length / 2,
+        operation.y + operation.width / 2
+      );
+      break;
+  }
+}
+
+/**
+ * Text as plain ASCII: R12 files carry no code page, so accents are stripped, dashes
+ * made plain and anything else outside ASCII replaced
+ */
+function toAscii(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u2013\u2014]/g, '-')
+    .replace(/[^\x20-\x7e]/g, '?');
+}
+
+/**
+ * Material of a part with its thickness, unless its name already gives it (e.g. "MDF 18mm")
+ */
+function getMaterialLabel(part: CutPart): string {
+  const name = part.material ?? part.materialId ?? '-';
+  if (part.thickness === undefined || name.replace(/\s+/g, '').toLowerCase().includes(`${part.thickness}mm`)) return name;
+  return `${name} ${part.thickness}mm`;
+}
+
+/**
+ * Generates the DXF drawing of a part: its outline (cut size) on the OUTLINE layer
+ * and its machining operations on layers named by depth and diameter (see
+ * getMachiningLayer()). The header comments carry the part name, cabinet, material
+ * and quantity.
+ */
+export function generatePartDXF(part: CutPart): string {
+  const operations = part.machining ?? [];
+  const layers = [OUTLINE_LAYER, ...new Set(operations.map(getMachiningLayer))];
+  const dxf = new DxfWriter();
+
+  dxf
+    .pair(999, toAscii(`Peça: ${part.partName}`))
+    .pair(999, toAscii(`Armário: ${part.cabinetName ?? '-'}`))
+    .pair(999, toAscii(`Material: ${getMaterialLabel(part)}`))
+    .pair(999, `Medidas: ${part.length} x ${part.width} mm, Quantidade: ${part.quantity}`);
+
+  // Header: R12 and the drawing extents (R12 has no units variable: drawings are in mm)
+  dxf
+    .pair(0, 'SECTION').pair(2, 'HEADER')
+    .pair(9, '$ACADVER').pair(1, 'AC1009')
+    .pair(9, '$EXTMIN').pair(10, 0).pair(20, 0).pair(30, 0)
+    .pair(9, '$EXTMAX').pair(10, part.length).pair(20, part.width).pair(30, 0)
+    .pair(0, 'ENDSEC');
+
+  // Linetype table: the CONTINUOUS linetype the layers refer to (strict R12 readers
+  // reject references to linetypes that are not defined)
+  dxf
+    .pair(0, 'SECTION').pair(2, 'TABLES')
+    .pair(0, 'TABLE').pair(2, 'LTYPE').pair(70, 1)
+    .pair(0, 'LTYPE').pair(2, 'CONTINUOUS').pair(70, 0).pair(3, 'Solid line').pair(72, 65).pair(73, 0).pair(40, 0)
+    .pair(0, 'ENDTAB');
+
+  // Layer table
+  dxf.pair(0, 'TABLE').pair(2, 'LAYER').pair(70, layers.length);
+  layers.forEach((layer, index) => {
+    dxf.pair(0, 'LAYER').pair(2, layer).pair(70, 0).pair(62, index === 0 ? 7 : (index % 6) + 1).pair(6, 'CONTINUOUS');
+  });
+  dxf.pair(0, 'ENDTAB').pair(0, 'ENDSEC');
+
+  // Entities
+  dxf.pair(0, 'SECTION').pair(2, 'ENTITIES');
+  dxf.rectangle(OUTLINE_LAYER, 0, 0, part.length, part.width);
+  for (const operation of operations) {
+    drawOperation(dxf, operation, part);
+  }
+  dxf.pair(0, 'ENDSEC').pair(0, 'EOF');
+
+  return dxf.toString();
+}
+
+/**
+ * File name of a part's drawing: cabinet, part name, material and size
+ */
+function getPartFilename(part: CutPart): string {
+  const name = [part.cabinetName, part.partName, part.material ?? part.materialId, `${part.length}x${part.width}`]
+    .filter(Boolean)
+    .join('_');
+  const safeName = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Strip accents
+    .replace(/[^a-zA-Z0-9_.-]+/g, '-')
+    .replace(/-+/g, '-');
+  return `${safeName}.dxf`;
+}
+
+/**
+ * Generates one DXF per unique part of a cut list: parts of the same cabinet with
+ * the same name, size, material and machining share a drawing, with their
+ * quantities added up.
+ */
+export function generateCutListDXF(parts: CutPart[]): DxfFile[] {
+  const uniqueParts = new Map<string, CutPart>();
+  for (const part of parts) {
+    const key = JSON.stringify([part.cabinetName, part.partName, part.length, part.width, part.materialId, part.machining ?? []]);
+    const existing = uniqueParts.get(key);
+    uniqueParts.set(key, existing ? { ...existing, quantity: existing.quantity + part.quantity } : part);
+  }
+
+  const usedNames = new Map<string, number>();
+  return [...uniqueParts.values()].map((part) => {
+    // Parts differing only in machining get numbered file names
+    let filename = getPartFilename(part);
+    const count = (usedNames.get(filename) ?? 0) + 1;
+    usedNames.set(filename, count);
+    if (count > 1) filename = filename.replace(/\.dxf$/, `-${count}.dxf`);
+    return { filename, content: generatePartDXF(part) };
+  });
+}
+
+// ============================================
+// ZIP Archive (stored, no compression)
+// ============================================
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+// Modification date of every entry: 1980-01-01, the earliest valid DOS date
+const DOS_DATE = 0x21;
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Packs files into a ZIP archive. Files are stored uncompressed, which every
+ * unzip tool reads and keeps this free of a compression library.
+ */
+export function createZip(files: DxfFile[]): Blob {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.filename);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    // Local file header, then the data
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // Version needed
+    local.setUint16(6, 0x0800, true); // UTF-8 file names
+    local.setUint16(12, DOS_DATE, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    chunks.push(new Uint8Array(local.buffer), name, data);
+
+    // Central directory entry pointing at the local header
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true); // Version made by
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(14, DOS_DATE, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    centralDirectory.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const directorySize = centralDirectory.reduce((sum, chunk) => sum + chunk.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...chunks, ...centralDirectory, new Uint8Array(end.buffer)], { type: 'application/zip' });
+}
@@ -0,0 +1,155 @@
+// ============================================
+// Quote Document - Printable client quotation
+// ============================================
+
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { CabinetVisualizer } from '../components/CabinetVisualizer';
+import { resolveQuoteSettings } from '../utils/quote';
+import type { CabinetInstance, CabinetPattern, GlobalSettings, Project, QuoteLine, QuoteSettings } from '../types';
+
+/**
+ * Everything printed on a quotation
+ */
+export interface QuoteDocumentInput {
+  project: Project;
+  lines: QuoteLine[];
+  settings?: QuoteSettings;
+  elevations?: Record<string, string>; // SVG markup per cabinet id
+  date?: Date;
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const formatEuro = (value: number) =>
+  value.toLocaleString('pt-PT', { style: 'currency', currency: 'EUR' });
+
+/**
+ * Front elevation of a cabinet as SVG markup, drawn by the CabinetVisualizer
+ */
+export function renderCabinetElevation(
+  cabinet: CabinetInstance,
+  pattern: CabinetPattern,
+  globalSettings: GlobalSettings
+): string {
+  const markup = renderToStaticMarkup(
+    createElement(CabinetVisualizer, { pattern, cabinet, dimensions: cabinet.dimensions, globalSettings })
+  );
+  const svg = new DOMParser().parseFromString(markup, 'text/html').querySelector('.cabinet-visualizer-svg');
+  return svg?.outerHTML ?? '';
+}
+
+/**
+ * Generate a printable quotation as an HTML document: company header, client and
+ * project, the cabinets with their elevations, dimensions and finishes, priced per
+ * line or as a lump sum, VAT, validity and terms
+ */
+export function generateQuoteDocument({ project, lines, settings, elevations = {}, date = new Date() }: QuoteDocumentInput): Blob {
+  const quote = resolveQuoteSettings(settings);
+  const showPrices = quote.pricing === 'line-items';
+  const subtotal = lines.reduce((sum, line) => sum + line.total, 0);
+  const vat = Math.round(subtotal * quote.vatRate * 100) / 100;
+  const validUntil = new Date(date.getTime() + quote.validityDays * 24 * 60 * 60 * 1000);
+  const accent = quote.accentColor; // A #rrggbb colour (see resolveQuoteSettings())
+
+  const companyLines = [quote.companyAddress, quote.companyPhone, quote.companyEmail, quote.companyTaxId && `NIF ${quote.companyTaxId}`]
+    .filter((line): line is string => !!line)
+    .map((line) => `<div>${escapeHtml(line).replace(/\n/g, '<br>')}</div>`)
+    .join('');
+
+  const rows = lines.map((line) => `
+    <tr>
+      <td class="elevation">${line.cabinetId && elevations[line.cabinetId] ? elevations[line.cabinetId] : ''}</td>
+      <td>
+        <div class="item">${escapeHtml(line.description)}</div>
+        ${line.details ? `<div class="details">${escapeHtml(line.details)}</div>` : ''}
+      </td>
+      <td class="right">${line.quantity}</td>
+      ${showPrices ? `<td class="right mono">${formatEuro(line.total)}</td>` : ''}
+    </tr>
+  `).join('');
+
+  const html = `
+    <!DOCTYPE html>
+    <html lang="pt">
+    <head>
+      <meta charset="UTF-8">
+      <title>Orçamento - ${escapeHtml(project.name)}</title>
+      <style>
+        body { font-family: Arial, sans-serif; margin: 32px; color: #111827; font-size: 12px; }
+        header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 3px solid ${accent}; padding-bottom: 16px; }
+        header img { max-height: 64px; max-width: 200px; }
+        .company { text-align: right; color: #4b5563; line-height: 1.5; }
+        .company .name { font-size: 16px; font-weight: bold; color: ${accent}; }
+        h1 { font-size: 22px; color: ${accent}; margin: 24px 0 8px; }
+        .meta { display: grid; grid-template-columns: auto 1fr; gap: 4px 16px; margin-bottom: 24px; }
+        .meta dt { color: #6b7280; }
+        .meta dd { margin: 0; font-weight: bold; }
+        table { width: 100%; border-collapse: collapse; }
+        th { text-align: left; font-size: 11px; text-transform: uppercase; color: #6b7280; border-bottom: 2px solid ${accent}; padding: 6px 8px; }
+        td { border-bottom: 1px solid #e5e7eb; padding: 8px; vertical-align: middle; }
+        td.elevation { width: 110px; }
+        td.elevation svg { width: 100px; height: auto; display: block; }
+        .item { font-weight: bold; }
+        .details { color: #6b7280; margin-top: 2px; }
+        .right { text-align: right; }
+        .mono { font-family: monospace; white-space: nowrap; }
+        .totals { margin: 16px 0 0 auto; width: 280px; }
+        .totals td { border: none; padding: 4px 8px; }
+        .totals .grand td { border-top: 2px solid ${accent}; font-size: 15px; font-weight: bold; }
+        .terms { margin-top: 32px; color: #374151; line-height: 1.5; white-space: pre-line; }
+        .terms h2 { font-size: 13px; color: ${accent}; margin-bottom: 4px; }
+        .footer { margin-top: 32px; font-size: 10px; color: #9ca3af; }
+        .print { position: fixed; top: 16px; right: 16px; padding: 8px 16px; background: ${accent}; color: white; border: none; border-radius: 6px; cursor: pointer; }
+        @media print { .print { display: none; } body { margin: 0; } tr { page-break-inside: avoid; } }
+      </style>
+    </head>
+    <body>
+      <button class="print" onclick="window.print()">Imprimir</button>
+      <header>
+        <div>${quote.logoUrl ? `<img src="${escapeHtml(quote.logoUrl)}" alt="">` : ''}</div>
+        <div class="company">
+          ${quote.companyName ? `<div class="name">${escapeHtml(quote.companyName)}</div>` : ''}
+          ${companyLines}
+        </div>
+      </header>
+
+      <h1>Orçamento</h1>
+      <dl class="meta">
+        ${project.client ? `<dt>Cliente</dt><dd>${escapeHtml(project.client)}</dd>` : ''}
+        <dt>Projeto</dt><dd>${escapeHtml(project.name)}</dd>
+        <dt>Data</dt><dd>${date.toLocaleDateString('pt-PT')}</dd>
+        <dt>Válido até</dt><dd>${validUntil.toLocaleDateString('pt-PT')}</dd>
+      </dl>
+
+      <table>
+        <thead>
+          <tr>
+            <th></th>
+            <th>Descrição</th>
+            <th class="right">Qtd</th>
+            ${showPrices ? '<th class="right">Valor</th>' : ''}
+          </tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+
+      <table class="totals">
+        <tr><td>${showPrices ? 'Subtotal' : 'Valor global'}</td><td class="right mono">${formatEuro(subtotal)}</td></tr>
+        <tr><td>IVA (${Math.round(quote.vatRate * 1000) / 10}%)</td><td class="right mono">${formatEuro(vat)}</td></tr>
+        <tr class="grand"><td>Total</td><td class="right mono">${formatEuro(subtotal + vat)}</td></tr>
+      </table>
+
+      ${quote.terms ? `<div class="terms"><h2>Condições</h2>${escapeHtml(quote.terms)}</div>` : ''}
+      <p class="footer">Gerado por Ligna em ${date.toLocaleString('pt-PT')}</p>
+    </body>
+    </html>
+  `;
+
+  return new Blob([html], { type: 'text/html' });
+}
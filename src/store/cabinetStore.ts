@@ -7,6 +7,7 @@ import type {
   Project,
   UIState,
   Material,
+  Remnant,
   HardwareItem,
   Countertop,
   ValidationResult,
@@ -14,12 +15,15 @@ import type {
   InsertedElement,
   RuleSet,
   JointType,
+  ExpressionDiagnostic,
 } from '../types';
 import { defaultPatterns } from '../data/defaultPatterns';
 import { defaultMaterials } from '../data/defaultMaterials';
 import { defaultHardware } from '../data/defaultHardware';
 import { defaultJoints } from '../data/defaultJoints';
 import { DEFAULT_VALIDATION_LIMITS } from '../types';
+import { calculatePartsWithDiagnostics, getPartCalculationOptions, uniqueDiagnostics } from '../utils/cabinetLogic';
+import { calculateCabinetHardwareWithDiagnostics } from '../utils/hardwareLogic';
 
 // ============================================
 // Default Values
@@ -32,6 +36,13 @@ const defaultGlobalSettings: GlobalSettings = {
   defaultEdgeBanding: 0.5,
   drawerBottomInset: 50,
   units: 'mm',
+  // Hardware used by pattern hardware rules that name a hardware type
+  defaultHardwarePresets: {
+    hinge: 'hinge-soft-close-110',
+    'drawer-slide': 'slide-soft-close-500',
+    'shelf-pin': 'shelf-pin-5mm',
+    leg: 'leg-plastic-100',
+  },
 };
 
 const defaultUIState: UIState = {
@@ -92,7 +103,9 @@ const defaultRuleSet: RuleSet = {
 
 function validateCabinet(
   cabinet: CabinetInstance,
-  pattern: CabinetPattern | undefined
+  pattern: CabinetPattern | undefined,
+  diagnostics: ExpressionDiagnostic[] = [],
+  missingHardwareIds: string[] = []
 ): ValidationResult {
   const errors: ValidationMessage[] = [];
   const warnings: ValidationMessage[] = [];
@@ -185,6 +198,38 @@ function validateCabinet(
     });
   }
 
+  // Part rule, zone and hardware rule expression diagnostics
+  const zones = [...(pattern?.zones ?? []), ...(pattern?.columns ?? []).flatMap((column) => column.zones)];
+  for (const diagnostic of diagnostics) {
+    const field = diagnostic.field === 'lengthExpression' ? 'comprimento'
+      : diagnostic.field === 'widthExpression' ? 'largura'
+      : diagnostic.field === 'heightExpression' ? 'altura'
+      : diagnostic.field === 'quantityExpression' ? 'quantidade'
+      : diagnostic.field === 'condition' ? 'condição'
+      : undefined;
+    (diagnostic.severity === 'error' ? errors : warnings).push({
+      ruleId: `expression-${diagnostic.kind}`,
+      ruleName: diagnostic.variable ? `Variável: ${diagnostic.variable}`
+        : diagnostic.partName ? `Expressão: ${diagnostic.partName}`
+        : diagnostic.hardwareId ? `Ferragem: ${diagnostic.hardwareId}`
+        : diagnostic.zoneId ? `Zona: ${zones.find((zone) => zone.id === diagnostic.zoneId)?.name ?? diagnostic.zoneId}`
+        : 'Expressão',
+      message: diagnostic.message,
+      field,
+      expression: diagnostic.expression,
+      column: diagnostic.column,
+    });
+  }
+
+  // Hardware of the pattern's hardware rules missing from the library
+  for (const hardwareId of missingHardwareIds) {
+    warnings.push({
+      ruleId: 'hardware-not-found',
+      ruleName: `Ferragem: ${hardwareId}`,
+      message: 'Ferragem não encontrada na biblioteca; listada sem custo',
+    });
+  }
+
   return {
     isValid: errors.length === 0,
     errors,
@@ -193,6 +238,45 @@ function validateCabinet(
   };
 }
 
+/**
+ * Evaluates a cabinet's part and hardware rules with the rule set selected for the cut list
+ * (the default one when none is) and returns the expression diagnostics and the hardware
+ * missing from the library (used by validation)
+ */
+function getCabinetDiagnostics(
+  cabinet: CabinetInstance,
+  pattern: CabinetPattern | undefined,
+  state: Pick<CabinetStore, 'globalSettings' | 'ruleSets' | 'materials' | 'joints' | 'hardware' | 'ui'>
+): { diagnostics: ExpressionDiagnostic[]; missingHardwareIds: string[] } {
+  if (!pattern) return { diagnostics: [], missingHardwareIds: [] };
+  const ruleSet = state.ruleSets.find((r) => r.id === state.ui.cutListModal.selectedRuleSetId)
+    || state.ruleSets.find((r) => r.isDefault)
+    || state.ruleSets[0];
+  const partDiagnostics = calculatePartsWithDiagnostics(
+    pattern,
+    cabinet.dimensions,
+    state.globalSettings,
+    cabinet.variableOverrides,
+    cabinet.zoneProportions,
+    ruleSet,
+    state.materials,
+    cabinet.materialOverrides,
+    undefined,
+    state.joints,
+    { ...getPartCalculationOptions(cabinet), hardware: state.hardware }
+  ).diagnostics;
+  const { diagnostics: hardwareDiagnostics, missingHardwareIds } = calculateCabinetHardwareWithDiagnostics(
+    cabinet,
+    pattern,
+    state.globalSettings,
+    state.hardware,
+    ruleSet,
+    state.materials,
+    state.joints
+  );
+  return { diagnostics: uniqueDiagnostics([...partDiagnostics, ...hardwareDiagnostics]), missingHardwareIds };
+}
+
 // ============================================
 // Store Interface
 // ============================================
@@ -218,6 +302,12 @@ interface CabinetStore {
   getMaterialById: (id: string) => Material | undefined;
   getCompatibleEdgeBanding: (materialId: string) => Material[];
 
+  // Remnants (offcuts kept for later jobs)
+  remnants: Remnant[];
+  addRemnant: (remnant: Omit<Remnant, 'id' | 'createdAt'>) => string;
+  updateRemnant: (id: string, updates: Partial<Remnant>) => void;
+  deleteRemnant: (id: string) => void;
+
   // Hardware Library
   hardware: HardwareItem[];
   addHardware: (item: HardwareItem) => void;
@@ -276,6 +366,7 @@ interface CabinetStore {
   set3DPreviewOptions: (options: Partial<NonNullable<UIState['preview3D']>>) => void;
   openCutListModal: (ruleSetId?: string) => void;
   closeCutListModal: () => void;
+  setCutListRuleSet: (ruleSetId: string) => void;
 }
 
 // ============================================
@@ -288,6 +379,50 @@ const generateId = (): string => {
 
 const now = (): string => new Date().toISOString();
 
+// ============================================
+// Persisted State Migration
+// ============================================
+
+// Version of the persisted state; bump it when a migration step is added below
+const STORAGE_VERSION = 2;
+
+/**
+ * Brings state saved by an older version up to date. Unversioned state (version 0)
+ * predates the hardware engine: default hardware items it lacks are added, and the
+ * saved default items gain the fields and specifications added since (hinge crank,
+ * slide lengths and offsets), keeping the values the user edited. Before version 2 every
+ * carcass part got the back panel groove: saved patterns mark their carcass parts other
+ * than vertical dividers as holding the back.
+ */
+function migratePersistedState(persistedState: unknown, version: number): Partial<CabinetStore> {
+  const state = persistedState as Partial<CabinetStore>;
+
+  if (version < 1 && state.hardware) {
+    const savedIds = new Set(state.hardware.map((item) => item.id));
+    state.hardware = [
+      ...state.hardware.map((item) => {
+        const defaults = defaultHardware.find((d) => d.id === item.id);
+        if (!defaults) return item;
+        return { ...defaults, ...item, specifications: { ...defaults.specifications, ...item.specifications } };
+      }),
+      ...defaultHardware.filter((item) => !savedIds.has(item.id)),
+    ];
+  }
+
+  if (version < 2 && state.patterns) {
+    state.patterns = state.patterns.map((pattern) => ({
+      ...pattern,
+      partRules: pattern.partRules.map((rule) =>
+        rule.role === 'carcass' && rule.dividerColumn === undefined && rule.holdsBackPanel === undefined
+          ? { ...rule, holdsBackPanel: true }
+          : rule
+      ),
+    }));
+  }
+
+  return state;
+}
+
 // ============================================
 // Zustand Store with Persistence
 // ============================================
@@ -303,8 +438,16 @@ export const useCabinetStore = create<CabinetStore>()(
           globalSettings: { ...state.globalSettings, ...settings },
         })),
       
+      // Company, quotation, costing and nesting settings are not reset with the defaults
       resetGlobalSettings: () =>
-        set({ globalSettings: defaultGlobalSettings }),
+        set((state) => ({
+          globalSettings: {
+            ...defaultGlobalSettings,
+            nesting: state.globalSettings.nesting,
+            costing: state.globalSettings.costing,
+            quote: state.globalSettings.quote,
+          },
+        })),
 
       // ========== Rule Sets ==========
       ruleSets: [defaultRuleSet],
@@ -358,6 +501,27 @@ export const useCabinetStore = create<CabinetStore>()(
         );
       },
 
+      // ========== Remnants ==========
+      remnants: [],
+
+      addRemnant: (remnant) => {
+        const id = generateId();
+        set((state) => ({
+          remnants: [...state.remnants, { ...remnant, id, createdAt: now() }],
+        }));
+        return id;
+      },
+
+      updateRemnant: (id, updates) =>
+        set((state) => ({
+          remnants: state.remnants.map((r) => (r.id === id ? { ...r, ...updates } : r)),
+        })),
+
+      deleteRemnant: (id) =>
+        set((state) => ({
+          remnants: state.remnants.filter((r) => r.id !== id),
+        })),
+
       // ========== Hardware Library ==========
       hardware: defaultHardware,
 
@@ -634,7 +798,8 @@ export const useCabinetStore = create<CabinetStore>()(
         const cabinet = get().getCabinetById(id);
         if (!cabinet) return null;
         const pattern = get().getPatternById(cabinet.patternId);
-        return validateCabinet(cabinet, pattern);
+        const { diagnostics, missingHardwareIds } = getCabinetDiagnostics(cabinet, pattern, get());
+        return validateCabinet(cabinet, pattern, diagnostics, missingHardwareIds);
       },
 
       validateProject: () => {
@@ -646,7 +811,8 @@ export const useCabinetStore = create<CabinetStore>()(
         if (project) {
           for (const cabinet of project.cabinets) {
             const pattern = get().getPatternById(cabinet.patternId);
-            const result = validateCabinet(cabinet, pattern);
+            const { diagnostics, missingHardwareIds } = getCabinetDiagnostics(cabinet, pattern, get());
+            const result = validateCabinet(cabinet, pattern, diagnostics, missingHardwareIds);
             allErrors.push(...result.errors.map((e) => ({ ...e, ruleName: `${cabinet.name}: ${e.ruleName}` })));
             allWarnings.push(...result.warnings.map((w) => ({ ...w, ruleName: `${cabinet.name}: ${w.ruleName}` })));
             allInfo.push(...result.info.map((i) => ({ ...i, ruleName: `${cabinet.name}: ${i.ruleName}` })));
@@ -712,7 +878,7 @@ export const useCabinetStore = create<CabinetStore>()(
             ...state.ui,
             cutListModal: {
               isOpen: true,
-              selectedRuleSetId: ruleSetId ?? state.ruleSets[0]?.id,
+              selectedRuleSetId: ruleSetId ?? state.ui.cutListModal.selectedRuleSetId ?? state.ruleSets[0]?.id,
             },
           },
         })),
@@ -722,8 +888,20 @@ export const useCabinetStore = create<CabinetStore>()(
           ui: {
             ...state.ui,
             cutListModal: {
+              ...state.ui.cutListModal,
               isOpen: false,
-              selectedRuleSetId: undefined,
+            },
+          },
+        })),
+
+      // The selection is kept after closing: validation evaluates rules with it
+      setCutListRuleSet: (ruleSetId) =>
+        set((state) => ({
+          ui: {
+            ...state.ui,
+            cutListModal: {
+              ...state.ui.cutListModal,
+              selectedRuleSetId: ruleSetId,
             },
           },
         })),
@@ -731,10 +909,13 @@ export const useCabinetStore = create<CabinetStore>()(
     {
       name: 'ligna-cabinet-storage',
       storage: createJSONStorage(() => localStorage),
+      version: STORAGE_VERSION,
+      migrate: migratePersistedState,
       partialize: (state) => ({
         globalSettings: state.globalSettings,
         ruleSets: state.ruleSets,
         materials: state.materials,
+        remnants: state.remnants,
         hardware: state.hardware,
         patterns: state.patterns,
         currentProject: state.currentProject,
@@ -742,6 +923,10 @@ export const useCabinetStore = create<CabinetStore>()(
           isDarkMode: state.ui.isDarkMode,
           sidebarWidth: state.ui.sidebarWidth,
           propertiesPanelWidth: state.ui.propertiesPanelWidth,
+          cutListModal: {
+            isOpen: false,
+            selectedRuleSetId: state.ui.cutListModal.selectedRuleSetId,
+          },
         },
       }),
       merge: (persistedState, currentState) => {
@@ -749,6 +934,16 @@ export const useCabinetStore = create<CabinetStore>()(
         return {
           ...currentState,
           ...persisted,
+          // Deep merge global settings so settings added since (e.g. hardware presets for
+          // new hardware types) reach saved settings
+          globalSettings: {
+            ...currentState.globalSettings,
+            ...persisted.globalSettings,
+            defaultHardwarePresets: {
+              ...currentState.globalSettings.defaultHardwarePresets,
+              ...persisted.globalSettings?.defaultHardwarePresets,
+            },
+          },
           // Deep merge UI state to preserve new fields like cutListModal
           ui: {
             ...currentState.ui,
@@ -766,6 +961,7 @@ export const useCabinetStore = create<CabinetStore>()(
 
 export const useGlobalSettings = () => useCabinetStore((state) => state.globalSettings);
 export const useMaterials = () => useCabinetStore((state) => state.materials);
+export const useRemnants = () => useCabinetStore((state) => state.remnants);
 export const useHardware = () => useCabinetStore((state) => state.hardware);
 export const usePatterns = () => useCabinetStore((state) => state.patterns);
 export const useCurrentProject = () => useCabinetStore((state) => state.currentProject);
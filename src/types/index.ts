@@ -34,11 +34,35 @@ export interface Material {
   edgeBandingWidth?: number; // Visible width of edge banding (e.g., 22mm, 45mm). Only for type 'edge-banding'.
   compatibleEdgeBandingIds?: string[]; // Edge banding material IDs compatible with this board. Only for board-type materials.
   matchesMaterialColor?: string; // Color/finish this banding matches (e.g., 'white', 'oak'). Only for type 'edge-banding'.
+  // Sheet stock (board materials)
+  sheetSizes?: SheetSize[]; // Standard sheets, in order of preference
   // Timestamps
   createdAt?: string;
   updatedAt?: string;
 }
 
+/**
+ * Standard sheet of a board material (mm), with the sheets on hand
+ */
+export interface SheetSize {
+  length: number; // Along the grain on textured boards
+  width: number;
+  stock?: number; // Sheets on hand; untracked when undefined
+}
+
+/**
+ * Usable offcut left over from a previous job, kept for later cuts
+ */
+export interface Remnant {
+  id: string;
+  materialId: string; // Of the material's thickness
+  length: number; // Along the grain on textured boards
+  width: number;
+  quantity: number;
+  note?: string; // e.g. the job it came from
+  createdAt?: string;
+}
+
 /**
  * Hardware item definition
  */
@@ -53,8 +77,18 @@ export interface HardwareItem {
   // Specifications
   specifications?: {
     length?: number; // For drawer slides
+    minCabinetDepth?: number; // Drawer slides: internal cabinet depth needed (default: length)
+    sideClearance?: number; // Drawer slides: space between cabinet side and drawer box, each side (mm)
+    heightClearance?: number; // Drawer slides: opening height minus drawer box height (mm)
+    boxLengthDeduction?: number; // Drawer slides: drawer box length is the slide length minus this (mm)
     loadCapacity?: number; // kg
     openingAngle?: number; // For hinges
+    cupDiameter?: number; // Hinges: cup bore diameter (mm)
+    cupDepth?: number; // Hinges: cup bore depth (mm)
+    boreDistance?: number; // Hinges: door edge to cup edge (mm)
+    crank?: DoorOverlayMode; // Hinges: door overlay the arm is cranked for (default: full-overlay)
+    holeSpacing?: number; // Handles: centre-to-centre screw holes (0: knob, one hole; none: no drilling)
+    holeDiameter?: number; // Handles: screw hole diameter (default: 5mm)
     color?: string;
     finish?: string;
   };
@@ -142,6 +176,10 @@ export interface JointEdgeConfig {
    * Useful when the same joint type is used with different depths.
    */
   depthOverride?: number;
+  /**
+   * Receiving dados: distance from the edge to the near side of the groove (default 0).
+   */
+  offset?: number;
 }
 
 /**
@@ -195,6 +233,98 @@ export interface BackPanelConfig {
   railPositions?: ('top' | 'bottom' | 'middle')[];
 }
 
+// ============================================
+// FRONT STYLES
+// ============================================
+
+/**
+ * Construction of a door or drawer front. Framed fronts (shaker, frame-and-panel)
+ * are two stiles, two rails tenoned into the stiles and a centre panel or glass
+ * held in grooves in the frame. A shaker panel is flat; a frame-and-panel panel is
+ * raised: fielded on its outer face down to a tongue that fits the grooves.
+ */
+export interface FrontStyle {
+  type: 'slab' | 'shaker' | 'frame-and-panel';
+  frameWidth?: number; // Stile and rail width (default: 70 shaker, 60 frame-and-panel)
+  tenonLength?: number; // Rail tenon into each stile (default: 10)
+  panelGrooveDepth?: number; // Centre into the frame grooves, each side (default: 10)
+  raiseWidth?: number; // Frame-and-panel: width of the fielding around the raised panel, inside the frame (default: 40)
+  panelTongue?: number; // Frame-and-panel: thickness left at the raised panel's edges (default: 6)
+  centre?: 'panel' | 'glass'; // Default: panel
+  frameMaterialId?: string; // Default: the front material
+  panelMaterialId?: string; // Panel (default: the front material) or glass material
+}
+
+export type FrontComponentKind = 'stile' | 'rail' | 'panel' | 'glass';
+
+// ============================================
+// HANDLES
+// ============================================
+
+/**
+ * Where a handle goes on a front:
+ * - centred: across the middle of the front
+ * - top: across the front, near its top edge (base cabinet drawers)
+ * - vertical: upright beside the opening edge (doors)
+ */
+export type HandlePlacement = 'centred' | 'top' | 'vertical';
+
+/**
+ * Handle of the fronts of a zone: the rule set default for doors or drawers,
+ * or the zone's own (a zone with an empty handleId has no handle)
+ */
+export interface HandleConfig {
+  handleId?: string; // Handle from the hardware library
+  placement?: HandlePlacement; // Default: by front and cabinet category (see resolveHandlePlacement())
+  edgeOffset?: number; // mm from the top edge (top) or the opening edge (vertical) to the handle (default: 40)
+}
+
+/**
+ * Handle drilling on a front. Holes are measured on the outside face from the
+ * bottom-left corner: x across the front (part length), y up the front (part width).
+ */
+export interface HandleDrilling {
+  handleId: string;
+  placement: HandlePlacement;
+  holes: { x: number; y: number; diameter: number }[];
+}
+
+// ============================================
+// SHELF PINS
+// ============================================
+
+/**
+ * System 32 line boring for adjustable shelves: rows of shelf-pin holes in the
+ * side panels, near their front and back edges, over each shelf zone (mm)
+ */
+export interface ShelfPinConfig {
+  enabled?: boolean; // Default: true
+  pitch?: number; // Between holes (default: 32)
+  frontSetback?: number; // Front row from the front edge (default: 37)
+  backSetback?: number; // Back row from the back edge (default: 37)
+  startOffset?: number; // First hole above the bottom of the shelf zone (default: 64)
+  endOffset?: number; // Last hole at most this far below the top of the zone (default: 64)
+  diameter?: number; // Default: 5
+  depth?: number; // Default: 12
+  pinsPerShelf?: number; // Default: 4
+}
+
+/**
+ * Row of shelf-pin holes on a side panel. Hole heights are measured
+ * from the bottom end of the side.
+ */
+export interface ShelfPinRow {
+  edge: 'length1' | 'length2'; // Front (length1) or back (length2) edge the row is set back from
+  setback: number; // mm from that edge to the hole centres
+  start: number; // Height of the lowest hole
+  end: number; // Height of the highest hole
+  pitch: number;
+  count: number;
+  diameter: number;
+  depth: number;
+  face?: 'inner' | 'outer'; // Face drilled (default: inner; dividers are drilled on both)
+}
+
 // ============================================
 // ZONES & DIVISIONS
 // ============================================
@@ -217,6 +347,14 @@ export interface PatternColumn {
   zones: PatternZone[];
 }
 
+/**
+ * How fronts (doors and drawer fronts) sit on the carcass:
+ * - full-overlay: fronts cover the carcass edges (half of a partition shared by two columns)
+ * - half-overlay: fronts cover half of every edge
+ * - inset: fronts sit inside the opening
+ */
+export type DoorOverlayMode = 'full-overlay' | 'half-overlay' | 'inset';
+
 /**
  * Represents a zone within a cabinet (drawer, door, shelf, etc.)
  * Zones are stacked vertically within their column (or within the cabinet if no columns defined)
@@ -239,9 +377,15 @@ export interface PatternZone {
     hasFront?: boolean;
     hasBack?: boolean;
     drawerSlideOffset?: number;
+    /** @deprecated Never used for sizing; see doorOverlayMode */
     doorOverlay?: number;
+    doorOverlayMode?: DoorOverlayMode; // Doors and drawer fronts (default: rule set's doorOverlay)
+    frontStyle?: FrontStyle; // Doors and drawer fronts (default: slab)
+    handle?: HandleConfig; // Doors and drawer fronts (default: rule set's handles)
+    shelfPins?: Pick<ShelfPinConfig, 'startOffset' | 'endOffset'>; // Shelves: hole row limits (default: rule set's)
     hingeType?: 'left' | 'right' | 'double';
-    // Material override
+    slideId?: string; // Drawer slide from the hardware library (default: longest that fits)
+    // Material override (doors and drawer fronts)
     materialId?: string;
     // Hardware override
     hardwarePreset?: string;
@@ -410,6 +554,9 @@ export interface ValidationMessage {
   limit?: number;
   suggestedValue?: number;
   suggestion?: string;
+  // Expression diagnostics: offending expression and 1-based column
+  expression?: string;
+  column?: number;
 }
 
 // ============================================
@@ -433,12 +580,24 @@ export interface GlobalSettings {
   units: 'mm' | 'inches';
   // Defaults
   defaultHardwarePresets?: Record<string, string>;
+  // Sheet nesting (optimizer defaults when unset)
+  nesting?: NestingSettings;
+  // Cost estimation (engine defaults when unset)
+  costing?: CostSettings;
+  // Client quotations: company details and terms
+  quote?: QuoteSettings;
 }
 
 // ============================================
 // PART RULES
 // ============================================
 
+/**
+ * Construction role of a part. Decides which rule set defaults apply to it
+ * (e.g. which edges get banded).
+ */
+export type PartRole = 'carcass' | 'back' | 'shelf' | 'door' | 'drawer-front' | 'drawer-box' | 'drawer-bottom';
+
 /**
  * Part calculation rule for a pattern
  */
@@ -452,7 +611,8 @@ export interface PartRule {
   materialId?: string;
   material?: string;
   grain?: 'length' | 'width' | 'none';
-  // Edge banding
+  role?: PartRole;
+  // Edge banding; edges left undefined follow the rule set's banding for the part role
   edgeBanding?: {
     length1?: boolean | string;
     length2?: boolean | string;
@@ -463,8 +623,24 @@ export interface PartRule {
   // Defines how this part connects to adjacent parts
   joints?: JointConfig;
   // Optional flags
-  isOptional?: boolean;
-  condition?: string;
+  isOptional?: boolean; // Can be switched off per cabinet instance (included by default)
+  condition?: string; // Expression; the part is only emitted when it is non-zero, e.g. "internal_height > 800"
+  // Zone this part belongs to (links generated parts back to the layout)
+  zoneId?: string;
+  // Doors: side the hinges go on
+  hingeSide?: 'left' | 'right';
+  // Framed fronts: component generated from the front's rule (see expandFrontRule())
+  frontComponent?: { kind: FrontComponentKind; frontRuleId: string };
+  // Carcass side panels: get the shelf-pin rows of adjustable shelves
+  isSidePanel?: boolean;
+  // Carcass panels the back panel sits in (sides, top, bottom): get the back panel
+  // groove when the back is inset. Vertical dividers stop in front of the back.
+  holdsBackPanel?: boolean;
+  // Vertical dividers: index of the column on their left. They get the shelf-pin rows
+  // of that column on their inner face and of the next column on their outer face
+  dividerColumn?: number;
+  // Shelves: rest on shelf pins (default: shelves of 'shelf' zones)
+  isAdjustable?: boolean;
 }
 
 // ============================================
@@ -492,6 +668,12 @@ export interface CabinetPattern {
   zones: PatternZone[];
   
   partRules: PartRule[];
+  // Part rules were edited by hand in the PatternEditor and must not be
+  // regenerated from the zone layout on save
+  customPartRules?: boolean;
+  // Zones without part rules of their own (no rule with their zoneId) get their
+  // parts generated from the zone type: drawer front and box, door leaves, shelf
+  generateZoneParts?: boolean;
   hardwareRules?: HardwareRule[];
   // Back panel
   backPanelConfig?: BackPanelConfig;
@@ -526,6 +708,11 @@ export interface CabinetPattern {
       materialId: string;
       thickness: number;
     };
+    // Drawer box material (sides, front/back, bottom)
+    drawer?: {
+      materialId: string;
+      thickness: number;
+    };
     // Edge banding material
     edgeBanding?: {
       materialId: string;
@@ -533,8 +720,9 @@ export interface CabinetPattern {
     };
   };
   
-  // Pattern variables
-  variables?: Record<string, number>;
+  // Pattern variables: constants (number) or derived expressions (string),
+  // e.g. { drawer_inner_width: 'internal_width - drawer_slide_offset * 2' }
+  variables?: Record<string, number | string>;
   // Validation overrides
   validationOverrides?: Record<string, number>;
   // Timestamps
@@ -569,9 +757,148 @@ export interface CutPart {
     width2?: string;
   };
   // Tracking
+  ruleId?: string;
   cabinetId?: string;
   cabinetName?: string;
   zoneId?: string;
+  thickness?: number; // Thickness of the resolved material
+  role?: PartRole;
+  hingeSide?: 'left' | 'right'; // Doors: side the hinges go on
+  hinges?: HingePosition[]; // Doors: hinges along the hinged edge
+  frontComponent?: FrontComponentKind; // Framed fronts: stile, rail, panel or glass
+  handle?: HandleDrilling; // Doors and drawer fronts: handle holes
+  shelfPinRows?: ShelfPinRow[]; // Side panels and dividers: System 32 rows for adjustable shelves
+  grooves?: PartGroove[]; // Grooves machined into the part (e.g. for an inset back panel)
+  machining?: MachiningOperation[]; // Every bore, groove and pocket of the part, for the shop
+  // How the dimensions were derived (cut list "explain" view)
+  provenance?: PartProvenance;
+}
+
+/**
+ * Hinge on a door, with the cup bore on the back face of the door
+ */
+export interface HingePosition {
+  position: number; // mm from the bottom of the door to the hinge centre
+  cupBore: {
+    x: number; // mm from the hinged edge to the cup centre
+    y: number; // mm from the bottom of the door to the cup centre
+    diameter: number;
+    depth: number;
+  };
+}
+
+/**
+ * Groove running along one edge of a part, on its inner face
+ */
+export interface PartGroove {
+  edge: PartEdge; // Edge the groove runs parallel to
+  offset: number; // mm from that edge to the near side of the groove
+  width: number;
+  depth: number;
+  purpose?: 'back-panel' | 'drawer-bottom';
+}
+
+type PartEdge = 'length1' | 'length2' | 'width1' | 'width2';
+
+// ============================================
+// MACHINING
+// ============================================
+
+/**
+ * Face a machining operation is made from: the inner face (toward the inside of
+ * the cabinet, e.g. the back of a door), the outer face, or one of the edges
+ */
+export type MachiningFace = 'inner' | 'outer' | PartEdge;
+
+export type MachiningPurpose = 'joint' | 'dowel' | 'cam' | 'hinge-cup' | 'handle' | 'shelf-pin' | 'back-panel' | 'drawer-bottom' | 'raised-panel';
+
+/**
+ * Positions are in the part's frame: x along the length from the width1 edge,
+ * y along the width from the length1 edge (fronts: from the left and bottom edges
+ * as seen from the front). On an edge, x runs along the edge and y is the
+ * distance from the inner face.
+ */
+export interface MachiningBore {
+  type: 'bore';
+  face: MachiningFace;
+  x: number;
+  y: number;
+  diameter: number;
+  depth: number; // The part's thickness for through holes
+  purpose?: MachiningPurpose;
+}
+
+/**
+ * Groove running parallel to an edge. On an edge face, the offset is from the inner face.
+ */
+export interface MachiningGroove {
+  type: 'groove';
+  face: MachiningFace;
+  edge: PartEdge; // Edge the groove runs parallel to
+  offset: number; // mm from that edge to the near side of the groove
+  width: number;
+  depth: number;
+  purpose?: MachiningPurpose;
+}
+
+/**
+ * Rectangular pocket, centred on its position
+ */
+export interface MachiningPocket {
+  type: 'pocket';
+  face: MachiningFace;
+  x: number;
+  y: number;
+  length: number; // Along x
+  width: number; // Along y
+  depth: number;
+  purpose?: MachiningPurpose;
+}
+
+export type MachiningOperation = MachiningBore | MachiningGroove | MachiningPocket;
+
+/**
+ * Dimensional adjustment from a joint on one edge of a part
+ */
+export interface JointAdjustmentTrace {
+  edge: PartEdge;
+  jointTypeId: string;
+  jointTypeName?: string;
+  role: 'inserted' | 'receiving';
+  amount: number; // mm added to the dimension (negative = removed)
+}
+
+/**
+ * Edge banding thickness deducted from one edge of a part
+ */
+export interface BandingDeductionTrace {
+  edge: PartEdge;
+  materialId?: string;
+  materialName?: string;
+  thickness: number;
+}
+
+/**
+ * Step-by-step derivation of one cut dimension:
+ * design (expression) + joint adjustments - banding deductions = cut
+ */
+export interface DimensionTrace {
+  expression: string;
+  variables: Record<string, number>; // Values substituted into the expression
+  designValue: number;
+  jointAdjustments: JointAdjustmentTrace[];
+  bandingDeductions: BandingDeductionTrace[];
+  cutValue: number;
+}
+
+export interface PartProvenance {
+  length: DimensionTrace;
+  width: DimensionTrace;
+  quantity: {
+    expression: string;
+    variables: Record<string, number>;
+    value: number;
+  };
 }
 
 /**
@@ -588,6 +915,89 @@ export interface HardwareRequirement {
   totalCost?: number;
 }
 
+/**
+ * Output of the hardware calculator: requirements plus any expression diagnostics
+ */
+export interface HardwareCalculationResult {
+  requirements: HardwareRequirement[];
+  diagnostics: ExpressionDiagnostic[];
+  missingHardwareIds: string[]; // Hardware of the rules that is not in the library (listed by id)
+}
+
+// ============================================
+// NESTING
+// ============================================
+
+/**
+ * Sheet size and saw settings for nesting parts onto boards (mm)
+ */
+export interface NestingSettings {
+  sheetLength?: number; // Along the sheet's grain when it has one
+  sheetWidth?: number;
+  kerf?: number; // Saw blade width lost at every cut
+  trim?: number; // Trimmed off every sheet edge before cutting parts
+  minOffcut?: number; // Smallest side of a leftover worth keeping
+}
+
+/**
+ * Rectangle on a sheet, from its bottom-left corner (mm). x runs along the sheet's
+ * length, y along its width.
+ */
+export interface SheetRect {
+  x: number;
+  y: number;
+  length: number; // Along x
+  width: number; // Along y
+}
+
+/**
+ * Part placed on a sheet. A rotated part has its length along the sheet's width.
+ */
+export interface NestedPart extends SheetRect {
+  partName: string;
+  cabinetName?: string;
+  rotated: boolean;
+}
+
+/**
+ * One sheet of a nesting layout, with its parts and usable offcuts
+ */
+export interface NestedSheet {
+  length: number;
+  width: number;
+  source: 'sheet' | 'remnant';
+  remnantId?: string;
+  parts: NestedPart[];
+  offcuts: SheetRect[];
+  yield: number; // Part area / sheet area (0-1)
+}
+
+/**
+ * Nesting of the parts of one material and thickness
+ */
+export interface NestingGroup {
+  materialId?: string;
+  materialName: string;
+  thickness?: number;
+  grain: 'length' | 'width' | 'none'; // Grain along the sheet's length or width
+  sheets: NestedSheet[];
+  stock: StockUsage[]; // Sheets and remnants the nesting uses
+  unplaced: CutPart[]; // Parts too large for the sheet
+  yield: number; // Over all the group's sheets (0-1)
+}
+
+/**
+ * Sheets of one size, or one kind of remnant, used by a nesting
+ */
+export interface StockUsage {
+  source: 'sheet' | 'remnant';
+  remnantId?: string;
+  length: number;
+  width: number;
+  used: number;
+  available?: number; // On hand; untracked when undefined
+}
+
 // ============================================
 // CABINET INSTANCE
 // ============================================
@@ -622,6 +1032,7 @@ export interface CabinetInstance {
   zoneOverrides?: Record<string, Partial<PatternZone>>;
   variableOverrides?: Record<string, number>;
   materialOverrides?: Record<string, string>;
+  optionalParts?: Record<string, boolean>; // Optional part rules switched on/off (keyed by rule id)
   // Inserted elements
   insertedElements?: InsertedElement[];
   // Back panel override
@@ -708,6 +1119,58 @@ export interface ExpressionContext {
   [key: string]: number | undefined;
 }
 
+export type ExpressionDiagnosticKind =
+  | 'syntax'
+  | 'unknown-variable'
+  | 'unknown-function'
+  | 'invalid-arguments'
+  | 'division-by-zero'
+  | 'invalid-result'
+  | 'negative-result'
+  | 'circular-dependency';
+
+/**
+ * Problem found while evaluating a rule expression
+ */
+export interface ExpressionDiagnostic {
+  kind: ExpressionDiagnosticKind;
+  severity: 'error' | 'warning';
+  message: string;
+  expression: string;
+  column?: number; // 1-based position in expression
+  identifier?: string; // Unknown variable/function name
+  // Origin
+  ruleId?: string;
+  partName?: string;
+  variable?: string; // Pattern variable name (field === 'variable')
+  zoneId?: string; // Zone whose opening is measured (field === 'widthExpression' | 'heightExpression')
+  hardwareRuleId?: string; // Pattern hardware rule (field === 'quantityExpression')
+  hardwareId?: string;
+  field?: 'lengthExpression' | 'widthExpression' | 'heightExpression' | 'quantityExpression' | 'condition' | 'variable';
+}
+
+/**
+ * Output of the part calculator: parts plus any expression diagnostics
+ */
+export interface PartCalculationResult {
+  parts: CutPart[];
+  diagnostics: ExpressionDiagnostic[];
+  excludedRuleIds: string[]; // Rules switched off on the instance or whose condition is false (front components as their front)
+}
+
+/**
+ * Per-instance customizations applied by the part calculator
+ * (mirrors the corresponding CabinetInstance fields)
+ */
+export interface PartCalculationOptions {
+  optionalParts?: Record<string, boolean>;
+  columnProportions?: number[];
+  columnZoneProportions?: Record<string, number[]>;
+  zoneOverrides?: Record<string, Partial<PatternZone>>;
+  hardware?: HardwareItem[]; // Hardware library, for the drawer slides that size drawer boxes
+  backPanelConfig?: BackPanelConfig; // Instance back panel (falls back to the pattern and global default)
+}
+
 // ============================================
 // UI STATE
 // ============================================
@@ -755,9 +1218,18 @@ export interface RuleSet {
     sideConstruction: 'sides-on-bottom' | 'bottom-between-sides' | 'all-between';
     // Back panel method
     backPanelMethod: 'overlay' | 'inset-groove' | 'inset-rebate';
-    // Drawer box construction
-    drawerConstruction: 'sides-on-bottom' | 'bottom-in-groove';
+    // Drawer box construction (metal-sided: drawer system with metal sides, only bottom and back are cut)
+    drawerConstruction: 'sides-on-bottom' | 'bottom-in-groove' | 'metal-sided';
+    // How doors and drawer fronts sit on the carcass (default: full-overlay)
+    doorOverlay?: DoorOverlayMode;
+  };
+  // Default handles of doors and drawer fronts (zones may set their own)
+  handles?: {
+    door?: HandleConfig;
+    drawer?: HandleConfig;
   };
+  // Shelf-pin line boring of side panels for adjustable shelves
+  shelfPins?: ShelfPinConfig;
   // Material defaults
   materials: {
     carcassMaterialId?: string;
@@ -775,6 +1247,11 @@ export interface RuleSet {
     drawerDepthClearance?: number; // Clearance behind drawer for slides/cables (default: 50mm)
     drawerBoxHeightClearance?: number; // Clearance above drawer box for slide operation (default: 30mm)
     shelfFitClearance?: number; // Small gap for shelf insertion (default: 2mm)
+    drawerBottomGrooveDepth?: number; // Bottom-in-groove drawers: groove depth in sides, front and back (default: 6mm)
+    drawerBottomGrooveOffset?: number; // Bottom-in-groove drawers: groove distance from the bottom edge (default: 10mm)
+    metalDrawerBottomDeduction?: number; // Metal-sided drawers: opening width minus bottom width (default: 75mm)
+    metalDrawerBackDeduction?: number; // Metal-sided drawers: opening width minus back width (default: 87mm)
+    metalDrawerBottomDepthDeduction?: number; // Metal-sided drawers: box length minus bottom length (default: 24mm)
     backPanelThickness: number;
     backGrooveDepth: number;
   };
@@ -807,6 +1284,19 @@ export interface ExportOptions {
 // COSTING
 // ============================================
 
+/**
+ * Waste, labour and markup applied when estimating a project's cost
+ */
+export interface CostSettings {
+  wasteFactor?: number; // Board area added for offcuts and saw waste (0.1 = 10%)
+  laborRate?: number; // €/hour
+  laborHoursPerCabinet?: number;
+  markup?: number; // Added over the subtotal (0.3 = 30%)
+}
+
+/**
+ * Estimated cost of a project. Areas in m², lengths in m, costs in €.
+ */
 export interface ProjectCost {
   materials: {
     materialId: string;
@@ -836,12 +1326,45 @@ export interface ProjectCost {
     unitCost: number;
     totalCost: number;
   }[];
-  labor?: number;
-  markup?: number;
+  labor?: number; // Labour cost, included in the subtotal
+  markup?: number; // Markup amount over the subtotal
   subtotal: number;
   total: number;
 }
 
+// ============================================
+// QUOTATION
+// ============================================
+
+/**
+ * Company details, pricing and terms printed on client quotations
+ */
+export interface QuoteSettings {
+  companyName?: string;
+  companyAddress?: string;
+  companyPhone?: string;
+  companyEmail?: string;
+  companyTaxId?: string; // NIF
+  logoUrl?: string;
+  accentColor?: string; // Hex colour of headings and rules
+  pricing?: 'line-items' | 'lump-sum';
+  vatRate?: number; // 0.23 = 23%
+  validityDays?: number;
+  terms?: string;
+}
+
+/**
+ * Priced line of a quotation (before VAT)
+ */
+export interface QuoteLine {
+  description: string;
+  details?: string;
+  cabinetId?: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+}
+
 // ============================================
 // DEFAULT VALIDATION RULES
 // ============================================
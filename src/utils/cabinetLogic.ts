@@ -1,4 +1,5 @@
 import type {
+  CabinetInstance,
   CabinetPattern,
   CutPart,
   GlobalSettings,
@@ -8,69 +9,117 @@ import type {
   Material,
   JointType,
   JointConfig,
+  HardwareItem,
+  ExpressionDiagnostic,
+  PartCalculationResult,
+  PartCalculationOptions,
+  PatternZone,
+  PartRule,
+  PartRole,
+  JointAdjustmentTrace,
+  BandingDeductionTrace,
+  BackPanelConfig,
+  FrontStyle,
 } from '../types';
+import { parseExpression, evaluateExpressionNode, getExpressionIdentifiers, ExpressionError } from './expression';
+import { generateZonePartRules, getZoneOrdinalKey } from './zoneRules';
+import { selectDrawerSlide, getDrawerSlideFit, getZoneVariablePrefix } from './drawerSlides';
+import { getFrontOverlays, resolveDoorOverlayMode } from './frontOverlay';
+import { addFrontStyleVariables, applyFrontStyleRules, getRaisedPanelMachining } from './frontStyles';
+import { getGrooveMachining, getJointMachining } from './machining';
+import type { ZoneLayoutExpressions } from './zoneRules';
 
 // ============================================
 // Safe Expression Evaluator
 // ============================================
 
 /**
- * Safely evaluates arithmetic expressions with variable substitution.
- * Only allows basic math operations: +, -, *, /, (), and numbers.
+ * Result of evaluating a single expression with diagnostics
  */
-export function evaluateExpression(
+export interface ExpressionEvaluation {
+  value: number;
+  diagnostic?: ExpressionDiagnostic;
+}
+
+/**
+ * Evaluates a rule expression against the given context: arithmetic, comparisons,
+ * boolean operators, ternaries and the function library in ./expression (ceil, floor,
+ * round, min, max, if, ...), with variables matched as whole identifiers.
+ * Parse/evaluation problems are reported as a structured diagnostic instead of logging them.
+ * On failure the value is 0 and `diagnostic` describes what went wrong.
+ */
+export function evaluateExpressionWithDiagnostics(
   expression: string | number,
   context: ExpressionContext
-): number {
+): ExpressionEvaluation {
   // If it's already a number, return it
   if (typeof expression === 'number') {
-    return expression;
-  }
-
-  // Replace variable names with their values
-  let processedExpr = expression.toLowerCase().trim();
-
-  // Sort keys by length (longest first) to avoid partial replacements
-  const sortedKeys = Object.keys(context).sort((a, b) => b.length - a.length);
-
-  for (const key of sortedKeys) {
-    const value = context[key];
-    if (value !== undefined) {
-      // Replace all occurrences of the variable
-      const regex = new RegExp(key.replace(/_/g, '_'), 'gi');
-      processedExpr = processedExpr.replace(regex, String(value));
-    }
-  }
-
-  // Validate that only safe characters remain
-  const safePattern = /^[\d\s+\-*/().]+$/;
-  if (!safePattern.test(processedExpr)) {
-    console.warn(`Unsafe expression detected: ${expression} -> ${processedExpr}`);
-    return 0;
+    return { value: expression };
   }
 
+  const source = expression.trim();
   try {
-    // Use Function constructor for safe evaluation (no access to scope)
-    const result = new Function(`"use strict"; return (${processedExpr})`)();
-    return typeof result === 'number' && !isNaN(result) ? Math.round(result * 100) / 100 : 0;
+    const result = evaluateExpressionNode(parseExpression(source), context);
+    if (!Number.isFinite(result)) {
+      return {
+        value: 0,
+        diagnostic: {
+          kind: 'invalid-result',
+          severity: 'error',
+          message: `Resultado inválido (${result})`,
+          expression: source,
+        },
+      };
+    }
+    return { value: Math.round(result * 100) / 100 };
   } catch (error) {
-    console.warn(`Expression evaluation failed: ${expression}`, error);
-    return 0;
+    if (error instanceof ExpressionError) {
+      return {
+        value: 0,
+        diagnostic: {
+          kind: error.kind,
+          severity: 'error',
+          message: error.message,
+          expression: source,
+          column: error.column,
+          identifier: error.identifier,
+        },
+      };
+    }
+    throw error;
   }
 }
 
+/**
+ * Drops repeated diagnostics: the same problem found more than once, e.g. a part
+ * rule condition evaluated by both the part and the hardware calculators
+ */
+export function uniqueDiagnostics(diagnostics: ExpressionDiagnostic[]): ExpressionDiagnostic[] {
+  const keys = new Set<string>();
+  return diagnostics.filter((diagnostic) => {
+    const key = JSON.stringify(diagnostic);
+    if (keys.has(key)) return false;
+    keys.add(key);
+    return true;
+  });
+}
+
 // ============================================
 // Expression Context Builder
 // ============================================
 
 /**
- * Builds the context object for expression evaluation
+ * Builds the context object for expression evaluation.
+ * A back panel configuration (see resolveBackPanelConfig()) replaces the rule set's
+ * back panel method for the back_* variables.
  */
 export function buildExpressionContext(
   dimensions: { height: number; width: number; depth: number },
   settings: GlobalSettings,
   pattern: CabinetPattern,
-  ruleSet?: RuleSet
+  ruleSet?: RuleSet,
+  columnProportions?: number[],
+  backPanel?: BackPanelConfig
 ): ExpressionContext {
   const { height, width, depth } = dimensions;
   const { backPanelGrooveDepth, defaultEdgeBanding } = settings;
@@ -85,6 +134,7 @@ export function buildExpressionContext(
   const backPanelThickness = pattern.materials?.back?.thickness ?? settings.backPanelThickness;
   const frontThickness = pattern.materials?.front?.thickness ?? materialThickness;
   const shelfThickness = pattern.materials?.shelf?.thickness ?? materialThickness;
+  const drawerThickness = pattern.materials?.drawer?.thickness ?? materialThickness;
 
   // Count zone types
   // For column-based patterns, count zones from all columns
@@ -109,8 +159,7 @@ export function buildExpressionContext(
   // Get construction method from ruleSet or use defaults
   const sideConstruction = ruleSet?.construction.sideConstruction || 'sides-on-bottom';
   const backPanelMethod = ruleSet?.construction.backPanelMethod || 'overlay';
-  // drawerConstruction reserved for future drawer box calculations
-  void ruleSet?.construction.drawerConstruction;
+  const drawerConstruction = ruleSet?.construction.drawerConstruction || 'sides-on-bottom';
 
   // Calculate dimensions based on construction method
   // For "sides-on-bottom": sides are full height, bottom fits between sides
@@ -146,13 +195,38 @@ export function buildExpressionContext(
       topWidth = width - 2 * materialThickness;
   }
 
-  // Back panel dimensions based on method
-  const backWidth = backPanelMethod === 'overlay' 
-    ? width - 2 * materialThickness 
-    : width - 2 * materialThickness - 2 * backPanelGrooveDepth;
-  const backHeight = backPanelMethod === 'overlay'
-    ? height - 2 * materialThickness
-    : height - 2 * materialThickness - 2 * backPanelGrooveDepth;
+  // Back panel thickness and groove: back panel config > rule set > pattern/global
+  const backThickness = backPanel?.thickness || ruleSet?.offsets.backPanelThickness || backPanelThickness;
+  const backGroove = backPanel?.grooveDepth ?? (ruleSet?.offsets.backGrooveDepth || backPanelGrooveDepth);
+
+  // Back panel dimensions based on the back panel config, or the rule set method
+  let backWidth: number;
+  let backHeight: number;
+  switch (backPanel?.type) {
+    case 'full-overlay':
+      // Nailed/screwed over the back edges of the carcass
+      backWidth = width;
+      backHeight = height;
+      break;
+    case 'full-inset':
+      // Sits in grooves cut into the carcass panels
+      backWidth = width - 2 * materialThickness + 2 * backGroove;
+      backHeight = height - 2 * materialThickness + 2 * backGroove;
+      break;
+    case 'rail-system':
+    case 'none':
+      // Rails only, or open back: no back panel
+      backWidth = 0;
+      backHeight = 0;
+      break;
+    default:
+      backWidth = backPanelMethod === 'overlay'
+        ? width - 2 * materialThickness
+        : width - 2 * materialThickness - 2 * backPanelGrooveDepth;
+      backHeight = backPanelMethod === 'overlay'
+        ? height - 2 * materialThickness
+        : height - 2 * materialThickness - 2 * backPanelGrooveDepth;
+  }
 
   // RuleSet offsets
   const drawerFrontGap = ruleSet?.offsets.drawerFrontGap || 3;
@@ -166,6 +240,13 @@ export function buildExpressionContext(
   const drawerBoxHeightClearance = ruleSet?.offsets.drawerBoxHeightClearance || 30; // Above drawer box for slides
   const shelfFitClearance = ruleSet?.offsets.shelfFitClearance || 2; // Small gap for shelf insertion
 
+  // Drawer box construction: bottom groove (bottom-in-groove) and metal drawer system deductions (metal-sided)
+  const drawerBottomGrooveDepth = ruleSet?.offsets.drawerBottomGrooveDepth || 6;
+  const drawerBottomGrooveOffset = ruleSet?.offsets.drawerBottomGrooveOffset || 10;
+  const metalDrawerBottomDeduction = ruleSet?.offsets.metalDrawerBottomDeduction || 75;
+  const metalDrawerBackDeduction = ruleSet?.offsets.metalDrawerBackDeduction || 87;
+  const metalDrawerBottomDepthDeduction = ruleSet?.offsets.metalDrawerBottomDepthDeduction || 24;
+
   // Build base context
   const context: ExpressionContext = {
     // Raw dimensions
@@ -179,8 +260,9 @@ export function buildExpressionContext(
     carcass_thickness: materialThickness,
     front_thickness: frontThickness,
     shelf_thickness: shelfThickness,
-    back_thickness: ruleSet?.offsets.backPanelThickness || backPanelThickness,
-    back_groove: ruleSet?.offsets.backGrooveDepth || backPanelGrooveDepth,
+    drawer_thickness: drawerThickness,
+    back_thickness: backThickness,
+    back_groove: backGroove,
     edge_banding: defaultEdgeBanding,
 
     // Construction-aware dimensions
@@ -190,6 +272,12 @@ export function buildExpressionContext(
     back_width: backWidth,
     back_height: backHeight,
 
+    // Back panel config (see applyBackPanelRules())
+    has_back: backPanel?.type === 'none' || backPanel?.type === 'rail-system' ? 0 : 1,
+    back_groove_offset: backPanel?.grooveFromEdge ?? DEFAULT_BACK_GROOVE_OFFSET,
+    back_rail_width: backPanel?.railWidth ?? DEFAULT_BACK_RAIL_WIDTH,
+    back_rail_count: backPanel?.type === 'rail-system' ? getBackRailPositions(backPanel).length : 0,
+
     // Calculated internals
     internal_width: width - 2 * materialThickness,
     internal_height: height - 2 * materialThickness,
@@ -204,6 +292,17 @@ export function buildExpressionContext(
     drawer_box_height_clearance: drawerBoxHeightClearance,
     shelf_fit_clearance: shelfFitClearance,
 
+    // Drawer construction (flags select the drawer box parts, see generateZonePartRules())
+    drawer_sides_on_bottom: drawerConstruction === 'sides-on-bottom' ? 1 : 0,
+    drawer_bottom_in_groove: drawerConstruction === 'bottom-in-groove' ? 1 : 0,
+    drawer_metal_sided: drawerConstruction === 'metal-sided' ? 1 : 0,
+    drawer_bottom_thickness: pattern.materials?.back?.thickness ?? backThickness,
+    drawer_bottom_groove_depth: drawerBottomGrooveDepth,
+    drawer_bottom_groove_offset: drawerBottomGrooveOffset,
+    metal_drawer_bottom_deduction: metalDrawerBottomDeduction,
+    metal_drawer_back_deduction: metalDrawerBackDeduction,
+    metal_drawer_bottom_depth_deduction: metalDrawerBottomDepthDeduction,
+
     // Zone counts
     drawer_count: drawerCount,
     door_count: doorCount,
@@ -217,13 +316,14 @@ export function buildExpressionContext(
   };
 
   // Add column width variables (for column-based patterns)
+  // Columns share the internal width left after the vertical dividers between them
   if (pattern.columns && pattern.columns.length > 0) {
-    const internalWidth = width - 2 * materialThickness;
-    const columnProportions = pattern.columnProportions || pattern.columns.map(() => 1 / pattern.columns!.length);
+    const columnCount = pattern.columns.length;
+    const availableWidth = width - 2 * materialThickness - (columnCount - 1) * materialThickness;
+    const proportions = resolveProportions(columnProportions ?? pattern.columnProportions, columnCount);
     
     pattern.columns.forEach((column, index) => {
-      const proportion = columnProportions[index] || (1 / pattern.columns!.length);
-      const colWidth = Math.round(internalWidth * proportion);
+      const colWidth = Math.round(availableWidth * proportions[index]);
       // Add column widths as variables (e.g., column_0_width, column_1_width)
       context[`column_${index}_width`] = colWidth;
       // Also use column id if available
@@ -231,16 +331,128 @@ export function buildExpressionContext(
     });
   }
 
-  // Add pattern-specific variables
-  if (pattern.variables) {
-    Object.entries(pattern.variables).forEach(([key, value]) => {
-      context[key] = value;
-    });
-  }
+  // Add pattern-specific variables (constants and derived expressions)
+  Object.assign(context, resolvePatternVariables(pattern.variables, context).values);
 
   return context;
 }
 
+/**
+ * Normalizes a list of proportions so it sums to 1. Falls back to an equal split
+ * when the list is missing, has the wrong length or contains invalid values
+ * (e.g. proportions saved before columns or zones were added to the pattern).
+ */
+export function resolveProportions(proportions: number[] | undefined, count: number): number[] {
+  const equal = Array<number>(count).fill(1 / (count || 1));
+  if (!proportions || proportions.length !== count) return equal;
+  if (proportions.some((p) => !Number.isFinite(p) || p <= 0)) return equal;
+
+  const sum = proportions.reduce((a, b) => a + b, 0);
+  return proportions.map((p) => p / sum);
+}
+
+// ============================================
+// Pattern Variable Resolution
+// ============================================
+
+/**
+ * Resolves pattern variables against a context. Constant variables are used
+ * as-is; expression variables are evaluated in dependency order so they can
+ * reference each other (e.g. drawer_box_width = drawer_inner_width - 2 * thickness).
+ *
+ * Circular references are reported as 'circular-dependency' diagnostics and the
+ * variables involved resolve to 0.
+ *
+ * @param variables - Pattern variables (number or expression string)
+ * @param context - Base expression context
+ * @param overrides - Instance values; overridden variables are not evaluated
+ * @returns Resolved values and any diagnostics, tagged with the variable name
+ */
+export function resolvePatternVariables(
+  variables: CabinetPattern['variables'],
+  context: ExpressionContext,
+  overrides?: Record<string, number>
+): { values: Record<string, number>; diagnostics: ExpressionDiagnostic[] } {
+  const values: Record<string, number> = {};
+  const diagnostics: ExpressionDiagnostic[] = [];
+  if (!variables) return { values, diagnostics };
+
+  // Constant and overridden variables need no evaluation
+  const pending = new Map<string, string>();
+  for (const [name, value] of Object.entries(variables)) {
+    if (overrides?.[name] !== undefined) {
+      values[name] = overrides[name];
+    } else if (typeof value === 'number') {
+      values[name] = value;
+    } else {
+      pending.set(name, value.trim());
+    }
+  }
+
+  const scope: ExpressionContext = { ...context, ...values };
+  const state = new Map<string, 'visiting' | 'done'>();
+  const findPending = (identifier: string) =>
+    pending.has(identifier) ? identifier : pending.has(identifier.toLowerCase()) ? identifier.toLowerCase() : undefined;
+
+  const settle = (name: string, value: number) => {
+    state.set(name, 'done');
+    values[name] = value;
+    scope[name] = value;
+  };
+
+  // Depth-first resolution; `path` is the chain of variables being resolved
+  const resolve = (name: string, path: string[]): void => {
+    if (state.get(name) === 'done') return;
+
+    if (state.get(name) === 'visiting') {
+      const cycle = [...path.slice(path.indexOf(name)), name];
+      for (const member of new Set(cycle)) {
+        if (state.get(member) === 'done') continue;
+        diagnostics.push({
+          kind: 'circular-dependency',
+          severity: 'error',
+          message: `Dependência circular: ${cycle.join(' → ')}`,
+          expression: pending.get(member) ?? '',
+          variable: member,
+          field: 'variable',
+        });
+        settle(member, 0);
+      }
+      return;
+    }
+
+    state.set(name, 'visiting');
+    const source = pending.get(name)!;
+
+    let dependencies: string[] = [];
+    try {
+      dependencies = getExpressionIdentifiers(parseExpression(source))
+        .map(findPending)
+        .filter((dep): dep is string => dep !== undefined);
+    } catch {
+      // Syntax errors are reported by the evaluation below
+    }
+    for (const dependency of dependencies) {
+      resolve(dependency, [...path, name]);
+    }
+
+    // Already settled if it was part of a cycle
+    if (state.get(name) === 'done') return;
+
+    const { value, diagnostic } = evaluateExpressionWithDiagnostics(source, scope);
+    if (diagnostic) {
+      diagnostics.push({ ...diagnostic, variable: name, field: 'variable' });
+    }
+    settle(name, value);
+  };
+
+  for (const name of pending.keys()) {
+    resolve(name, []);
+  }
+
+  return { values, diagnostics };
+}
+
 // ============================================
 // Material Thickness Resolution
 // ============================================
@@ -263,6 +475,106 @@ export function getMaterialThickness(
   return material?.thickness ?? fallbackThickness;
 }
 
+type MaterialRole = 'carcass' | 'front' | 'back' | 'drawer' | 'shelf';
+
+// Material slot (in pattern and rule set materials) each part role is cut from
+const PART_MATERIAL_ROLES: Record<PartRole, MaterialRole> = {
+  carcass: 'carcass',
+  back: 'back',
+  shelf: 'shelf',
+  door: 'front',
+  'drawer-front': 'front',
+  'drawer-box': 'drawer',
+  'drawer-bottom': 'back', // Thin sheet stock, like back panels
+};
+
+const DEFAULT_GLASS_THICKNESS = 4;
+
+// Context variable holding the default thickness of each material slot
+const ROLE_THICKNESS_VARIABLES: Record<MaterialRole, string> = {
+  carcass: 'material_thickness',
+  front: 'front_thickness',
+  back: 'back_thickness',
+  drawer: 'drawer_thickness',
+  shelf: 'shelf_thickness',
+};
+
+/**
+ * Resolves the material of a part and its thickness.
+ *
+ * Material precedence:
+ * 1. Instance override (materialOverrides by rule id or part name)
+ * 2. Material of the zone the part belongs to (zone options or zone override)
+ * 3. Rule's own materialId
+ * 4. Pattern material for the part role (pattern.materials)
+ * 5. Rule set material for the part role (ruleSet.materials)
+ * 6. Global default material (not for back panels and drawer bottoms, which are never cut
+ *    from the main board)
+ *
+ * Thickness comes from the material library. A pattern role material may set its
+ * own thickness; parts without a known material use the role thickness from the context.
+ * Back panels take the back panel config's material and thickness over the pattern and
+ * rule set ones; drawer bottoms take the back material of the pattern or rule set, not the
+ * back panel config's nor the zone's. Glass in framed fronts is not cut from board: it only has a material
+ * when one is given for it.
+ */
+export function resolvePartMaterial(
+  rule: PartRule,
+  sources: {
+    pattern: CabinetPattern;
+    ruleSet?: RuleSet;
+    globalSettings: GlobalSettings;
+    materials: Material[];
+    materialOverrides?: Record<string, string>;
+    zoneMaterialId?: string;
+    backPanel?: BackPanelConfig;
+    context: ExpressionContext;
+  }
+): { materialId?: string; thickness: number } {
+  const { pattern, ruleSet, globalSettings, materials, materialOverrides, zoneMaterialId, backPanel, context } = sources;
+  const materialRole = rule.role ? PART_MATERIAL_ROLES[rule.role] : undefined;
+  const patternRoleMaterial = rule.role === 'back' && backPanel?.materialId
+    ? { materialId: backPanel.materialId, thickness: backPanel.thickness }
+    : materialRole ? pattern.materials?.[materialRole] : undefined;
+  const fallbackThickness =
+    (materialRole ? context[ROLE_THICKNESS_VARIABLES[materialRole]] : undefined) ?? context.material_thickness;
+
+  if (rule.frontComponent?.kind === 'glass') {
+    const glassId = materialOverrides?.[rule.id] ?? rule.materialId;
+    return { materialId: glassId, thickness: getMaterialThickness(glassId, materials, DEFAULT_GLASS_THICKNESS) };
+  }
+
+  const specificMaterialId =
+    materialOverrides?.[rule.id] ??
+    materialOverrides?.[rule.partName] ??
+    zoneMaterialId ??
+    rule.materialId;
+  if (specificMaterialId) {
+    return { materialId: specificMaterialId, thickness: getMaterialThickness(specificMaterialId, materials, fallbackThickness) };
+  }
+
+  if (patternRoleMaterial?.materialId) {
+    return {
+      materialId: patternRoleMaterial.materialId,
+      thickness: patternRoleMaterial.thickness || getMaterialThickness(patternRoleMaterial.materialId, materials, fallbackThickness),
+    };
+  }
+
+  const materialId =
+    (materialRole ? ruleSet?.materials[`${materialRole}MaterialId`] : undefined) ??
+    (materialRole !== 'back' ? globalSettings.defaultMaterialId : undefined);
+  return { materialId, thickness: getMaterialThickness(materialId, materials, fallbackThickness) };
+}
+
+/**
+ * Thickness of the parts of a role that take the role's material (pattern, rule set
+ * or global default), e.g. to size drawer box parts from one another
+ */
+function getRoleThickness(role: PartRole, sources: Parameters<typeof resolvePartMaterial>[1]): number {
+  const roleRule: PartRule = { id: '', partName: '', lengthExpression: '', widthExpression: '', quantityExpression: '', role };
+  return resolvePartMaterial(roleRule, sources).thickness;
+}
+
 /**
  * Resolves edge banding thickness from the materials library.
  *
@@ -281,6 +593,66 @@ export function getEdgeBandingThickness(
   return material?.thickness ?? fallbackThickness;
 }
 
+// ============================================
+// Edge Banding Resolution
+// ============================================
+
+type BandedEdges = Partial<Record<'length1' | 'length2' | 'width1' | 'width2', boolean>>;
+
+// Short edge codes used in cut list exports
+const EDGE_CODES = { length1: 'L1', length2: 'L2', width1: 'W1', width2: 'W2' } as const;
+
+/**
+ * Edges a rule set bands for a part role. Part edges follow the JointConfig
+ * convention: length1 is the front edge, length2 the back, width1/width2 the
+ * ends (top/bottom of a side, left/right of a shelf). For fronts, 'front-only'
+ * bands the first length edge only.
+ *
+ * Back panels and drawer box parts have no rule set banding.
+ */
+export function getRuleSetEdgeBanding(role: PartRole | undefined, ruleSet: RuleSet | undefined): BandedEdges {
+  if (!role || !ruleSet?.edgeBanding) return {};
+  const { carcassEdges, shelfEdges, doorEdges, drawerFrontEdges } = ruleSet.edgeBanding;
+
+  switch (role) {
+    case 'carcass':
+      return {
+        length1: carcassEdges.includes('front'),
+        length2: carcassEdges.includes('back'),
+        width1: carcassEdges.includes('top'),
+        width2: carcassEdges.includes('bottom'),
+      };
+    case 'shelf':
+      return {
+        length1: shelfEdges.includes('front'),
+        length2: shelfEdges.includes('back'),
+        width1: shelfEdges.includes('left'),
+        width2: shelfEdges.includes('right'),
+      };
+    case 'door':
+    case 'drawer-front': {
+      const edges = role === 'door' ? doorEdges : drawerFrontEdges;
+      const all = edges.includes('all');
+      return { length1: all || edges.includes('front-only'), length2: all, width1: all, width2: all };
+    }
+    default:
+      return {};
+  }
+}
+
+/**
+ * Resolves which edges of a part are banded: the rule's own per-edge flags
+ * override the rule set's banding for the part role.
+ */
+export function resolveEdgeBanding(rule: PartRule, ruleSet: RuleSet | undefined): BandedEdges {
+  const defaults = getRuleSetEdgeBanding(rule.role, ruleSet);
+  const banded: BandedEdges = {};
+  for (const edge of ['length1', 'length2', 'width1', 'width2'] as const) {
+    banded[edge] = Boolean(rule.edgeBanding?.[edge] ?? defaults[edge]);
+  }
+  return banded;
+}
+
 // ============================================
 // Joint Dimension Calculator
 // ============================================
@@ -306,93 +678,331 @@ export function calculateJointAdjustments(
   let lengthAdjustment = 0;
   let widthAdjustment = 0;
 
-  if (!joints) {
-    return { lengthAdjustment, widthAdjustment };
+  for (const adjustment of traceJointAdjustments(joints, jointTypes)) {
+    // Width edges are at the ends of the length, so they affect the length dimension;
+    // length edges are at the ends of the width, so they affect the width dimension
+    if (adjustment.edge === 'width1' || adjustment.edge === 'width2') {
+      lengthAdjustment += adjustment.amount;
+    } else {
+      widthAdjustment += adjustment.amount;
+    }
   }
 
-  // Helper to calculate adjustment for a single edge
-  const getEdgeAdjustment = (
-    edgeConfig: JointConfig['length1'],
-    jointTypes: JointType[]
-  ): number => {
-    if (!edgeConfig) return 0;
+  return { lengthAdjustment, widthAdjustment };
+}
+
+/**
+ * Lists the joint adjustment of each configured edge of a part,
+ * including receiving edges (amount 0) so they show up in the trace.
+ * See calculateJointAdjustments() for the rules applied.
+ */
+export function traceJointAdjustments(
+  joints: JointConfig | undefined,
+  jointTypes: JointType[]
+): JointAdjustmentTrace[] {
+  const adjustments: JointAdjustmentTrace[] = [];
+  if (!joints) return adjustments;
+
+  const edges = ['length1', 'length2', 'width1', 'width2'] as const;
+  for (const edge of edges) {
+    const edgeConfig = joints[edge];
+    if (!edgeConfig) continue;
 
     const jointType = jointTypes.find((jt) => jt.id === edgeConfig.jointTypeId);
     if (!jointType) {
       console.warn(`Joint type not found: ${edgeConfig.jointTypeId}`);
-      return 0;
+      continue;
     }
 
+    let amount = 0;
     // Only 'inserted' parts get dimensional adjustments
-    if (edgeConfig.role !== 'inserted') {
-      return 0;
+    if (edgeConfig.role === 'inserted') {
+      // Use override depth if provided, otherwise use joint type's default
+      const depth = edgeConfig.depthOverride ?? jointType.depth;
+      const tolerance = jointType.tolerance ?? 0;
+      // Piece extends into the joint: add depth minus tolerance;
+      // otherwise only apply negative tolerance for fit
+      amount = jointType.extendsInsertedPiece ? depth - tolerance : -tolerance;
     }
 
-    // Use override depth if provided, otherwise use joint type's default
-    const depth = edgeConfig.depthOverride ?? jointType.depth;
-    const tolerance = jointType.tolerance ?? 0;
+    adjustments.push({
+      edge,
+      jointTypeId: jointType.id,
+      jointTypeName: jointType.name,
+      role: edgeConfig.role,
+      amount,
+    });
+  }
 
-    if (jointType.extendsInsertedPiece) {
-      // Piece extends into the joint, add depth minus tolerance
-      return depth - tolerance;
-    } else {
-      // Joint doesn't extend piece, only apply negative tolerance for fit
-      return -tolerance;
+  return adjustments;
+}
+
+/**
+ * Picks the values of the variables referenced by an expression from a context
+ * (used to show substituted values in the provenance trace)
+ */
+export function getExpressionVariables(
+  expression: string,
+  context: ExpressionContext
+): Record<string, number> {
+  const variables: Record<string, number> = {};
+  try {
+    for (const name of getExpressionIdentifiers(parseExpression(expression.trim()))) {
+      const value = context[name] ?? context[name.toLowerCase()];
+      if (value !== undefined) variables[name] = value;
     }
+  } catch {
+    // Invalid expressions have no variables to show
+  }
+  return variables;
+}
+
+// ============================================
+// Zone Overrides
+// ============================================
+
+/**
+ * Merges a cabinet instance's zone overrides into its pattern's zones, so one
+ * zone of a stock pattern can become a drawer instead of a door, or get its own
+ * material or hinge side, without forking the pattern.
+ *
+ * Part rules linked to a zone whose type was overridden describe the old type,
+ * so they are replaced with rules generated for the new type. Likewise, generated
+ * door leaves (as saved by the PatternEditor) are regenerated when the hinge type is
+ * overridden, for the new hinge side or number of leaves.
+ *
+ * @returns The pattern as seen by this instance (the original if nothing is overridden)
+ */
+export function applyZoneOverrides(
+  pattern: CabinetPattern,
+  zoneOverrides?: Record<string, Partial<PatternZone>>
+): CabinetPattern {
+  if (!zoneOverrides || Object.keys(zoneOverrides).length === 0) return pattern;
+
+  const mergeZone = (zone: PatternZone): PatternZone => {
+    const override = zoneOverrides[zone.id];
+    if (!override) return zone;
+    return {
+      ...zone,
+      ...override,
+      id: zone.id,
+      options: { ...zone.options, ...override.options },
+    };
   };
 
-  // Calculate length adjustments (from width1/width2 edges - they affect the length dimension)
-  // Width edges are at the ends of the length
-  lengthAdjustment += getEdgeAdjustment(joints.width1, jointTypes);
-  lengthAdjustment += getEdgeAdjustment(joints.width2, jointTypes);
+  const columns = pattern.columns?.map((column) => ({ ...column, zones: column.zones.map(mergeZone) }));
+  const zones = pattern.zones.map(mergeZone);
+  const merged = { ...pattern, columns, zones };
 
-  // Calculate width adjustments (from length1/length2 edges - they affect the width dimension)
-  // Length edges are at the ends of the width
-  widthAdjustment += getEdgeAdjustment(joints.length1, jointTypes);
-  widthAdjustment += getEdgeAdjustment(joints.length2, jointTypes);
+  const originalZones = new Map(
+    [...pattern.zones, ...(pattern.columns ?? []).flatMap((column) => column.zones)].map((zone) => [zone.id, zone])
+  );
 
-  return { lengthAdjustment, widthAdjustment };
+  let partRules = pattern.partRules;
+  for (const { zone, layout, ordinal } of getZoneLayouts(merged)) {
+    const original = originalZones.get(zone.id);
+    if (original?.type === zone.type) {
+      if (zone.type !== 'door' || original.options?.hingeType === zone.options?.hingeType) continue;
+
+      // Door leaves edited by hand (other rule ids) are kept as they are
+      const generatedIds = new Set(generateZonePartRules(original, layout, ordinal).map((rule) => rule.id));
+      const zoneRules = partRules.filter((rule) => rule.zoneId === zone.id);
+      if (zoneRules.length === 0 || !zoneRules.every((rule) => generatedIds.has(rule.id))) continue;
+    }
+
+    partRules = [
+      ...partRules.filter((rule) => rule.zoneId !== zone.id),
+      ...generateZonePartRules(zone, layout, ordinal),
+    ];
+  }
+
+  return { ...merged, partRules };
+}
+
+/**
+ * Adds generated part rules for the zones of a pattern with generateZoneParts
+ * set that have no part rules of their own.
+ */
+export function applyZonePartRules(pattern: CabinetPattern): CabinetPattern {
+  if (!pattern.generateZoneParts) return pattern;
+
+  const linkedZoneIds = new Set(pattern.partRules.map((rule) => rule.zoneId));
+  const generated = getZoneLayouts(pattern)
+    .filter(({ zone }) => !linkedZoneIds.has(zone.id))
+    .flatMap(({ zone, layout, ordinal }) => generateZonePartRules(zone, layout, ordinal));
+
+  return generated.length > 0 ? { ...pattern, partRules: [...pattern.partRules, ...generated] } : pattern;
+}
+
+/**
+ * The pattern as built for one cabinet instance: zone overrides merged in and
+ * zone parts generated. Used by the part calculator and the visualizations.
+ */
+export function resolveInstancePattern(
+  pattern: CabinetPattern,
+  zoneOverrides?: Record<string, Partial<PatternZone>>
+): CabinetPattern {
+  return applyZonePartRules(applyZoneOverrides(pattern, zoneOverrides));
+}
+
+/**
+ * Lists the zones of a pattern with the context expressions for their opening
+ * (column width, zone height) and their number among zones of the same type,
+ * in the order the PatternEditor numbers them.
+ */
+export function getZoneLayouts(
+  pattern: CabinetPattern
+): { zone: PatternZone; layout: ZoneLayoutExpressions; ordinal: number }[] {
+  const columns = pattern.columns ?? [];
+  const layouts = columns.length > 0
+    ? columns.flatMap((column, colIdx) => column.zones.map((zone, zoneIdx) => ({
+        zone,
+        layout: {
+          widthExpression: columns.length > 1 ? `column_${colIdx}_width` : 'internal_width',
+          heightExpression: `col_${colIdx}_zone_${zoneIdx}_height`,
+        },
+      })))
+    : pattern.zones.map((zone, index) => ({
+        zone,
+        layout: { widthExpression: 'internal_width', heightExpression: `zone_${index}_height` },
+      }));
+
+  const ordinals: Record<string, number> = {};
+  return layouts.map((entry) => {
+    const key = getZoneOrdinalKey(entry.zone);
+    ordinals[key] = (ordinals[key] ?? 0) + 1;
+    return { ...entry, ordinal: ordinals[key] };
+  });
 }
 
 // ============================================
-// Main Part Calculator
+// Back Panel
 // ============================================
 
+const DEFAULT_BACK_GROOVE_OFFSET = 10; // mm from the back edge of the carcass to the groove
+const DEFAULT_BACK_RAIL_WIDTH = 80;
+
+const BACK_RAIL_NAMES: Record<'top' | 'bottom' | 'middle', string> = {
+  top: 'Travessa Traseira Superior',
+  bottom: 'Travessa Traseira Inferior',
+  middle: 'Travessa Traseira Intermédia',
+};
+
 /**
- * Calculates all cut parts for a cabinet based on pattern rules and dimensions.
- * This is the core "logic engine" that processes pattern rules into concrete parts.
- * The ruleSet determines construction method and affects part dimensions.
+ * Resolves the back panel of a cabinet: instance config > pattern config > global default.
+ * Undefined when none is set, in which case the rule set's back panel method applies.
  *
- * Dimension calculation order:
- * 1. Base dimension from expression evaluation
- * 2. + Joint adjustments (extensions for inserted pieces in dados, etc.)
- * 3. - Edge banding adjustments (reduce cut size so banded part matches design)
- *
- * Edge banding adjustment:
- * When edge banding is applied to a part, the cut dimension is reduced by the banding
- * thickness so the final banded dimension matches the design intent.
- * - Length is reduced for L1/L2 banding
- * - Width is reduced for W1/W2 banding
+ * @param instanceConfig - The instance's backPanelConfig (or its older backPanel field)
+ */
+export function resolveBackPanelConfig(
+  instanceConfig: BackPanelConfig | undefined,
+  pattern: CabinetPattern,
+  globalSettings: GlobalSettings
+): BackPanelConfig | undefined {
+  return instanceConfig ?? pattern.backPanelConfig ?? globalSettings.defaultBackPanelConfig;
+}
+
+/**
+ * Rails of a rail-system back (top and bottom unless positions are given)
+ */
+function getBackRailPositions(config: BackPanelConfig): ('top' | 'bottom' | 'middle')[] {
+  return config.railPositions && config.railPositions.length > 0 ? config.railPositions : ['top', 'bottom'];
+}
+
+/**
+ * Adapts a pattern's part rules to a back panel config: 'none' and 'rail-system'
+ * drop the back panel parts, and 'rail-system' adds one rail per rail position,
+ * fitted between the sides. Rails take the back's material like the back panel would
+ * (back panel config, then pattern and rule set back materials, see resolvePartMaterial()).
+ */
+export function applyBackPanelRules(pattern: CabinetPattern, config: BackPanelConfig | undefined): CabinetPattern {
+  if (config?.type !== 'none' && config?.type !== 'rail-system') return pattern;
+
+  const partRules = pattern.partRules.filter((rule) => rule.role !== 'back');
+  if (config.type === 'rail-system') {
+    for (const position of getBackRailPositions(config)) {
+      partRules.push({
+        id: `back-rail-${position}`,
+        partName: BACK_RAIL_NAMES[position],
+        lengthExpression: 'internal_width',
+        widthExpression: 'back_rail_width',
+        quantityExpression: '1',
+        grain: 'length',
+        role: 'back',
+      });
+    }
+  }
+
+  return { ...pattern, partRules };
+}
+
+/**
+ * Grooves an inset back panel needs in the carcass panels holding it (rules with
+ * holdsBackPanel), along their back edge (length2). Empty unless the back is inset in a groove: a 'full-inset' config,
+ * or the rule set's 'inset-groove' method when no config is set.
+ */
+export function getBackPanelGrooves(
+  config: BackPanelConfig | undefined,
+  context: ExpressionContext,
+  ruleSet?: RuleSet
+): NonNullable<CutPart['grooves']> {
+  const grooved = config
+    ? config.type === 'full-inset'
+    : ruleSet?.construction.backPanelMethod === 'inset-groove';
+  if (!grooved) return [];
+
+  return [{
+    edge: 'length2',
+    offset: context.back_groove_offset ?? DEFAULT_BACK_GROOVE_OFFSET,
+    width: context.back_thickness ?? 0,
+    depth: context.back_groove ?? 0,
+    purpose: 'back-panel',
+  }];
+}
+
+/**
+ * Grooves of the drawer box parts for a bottom in groove (drawer construction
+ * 'bottom-in-groove'): along the bottom edge of the box parts (length2, the top
+ * edge being length1), as wide as the drawer bottom is thick
+ */
+export function getDrawerBottomGrooves(context: ExpressionContext): NonNullable<CutPart['grooves']> {
+  if (!context.drawer_bottom_in_groove) return [];
+
+  return [{
+    edge: 'length2',
+    offset: context.drawer_bottom_groove_offset ?? 0,
+    width: context.drawer_bottom_thickness ?? context.back_thickness,
+    depth: context.drawer_bottom_groove_depth ?? 0,
+    purpose: 'drawer-bottom',
+  }];
+}
+
+// ============================================
+// Main Part Calculator
+// ============================================
+
+/**
+ * Builds the full expression context of a cabinet: the base context, the
+ * instance's variable overrides, the zone heights and the pattern variables
+ * derived from them.
  *
- * Joint adjustment:
- * When a part is 'inserted' into a joint (e.g., shelf in dado), and the joint
- * type has extendsInsertedPiece=true, the dimension is extended by the joint depth.
- * This accounts for the part extending into the groove.
+ * @param pattern - The pattern as resolved for the instance (see resolveInstancePattern())
+ * @returns The context and the diagnostics of the derived pattern variables
  */
-export function calculateParts(
+export function buildCabinetContext(
   pattern: CabinetPattern,
   dimensions: { height: number; width: number; depth: number },
   globalSettings: GlobalSettings,
   variableOverrides?: Record<string, number>,
   zoneProportions?: number[],
   ruleSet?: RuleSet,
-  materials?: Material[],
-  materialOverrides?: Record<string, string>,
-  edgeBandingId?: string,
-  jointTypes?: JointType[]
-): CutPart[] {
+  options: Pick<PartCalculationOptions, 'columnProportions' | 'columnZoneProportions' | 'hardware' | 'backPanelConfig'> = {}
+): { context: ExpressionContext; diagnostics: ExpressionDiagnostic[] } {
+  const { columnProportions, columnZoneProportions, hardware } = options;
+  const backPanel = resolveBackPanelConfig(options.backPanelConfig, pattern, globalSettings);
+
   // Build expression context with ruleSet for construction-aware dimensions
-  let context = buildExpressionContext(dimensions, globalSettings, pattern, ruleSet);
+  let context = buildExpressionContext(dimensions, globalSettings, pattern, ruleSet, columnProportions, backPanel);
 
   // Apply any variable overrides
   if (variableOverrides) {
@@ -403,9 +1013,9 @@ export function calculateParts(
   const internalHeight = dimensions.height - 2 * globalSettings.materialThickness;
   
   if (pattern.columns && pattern.columns.length > 0) {
-    // Column-based pattern: add zone heights per column
+    // Column-based pattern: add zone heights per column (instance proportions or equal split)
     pattern.columns.forEach((column, colIdx) => {
-      const colZoneProportions = column.zones.map(() => 1 / column.zones.length);
+      const colZoneProportions = resolveProportions(columnZoneProportions?.[column.id], column.zones.length);
       column.zones.forEach((zone, zoneIdx) => {
         const zoneHeight = Math.round(internalHeight * colZoneProportions[zoneIdx]);
         // Add zone heights with column prefix (e.g., col_0_zone_0_height)
@@ -431,27 +1041,240 @@ export function calculateParts(
     }
   }
 
+  // Front overlays of door and drawer zones (e.g. zone_door_1_overlay_left), by the zone's
+  // overlay mode and what borders it: carcass panels, partitions between columns or other fronts.
+  // Framed fronts also get their frame dimensions (e.g. zone_door_1_frame_width)
+  const zoneColumns = pattern.columns && pattern.columns.length > 0
+    ? pattern.columns.map((column) => column.zones)
+    : [pattern.zones];
+  zoneColumns.forEach((zones, colIdx) => {
+    zones.forEach((zone, zoneIdx) => {
+      if (zone.type !== 'door' && zone.type !== 'drawer') return;
+      const gap = (zone.type === 'door' ? context.door_gap : context.drawer_front_gap) ?? 0;
+      const overlays = getFrontOverlays(resolveDoorOverlayMode(zone, ruleSet), {
+        left: colIdx === 0 ? 'carcass' : 'partition',
+        right: colIdx === zoneColumns.length - 1 ? 'carcass' : 'partition',
+        top: zoneIdx === 0 ? 'carcass' : 'front',
+        bottom: zoneIdx === zones.length - 1 ? 'carcass' : 'front',
+      }, context.material_thickness ?? globalSettings.materialThickness, gap);
+      const prefix = getZoneVariablePrefix(zone);
+      for (const [edge, overlay] of Object.entries(overlays)) {
+        context[`${prefix}_overlay_${edge}`] = overlay;
+      }
+      addFrontStyleVariables(context, zone);
+    });
+  });
+
+  // Drawer box dimensions from each drawer zone's slide (e.g. zone_drawer_1_slide_offset, zone_drawer_1_box_depth)
+  const drawerZones = [...pattern.zones, ...(pattern.columns ?? []).flatMap((column) => column.zones)]
+    .filter((zone) => zone.type === 'drawer');
+  for (const zone of drawerZones) {
+    const slide = selectDrawerSlide(hardware ?? [], context.internal_depth, globalSettings, zone);
+    const fit = getDrawerSlideFit(slide, context, zone);
+    const prefix = getZoneVariablePrefix(zone);
+    context[`${prefix}_slide_offset`] = fit.slideOffset;
+    context[`${prefix}_box_depth`] = fit.boxDepth;
+    context[`${prefix}_box_height_clearance`] = fit.boxHeightClearance;
+  }
+
+  // Re-resolve derived pattern variables now that overrides and zone heights are known
+  const resolvedVariables = resolvePatternVariables(pattern.variables, context, variableOverrides);
+  Object.assign(context, resolvedVariables.values);
+
+  return { context, diagnostics: resolvedVariables.diagnostics };
+}
+
+/**
+ * Calculates all cut parts for a cabinet based on pattern rules and dimensions.
+ * This is the core "logic engine" that processes pattern rules into concrete parts.
+ * The ruleSet determines construction method and affects part dimensions.
+ *
+ * Dimension calculation order:
+ * 1. Base dimension from expression evaluation
+ * 2. + Joint adjustments (extensions for inserted pieces in dados, etc.)
+ * 3. - Edge banding adjustments (reduce cut size so banded part matches design)
+ *
+ * Edge banding adjustment:
+ * When edge banding is applied to a part, the cut dimension is reduced by the banding
+ * thickness so the final banded dimension matches the design intent.
+ * - Length is reduced for W1/W2 banding (the ends of the length)
+ * - Width is reduced for L1/L2 banding (the edges along the length)
+ *
+ * Joint adjustment:
+ * When a part is 'inserted' into a joint (e.g., shelf in dado), and the joint
+ * type has extendsInsertedPiece=true, the dimension is extended by the joint depth.
+ * This accounts for the part extending into the groove.
+ */
+export function calculateParts(
+  pattern: CabinetPattern,
+  dimensions: { height: number; width: number; depth: number },
+  globalSettings: GlobalSettings,
+  variableOverrides?: Record<string, number>,
+  zoneProportions?: number[],
+  ruleSet?: RuleSet,
+  materials?: Material[],
+  materialOverrides?: Record<string, string>,
+  edgeBandingId?: string,
+  jointTypes?: JointType[],
+  options?: PartCalculationOptions
+): CutPart[] {
+  return calculatePartsWithDiagnostics(
+    pattern,
+    dimensions,
+    globalSettings,
+    variableOverrides,
+    zoneProportions,
+    ruleSet,
+    materials,
+    materialOverrides,
+    edgeBandingId,
+    jointTypes,
+    options
+  ).parts;
+}
+
+/**
+ * Calculates the cut parts of a cabinet instance, applying the instance's
+ * customizations (variable, proportion and material overrides, optional parts).
+ * The hardware library sizes drawer boxes from their drawer slides. The hardware is
+ * not placed on the parts: see calculateCabinetPartsWithHardware() in ./hardwareLogic.
+ */
+export function calculateCabinetParts(
+  cabinet: CabinetInstance,
+  pattern: CabinetPattern,
+  globalSettings: GlobalSettings,
+  ruleSet?: RuleSet,
+  materials?: Material[],
+  jointTypes?: JointType[],
+  hardware?: HardwareItem[]
+): CutPart[] {
+  return calculateParts(
+    pattern,
+    cabinet.dimensions,
+    globalSettings,
+    cabinet.variableOverrides,
+    cabinet.zoneProportions,
+    ruleSet,
+    materials,
+    cabinet.materialOverrides,
+    undefined, // edgeBandingId - use pattern default
+    jointTypes,
+    { ...getPartCalculationOptions(cabinet), hardware }
+  );
+}
+
+/**
+ * Whether a part rule is built on an instance: optional parts switched off on the
+ * instance and parts whose condition is false are not (same checks as the part calculator).
+ * Problems evaluating the condition are added to `diagnostics` when given.
+ */
+export function isPartRuleBuilt(
+  rule: PartRule,
+  context: ExpressionContext,
+  optionalParts?: Record<string, boolean>,
+  diagnostics?: ExpressionDiagnostic[]
+): boolean {
+  if (rule.isOptional && optionalParts?.[rule.frontComponent?.frontRuleId ?? rule.id] === false) return false;
+  if (!rule.condition?.trim()) return true;
+
+  const { value, diagnostic } = evaluateExpressionWithDiagnostics(rule.condition, context);
+  if (diagnostic) diagnostics?.push({ ...diagnostic, ruleId: rule.id, partName: rule.partName, field: 'condition' });
+  return value !== 0;
+}
+
+/**
+ * Extracts the part calculator options from a cabinet instance's customizations
+ */
+export function getPartCalculationOptions(cabinet: CabinetInstance): PartCalculationOptions {
+  return {
+    optionalParts: cabinet.optionalParts,
+    columnProportions: cabinet.columnProportions,
+    columnZoneProportions: cabinet.columnZoneProportions,
+    zoneOverrides: cabinet.zoneOverrides,
+    backPanelConfig: cabinet.backPanelConfig ?? cabinet.backPanel,
+  };
+}
+
+/**
+ * Same as calculateParts(), but also returns the expression diagnostics
+ * (syntax errors, unknown variables, division by zero, negative results)
+ * collected while evaluating the pattern's part rules.
+ */
+export function calculatePartsWithDiagnostics(
+  basePattern: CabinetPattern,
+  dimensions: { height: number; width: number; depth: number },
+  globalSettings: GlobalSettings,
+  variableOverrides?: Record<string, number>,
+  zoneProportions?: number[],
+  ruleSet?: RuleSet,
+  materials?: Material[],
+  materialOverrides?: Record<string, string>,
+  edgeBandingId?: string,
+  jointTypes?: JointType[],
+  options: PartCalculationOptions = {}
+): PartCalculationResult {
+  const { optionalParts, columnProportions, columnZoneProportions, zoneOverrides, hardware, backPanelConfig } = options;
+
+  // Instance zone overrides apply before anything is derived from the zones
+  const backPanel = resolveBackPanelConfig(backPanelConfig, basePattern, globalSettings);
+  // Framed fronts are expanded into their stiles, rails and centre
+  const pattern = applyFrontStyleRules(
+    applyBackPanelRules(resolveInstancePattern(basePattern, zoneOverrides), backPanel)
+  );
+
+  const { context: cabinetContext, diagnostics: contextDiagnostics } = buildCabinetContext(
+    pattern,
+    dimensions,
+    globalSettings,
+    variableOverrides,
+    zoneProportions,
+    ruleSet,
+    { columnProportions, columnZoneProportions, hardware, backPanelConfig: backPanel }
+  );
+
   const parts: CutPart[] = [];
+  const diagnostics: ExpressionDiagnostic[] = [...contextDiagnostics];
+  const excludedRuleIds = new Set<string>();
 
   // Resolve materials array (fallback to empty array if not provided)
   const materialsList = materials ?? [];
 
+  // Drawer box parts are sized from each other's thickness: that of the drawer box
+  // and drawer bottom materials, as resolved from the library
+  const context: ExpressionContext = {
+    ...cabinetContext,
+    drawer_thickness: getRoleThickness('drawer-box', { pattern, ruleSet, globalSettings, materials: materialsList, context: cabinetContext }),
+    drawer_bottom_thickness: getRoleThickness('drawer-bottom', { pattern, ruleSet, globalSettings, materials: materialsList, context: cabinetContext }),
+  };
+  const backPanelGrooves = getBackPanelGrooves(backPanel, context, ruleSet);
+  const drawerBottomGrooves = getDrawerBottomGrooves(context);
+
+  // Zone materials and front styles, for the parts linked to a zone
+  const zoneMaterialIds = new Map<string, string>();
+  const zoneFrontStyles = new Map<string, FrontStyle>();
+  for (const zone of [...pattern.zones, ...(pattern.columns ?? []).flatMap((column) => column.zones)]) {
+    if (zone.options?.materialId) zoneMaterialIds.set(zone.id, zone.options.materialId);
+    if (zone.options?.frontStyle) zoneFrontStyles.set(zone.id, zone.options.frontStyle);
+  }
+
   // Process each part rule
   for (const rule of pattern.partRules) {
-    // Resolve materialId with precedence:
-    // 1. Instance-level override (materialOverrides by rule.id or rule.partName)
-    // 2. Rule's own materialId (from pattern definition)
-    // 3. Pattern default (used by getMaterialThickness as fallback)
-    // 4. Global settings material_thickness (final fallback)
-    const resolvedMaterialId =
-      materialOverrides?.[rule.id] ??
-      materialOverrides?.[rule.partName] ??
-      rule.materialId;
-    const partThickness = getMaterialThickness(
-      resolvedMaterialId,
-      materialsList,
-      context.material_thickness
-    );
+    // Resolve the part's material and thickness (instance > zone > rule > pattern role > rule set role > global)
+    const { materialId: resolvedMaterialId, thickness: partThickness } = resolvePartMaterial(rule, {
+      pattern,
+      ruleSet,
+      globalSettings,
+      materials: materialsList,
+      materialOverrides,
+      // The zone material is for the fronts; front components with a material of their
+      // own (front style) keep it
+      zoneMaterialId: rule.zoneId && (rule.role === 'door' || rule.role === 'drawer-front') && !(rule.frontComponent && rule.materialId)
+        ? zoneMaterialIds.get(rule.zoneId)
+        : undefined,
+      backPanel,
+      context,
+    });
+    const resolvedMaterial = materialsList.find((m) => m.id === resolvedMaterialId);
 
     // Add part_thickness to context for this rule's expression evaluation
     const ruleContext = {
@@ -459,49 +1282,115 @@ export function calculateParts(
       part_thickness: partThickness,
     };
 
-    const designLength = evaluateExpression(rule.lengthExpression, ruleContext);
-    const designWidth = evaluateExpression(rule.widthExpression, ruleContext);
-    const quantity = Math.max(1, Math.round(evaluateExpression(rule.quantityExpression, ruleContext)));
+    // Evaluate rule expressions, collecting diagnostics per field
+    const evaluateField = (field: 'lengthExpression' | 'widthExpression' | 'quantityExpression' | 'condition'): number => {
+      const { value, diagnostic } = evaluateExpressionWithDiagnostics(rule[field] ?? '', ruleContext);
+      if (diagnostic) {
+        diagnostics.push({ ...diagnostic, ruleId: rule.id, partName: rule.partName, field });
+      }
+      return value;
+    };
+
+    // Optional parts are included unless switched off on the instance (front components with their front)
+    if (rule.isOptional && optionalParts?.[rule.frontComponent?.frontRuleId ?? rule.id] === false) {
+      excludedRuleIds.add(rule.frontComponent?.frontRuleId ?? rule.id);
+      continue;
+    }
 
-    // Calculate edge banding adjustments
+    // Conditional parts are only emitted while their condition holds
+    if (rule.condition?.trim() && !evaluateField('condition')) {
+      excludedRuleIds.add(rule.frontComponent?.frontRuleId ?? rule.id);
+      continue;
+    }
+
+    const designLength = evaluateField('lengthExpression');
+    const designWidth = evaluateField('widthExpression');
+    const rawQuantity = evaluateField('quantityExpression');
+    const quantity = Math.max(1, Math.round(rawQuantity));
+
+    if (rawQuantity < 0) {
+      diagnostics.push({
+        kind: 'negative-result',
+        severity: 'warning',
+        message: `Quantidade negativa (${rawQuantity}); assumido 1`,
+        expression: rule.quantityExpression,
+        ruleId: rule.id,
+        partName: rule.partName,
+        field: 'quantityExpression',
+      });
+    }
+
+    // Calculate edge banding deductions
     // Cut dimensions are reduced by banding thickness so banded part matches design dimension
-    let edgeBandingLengthAdj = 0;
-    let edgeBandingWidthAdj = 0;
+    const bandingDeductions: BandingDeductionTrace[] = [];
     let resolvedEdgeBandingId: string | undefined;
 
-    if (rule.edgeBanding) {
+    const bandedEdges = resolveEdgeBanding(rule, ruleSet);
+    if (Object.values(bandedEdges).some(Boolean)) {
       // Resolve edge banding material:
       // 1. Pattern's edge banding material (pattern.materials.edgeBanding.materialId)
       // 2. Fallback to edgeBandingId parameter (default edge banding)
+      // Without a banding material, every banded edge deducts the global default thickness
       resolvedEdgeBandingId =
         pattern.materials?.edgeBanding?.materialId ?? edgeBandingId;
       const ebThickness = getEdgeBandingThickness(
         resolvedEdgeBandingId,
         materialsList,
-        0
+        context.edge_banding
       );
+      const ebName = materialsList.find((m) => m.id === resolvedEdgeBandingId)?.name;
 
-      // Subtract edge banding thickness from length for each banded length edge
-      if (rule.edgeBanding.length1) edgeBandingLengthAdj += ebThickness;
-      if (rule.edgeBanding.length2) edgeBandingLengthAdj += ebThickness;
-
-      // Subtract edge banding thickness from width for each banded width edge
-      if (rule.edgeBanding.width1) edgeBandingWidthAdj += ebThickness;
-      if (rule.edgeBanding.width2) edgeBandingWidthAdj += ebThickness;
+      for (const edge of ['length1', 'length2', 'width1', 'width2'] as const) {
+        if (bandedEdges[edge]) {
+          bandingDeductions.push({ edge, materialId: resolvedEdgeBandingId, materialName: ebName, thickness: ebThickness });
+        }
+      }
     }
 
+    // Subtract edge banding thickness across the part: banded width edges (the ends)
+    // shorten the length, banded length edges (front/back) narrow the width
+    const lengthBanding = bandingDeductions.filter((d) => d.edge === 'width1' || d.edge === 'width2');
+    const widthBanding = bandingDeductions.filter((d) => d.edge === 'length1' || d.edge === 'length2');
+    const edgeBandingLengthAdj = lengthBanding.reduce((sum, d) => sum + d.thickness, 0);
+    const edgeBandingWidthAdj = widthBanding.reduce((sum, d) => sum + d.thickness, 0);
+
     // Calculate joint adjustments
     // Joint extensions ADD to dimensions (piece extends into dado/groove)
-    const jointAdj = calculateJointAdjustments(rule.joints, jointTypes ?? []);
+    // (width edges affect the length, length edges affect the width)
+    const jointTrace = traceJointAdjustments(rule.joints, jointTypes ?? []);
+    const lengthJoints = jointTrace.filter((j) => j.edge === 'width1' || j.edge === 'width2');
+    const widthJoints = jointTrace.filter((j) => j.edge === 'length1' || j.edge === 'length2');
+    const jointLengthAdj = lengthJoints.reduce((sum, j) => sum + j.amount, 0);
+    const jointWidthAdj = widthJoints.reduce((sum, j) => sum + j.amount, 0);
 
     // Final cut dimensions:
     // = design dimension + joint extensions - edge banding reductions
-    const cutLength = designLength + jointAdj.lengthAdjustment - edgeBandingLengthAdj;
-    const cutWidth = designWidth + jointAdj.widthAdjustment - edgeBandingWidthAdj;
+    const cutLength = designLength + jointLengthAdj - edgeBandingLengthAdj;
+    const cutWidth = designWidth + jointWidthAdj - edgeBandingWidthAdj;
 
-    // Skip invalid parts
+    // Skip invalid parts, reporting why unless the expression itself already failed
     if (cutLength <= 0 || cutWidth <= 0) {
-      console.warn(`Skipping invalid part: ${rule.partName} (L: ${cutLength}, W: ${cutWidth})`);
+      const failedFields = new Set(
+        diagnostics.filter((d) => d.ruleId === rule.id).map((d) => d.field)
+      );
+      const invalid: ['lengthExpression' | 'widthExpression', number, number][] = [
+        ['lengthExpression', designLength, cutLength],
+        ['widthExpression', designWidth, cutWidth],
+      ];
+      for (const [field, design, cut] of invalid) {
+        if (cut > 0 || failedFields.has(field)) continue;
+        diagnostics.push({
+          kind: 'negative-result',
+          severity: 'error',
+          message: design <= 0
+            ? `Resultado ${design < 0 ? 'negativo' : 'nulo'} (${design}mm); peça ignorada`
+            : `Medida de corte ${cut}mm após ajustes de junta/orla; peça ignorada`,
+          expression: rule[field],
+          ruleId: rule.id,
+          partName: rule.partName,
+          field,
+        });
+      }
       continue;
     }
 
@@ -510,24 +1399,38 @@ export function calculateParts(
     // Build edge banding details (material ID per edge)
     let edgeBandingDetails: CutPart['edgeBandingDetails'];
 
-    if (rule.edgeBanding) {
-      const edges: string[] = [];
-      if (rule.edgeBanding.length1) edges.push('L1');
-      if (rule.edgeBanding.length2) edges.push('L2');
-      if (rule.edgeBanding.width1) edges.push('W1');
-      if (rule.edgeBanding.width2) edges.push('W2');
-      edgeBanding = edges.join(', ');
+    if (bandingDeductions.length > 0) {
+      edgeBanding = bandingDeductions.map((d) => EDGE_CODES[d.edge]).join(', ');
 
       // Populate edgeBandingDetails with material ID for each banded edge
       edgeBandingDetails = {
-        length1: rule.edgeBanding.length1 ? resolvedEdgeBandingId : undefined,
-        length2: rule.edgeBanding.length2 ? resolvedEdgeBandingId : undefined,
-        width1: rule.edgeBanding.width1 ? resolvedEdgeBandingId : undefined,
-        width2: rule.edgeBanding.width2 ? resolvedEdgeBandingId : undefined,
+        length1: bandedEdges.length1 ? resolvedEdgeBandingId : undefined,
+        length2: bandedEdges.length2 ? resolvedEdgeBandingId : undefined,
+        width1: bandedEdges.width1 ? resolvedEdgeBandingId : undefined,
+        width2: bandedEdges.width2 ? resolvedEdgeBandingId : undefined,
       };
     }
 
+    // Grooves and fittings of the part's joints, plus the back panel grooves of the panels
+    // holding the back and the bottom grooves of drawer box parts
+    const partGrooves = rule.holdsBackPanel ? backPanelGrooves
+      : rule.role === 'drawer-box' ? drawerBottomGrooves
+      : [];
+    const grooves = partGrooves.length > 0 ? partGrooves : undefined;
+    const machinedPart = { length: Math.round(cutLength), width: Math.round(cutWidth), thickness: partThickness };
+    const frontStyle = rule.zoneId ? zoneFrontStyles.get(rule.zoneId) : undefined;
+    const machining = [
+      ...getJointMachining(rule.joints, jointTypes ?? [], machinedPart),
+      ...getGrooveMachining(grooves ?? []),
+      ...(rule.frontComponent?.kind === 'panel' && frontStyle ? getRaisedPanelMachining(frontStyle, machinedPart) : []),
+    ];
+
     parts.push({
+      ruleId: rule.id,
+      zoneId: rule.zoneId,
+      hingeSide: rule.hingeSide,
+      frontComponent: rule.frontComponent?.kind,
+      role: rule.role,
       partName: rule.partName,
       length: Math.round(cutLength),
       width: Math.round(cutWidth),
@@ -535,14 +1438,40 @@ export function calculateParts(
       designWidth: Math.round(designWidth),
       quantity,
       materialId: resolvedMaterialId,
-      material: rule.material,
+      material: resolvedMaterial?.name ?? rule.material,
+      thickness: partThickness,
+      grooves,
+      machining: machining.length > 0 ? machining : undefined,
       grain: rule.grain,
       edgeBanding: edgeBanding || undefined,
       edgeBandingDetails,
+      provenance: {
+        length: {
+          expression: rule.lengthExpression,
+          variables: getExpressionVariables(rule.lengthExpression, ruleContext),
+          designValue: designLength,
+          jointAdjustments: lengthJoints,
+          bandingDeductions: lengthBanding,
+          cutValue: Math.round(cutLength),
+        },
+        width: {
+          expression: rule.widthExpression,
+          variables: getExpressionVariables(rule.widthExpression, ruleContext),
+          designValue: designWidth,
+          jointAdjustments: widthJoints,
+          bandingDeductions: widthBanding,
+          cutValue: Math.round(cutWidth),
+        },
+        quantity: {
+          expression: rule.quantityExpression,
+          variables: getExpressionVariables(rule.quantityExpression, ruleContext),
+          value: quantity,
+        },
+      },
     });
   }
 
-  return parts;
+  return { parts, diagnostics, excludedRuleIds: Array.from(excludedRuleIds) };
 }
 
 // ============================================
@@ -550,21 +1479,24 @@ export function calculateParts(
 // ============================================
 
 /**
- * Calculates the pixel heights for each zone in a pattern
+ * Calculates the pixel heights for each zone in a pattern, plus the diagnostics
+ * of height expressions that could not be evaluated (those zones are 0 high)
  */
 export function calculateZoneHeights(
   pattern: CabinetPattern,
   dimensions: { height: number; width: number; depth: number },
   globalSettings: GlobalSettings
-): { id: string; type: string; name: string; height: number }[] {
+): { zones: { id: string; type: string; name: string; height: number }[]; diagnostics: ExpressionDiagnostic[] } {
   const context = buildExpressionContext(dimensions, globalSettings, pattern);
+  const diagnostics: ExpressionDiagnostic[] = [];
+
+  const zones = pattern.zones.map((zone) => {
+    const { value, diagnostic } = evaluateExpressionWithDiagnostics(zone.heightExpression, context);
+    if (diagnostic) diagnostics.push({ ...diagnostic, zoneId: zone.id, field: 'heightExpression' });
+    return { id: zone.id, type: zone.type, name: zone.name, height: value };
+  });
 
-  return pattern.zones.map((zone) => ({
-    id: zone.id,
-    type: zone.type,
-    name: zone.name,
-    height: evaluateExpression(zone.heightExpression, context),
-  }));
+  return { zones, diagnostics };
 }
 
 // ============================================
@@ -607,7 +1539,7 @@ export function generateCutListCSV(
     lines.push(headers.join(','));
   } else {
     // Generic CSV with more details
-    const headers = ['Part Name', 'Length (mm)', 'Width (mm)', 'Quantity', 'Material', 'Grain', 'Edge Banding', 'Cabinet'];
+    const headers = ['Part Name', 'Length (mm)', 'Width (mm)', 'Quantity', 'Material', 'Thickness (mm)', 'Grain', 'Edge Banding', 'Cabinet'];
     lines.push(headers.join(','));
   }
 
@@ -638,6 +1570,7 @@ export function generateCutListCSV(
           part.width,
           part.quantity,
           escapeCSV(part.material || 'Main Material'),
+          part.thickness ?? '',
           part.grain || 'none',
           options.includeEdgeBanding ? escapeCSV(part.edgeBanding || '') : '',
           escapeCSV(part.cabinetName || ''),
@@ -676,7 +1609,7 @@ export function consolidateParts(parts: CutPart[]): CutPart[] {
   const consolidated = new Map<string, CutPart>();
 
   for (const part of parts) {
-    const key = `${part.partName}|${part.length}|${part.width}|${part.material || 'main'}`;
+    const key = `${part.partName}|${part.length}|${part.width}|${part.material || 'main'}|${part.hingeSide ?? ''}`;
     
     if (consolidated.has(key)) {
       const existing = consolidated.get(key)!;
@@ -0,0 +1,156 @@
+import type {
+  CostSettings,
+  CutPart,
+  HardwareRequirement,
+  Material,
+  Project,
+  ProjectCost,
+} from '../types';
+
+// ============================================
+// Project Cost Estimation
+// ============================================
+
+const COST_DEFAULTS: Required<CostSettings> = {
+  wasteFactor: 0.1,
+  laborRate: 0,
+  laborHoursPerCabinet: 0,
+  markup: 0,
+};
+
+const EDGE_SIDES = {
+  length1: 'length',
+  length2: 'length',
+  width1: 'width',
+  width2: 'width',
+} as const;
+
+const roundArea = (value: number) => Math.round(value * 1000) / 1000;
+const roundCost = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Cost settings: the configured ones over the defaults
+ */
+export function resolveCostSettings(settings?: CostSettings): Required<CostSettings> {
+  const configured = Object.fromEntries(
+    Object.entries(settings ?? {}).filter(([, value]) => value !== undefined)
+  );
+  return { ...COST_DEFAULTS, ...configured };
+}
+
+/**
+ * Unit cost of a material: €/m² for boards and countertops, €/m for edge banding
+ */
+export function getMaterialUnitCost(material?: Material): number {
+  return material?.costPerM2 ?? material?.pricePerM2 ?? 0;
+}
+
+/**
+ * Board area per material, with the waste factor added for offcuts and saw cuts
+ */
+function getBoardCosts(parts: CutPart[], materials: Material[], wasteFactor: number): ProjectCost['materials'] {
+  const areas = new Map<string, { name: string; area: number }>();
+  for (const part of parts) {
+    const key = part.materialId ?? '';
+    const entry = areas.get(key) ?? { name: part.material ?? '', area: 0 };
+    entry.area += (part.length * part.width * part.quantity) / 1_000_000;
+    areas.set(key, entry);
+  }
+
+  return [...areas].map(([materialId, { name, area }]) => {
+    const material = materials.find((m) => m.id === materialId);
+    const unitCost = getMaterialUnitCost(material);
+    const totalArea = roundArea(area * (1 + wasteFactor));
+    return {
+      materialId,
+      materialName: material?.name ?? name,
+      area: totalArea,
+      unitCost,
+      totalCost: roundCost(totalArea * unitCost),
+    };
+  });
+}
+
+/**
+ * Edge banding length per banding material: every banded edge of every part
+ */
+function getEdgeBandingCosts(parts: CutPart[], materials: Material[]): ProjectCost['edgeBanding'] {
+  const lengths = new Map<string, number>();
+  for (const part of parts) {
+    for (const [edge, side] of Object.entries(EDGE_SIDES) as [keyof typeof EDGE_SIDES, 'length' | 'width'][]) {
+      const bandingId = part.edgeBandingDetails?.[edge];
+      if (!bandingId) continue;
+      lengths.set(bandingId, (lengths.get(bandingId) ?? 0) + (part[side] * part.quantity) / 1000);
+    }
+  }
+
+  return [...lengths].map(([materialId, length]) => {
+    const material = materials.find((m) => m.id === materialId);
+    const unitCost = getMaterialUnitCost(material);
+    return {
+      materialId,
+      materialName: material?.name ?? materialId,
+      length: roundArea(length),
+      unitCost,
+      totalCost: roundCost(length * unitCost),
+    };
+  });
+}
+
+/**
+ * Estimates the cost of a project from its cut list and hardware:
+ * - boards: cut area per material plus the waste factor, at the material's €/m²
+ * - edge banding: banded edge length per banding material, at its €/m
+ * - hardware: quantities at the library's unit cost
+ * - countertops: their area at their material's €/m²
+ * - labour: hours per cabinet at the labour rate
+ *
+ * The markup is added over the subtotal of all of these.
+ */
+export function calculateProjectCost(
+  project: Project,
+  parts: CutPart[],
+  hardware: HardwareRequirement[],
+  materials: Material[],
+  settings?: CostSettings
+): ProjectCost {
+  const { wasteFactor, laborRate, laborHoursPerCabinet, markup } = resolveCostSettings(settings);
+
+  const boardCosts = getBoardCosts(parts, materials, wasteFactor);
+  const edgeBanding = getEdgeBandingCosts(parts, materials);
+  const hardwareCosts = hardware.map((h) => ({
+    hardwareId: h.hardwareId,
+    hardwareName: h.hardwareName,
+    quantity: h.quantity,
+    unitCost: h.unitCost ?? 0,
+    totalCost: roundCost(h.totalCost ?? 0),
+  }));
+  const countertops = (project.countertops ?? []).map((countertop) => {
+    const material = materials.find((m) => m.id === countertop.materialId);
+    const unitCost = getMaterialUnitCost(material);
+    const area = roundArea((countertop.length * countertop.width) / 1_000_000);
+    return {
+      countertopId: countertop.id,
+      name: countertop.name,
+      area,
+      unitCost,
+      totalCost: roundCost(area * unitCost),
+    };
+  });
+  const labor = roundCost(project.cabinets.length * laborHoursPerCabinet * laborRate);
+
+  const sum = (items: { totalCost: number }[]) => items.reduce((total, item) => total + item.totalCost, 0);
+  const subtotal = roundCost(sum(boardCosts) + sum(edgeBanding) + sum(hardwareCosts) + sum(countertops) + labor);
+  const markupAmount = roundCost(subtotal * markup);
+
+  return {
+    materials: boardCosts,
+    hardware: hardwareCosts,
+    edgeBanding,
+    countertops,
+    labor,
+    markup: markupAmount,
+    subtotal,
+    total: roundCost(subtotal + markupAmount),
+  };
+}
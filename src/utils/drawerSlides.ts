@@ -0,0 +1,84 @@
+import type { ExpressionContext, GlobalSettings, HardwareItem, PatternZone } from '../types';
+
+// ============================================
+// Drawer Slide Selection
+// ============================================
+
+/**
+ * Drawer box dimensions a slide dictates, as context variables of a drawer zone
+ */
+export interface DrawerSlideFit {
+  slideOffset: number; // Space between cabinet side and drawer box, each side
+  boxDepth: number; // Drawer box length (front to back)
+  boxHeightClearance: number; // Opening height minus drawer box height
+}
+
+/**
+ * Internal cabinet depth a slide needs
+ */
+function getRequiredDepth(slide: HardwareItem): number {
+  return slide.specifications?.minCabinetDepth ?? slide.specifications?.length ?? Infinity;
+}
+
+/**
+ * Picks the drawer slide of a drawer zone.
+ *
+ * A slide chosen on the zone (options.slideId) is used as is. Otherwise the longest
+ * slide that fits the internal depth is picked, among slides of the same brand and
+ * model as the default slide (GlobalSettings.defaultHardwarePresets['drawer-slide'])
+ * when any of those fit, or among all available slides.
+ *
+ * @returns The slide, or undefined when none is chosen and none fits
+ */
+export function selectDrawerSlide(
+  hardware: HardwareItem[],
+  internalDepth: number,
+  globalSettings: GlobalSettings,
+  zone?: PatternZone
+): HardwareItem | undefined {
+  const slides = hardware.filter((h) => h.type === 'drawer-slide');
+
+  const chosen = slides.find((s) => s.id === zone?.options?.slideId);
+  if (chosen) return chosen;
+
+  const fitting = slides
+    .filter((s) => s.isAvailable !== false && getRequiredDepth(s) <= internalDepth)
+    .sort((a, b) => (b.specifications?.length ?? 0) - (a.specifications?.length ?? 0));
+
+  const preset = slides.find((s) => s.id === globalSettings.defaultHardwarePresets?.['drawer-slide']);
+  const sameFamily = preset
+    ? fitting.filter((s) => s.brand === preset.brand && s.model === preset.model)
+    : [];
+
+  return sameFamily[0] ?? fitting[0];
+}
+
+/**
+ * Drawer box dimensions for a slide. Specifications the slide doesn't give fall
+ * back to the zone's slide offset and the rule set clearances in the context.
+ */
+export function getDrawerSlideFit(
+  slide: HardwareItem | undefined,
+  context: ExpressionContext,
+  zone?: PatternZone
+): DrawerSlideFit {
+  const specs = slide?.specifications;
+  const internalDepth = context.internal_depth;
+
+  return {
+    slideOffset: specs?.sideClearance ?? zone?.options?.drawerSlideOffset ?? context.drawer_slide_offset ?? 12.5,
+    boxDepth: specs?.length !== undefined
+      ? specs.length - (specs.boxLengthDeduction ?? 0)
+      : internalDepth - (context.drawer_depth_clearance ?? 50),
+    boxHeightClearance: specs?.heightClearance ?? context.drawer_box_height_clearance ?? 30,
+  };
+}
+
+/**
+ * Prefix of a zone's context variables (e.g. "zone_drawer_1" for zone "drawer-1").
+ * Zone ids may start with a digit (the pattern editor's are timestamps), so the id
+ * goes after "zone_" with anything that can't be in an identifier made "_".
+ */
+export function getZoneVariablePrefix(zone: PatternZone): string {
+  return `zone_${zone.id.replace(/[^A-Za-z0-9_]/g, '_')}`;
+}
@@ -0,0 +1,495 @@
+// ============================================
+// Expression Language
+// ============================================
+//
+// Small arithmetic language used by pattern rules (part dimensions,
+// quantities, conditions, hardware quantities).
+//
+//   expression  := conditional
+//   conditional := or ( '?' conditional ':' conditional )?
+//   or          := and ( '||' and )*
+//   and         := equality ( '&&' equality )*
+//   equality    := comparison ( ( '==' | '!=' ) comparison )*
+//   comparison  := additive ( ( '<' | '<=' | '>' | '>=' ) additive )*
+//   additive    := term ( ( '+' | '-' ) term )*
+//   term        := unary ( ( '*' | '/' | '%' ) unary )*
+//   unary       := ( '-' | '+' | '!' ) unary | power
+//   power       := primary ( '^' unary )?
+//   primary     := number | identifier | call | '(' expression ')'
+//   call        := identifier '(' ( expression ( ',' expression )* )? ')'
+//
+// Booleans are numbers: comparisons yield 1 or 0, and any non-zero value is true.
+// Identifiers are matched whole and case-insensitively against the context.
+
+import type { ExpressionDiagnosticKind } from '../types';
+
+export type ExpressionErrorKind = Exclude<ExpressionDiagnosticKind, 'negative-result' | 'circular-dependency'>;
+
+/**
+ * Error raised while parsing or evaluating an expression.
+ * `position` is the 0-based character offset in the source expression.
+ */
+export class ExpressionError extends Error {
+  readonly kind: ExpressionErrorKind;
+  readonly position: number;
+  readonly identifier?: string;
+
+  constructor(kind: ExpressionErrorKind, message: string, position: number, identifier?: string) {
+    super(message);
+    this.name = 'ExpressionError';
+    this.kind = kind;
+    this.position = position;
+    this.identifier = identifier;
+  }
+
+  /** 1-based column, for display */
+  get column(): number {
+    return this.position + 1;
+  }
+}
+
+// ============================================
+// AST
+// ============================================
+
+export type ExpressionNode =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'identifier'; name: string; position: number }
+  | { type: 'unary'; operator: '-' | '+' | '!'; operand: ExpressionNode; position: number }
+  | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode; position: number }
+  | { type: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode; position: number }
+  | { type: 'call'; callee: string; args: ExpressionNode[]; position: number };
+
+type BinaryOperator =
+  | '+' | '-' | '*' | '/' | '%' | '^'
+  | '<' | '<=' | '>' | '>=' | '==' | '!='
+  | '&&' | '||';
+
+// ============================================
+// Tokenizer
+// ============================================
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'identifier'; value: string; position: number }
+  | { type: 'operator'; value: string; position: number }
+  | { type: 'eof'; position: number };
+
+// Longest operators first so '<=' wins over '<'
+const OPERATORS = ['<=', '>=', '==', '!=', '&&', '||', '+', '-', '*', '/', '%', '^', '<', '>', '!', '?', ':', '(', ')', ','];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // Numbers: 12, 12.5, .5, 1e3
+    if (/[\d.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(source.slice(i));
+      if (!match) {
+        throw new ExpressionError('syntax', `Número inválido na coluna ${i + 1}`, i);
+      }
+      tokens.push({ type: 'number', value: parseFloat(match[0]), position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[a-z_]/i.test(char)) {
+      const match = /^[a-z_][a-z0-9_]*/i.exec(source.slice(i))!;
+      tokens.push({ type: 'identifier', value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, i));
+    if (!operator) {
+      throw new ExpressionError('syntax', `Carácter inesperado '${char}' na coluna ${i + 1}`, i);
+    }
+    tokens.push({ type: 'operator', value: operator, position: i });
+    i += operator.length;
+  }
+
+  tokens.push({ type: 'eof', position: source.length });
+  return tokens;
+}
+
+// ============================================
+// Parser
+// ============================================
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): ExpressionNode {
+    const node = this.parseConditional();
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      throw this.unexpected(next);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private advance(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private matchOperator(...operators: string[]): string | null {
+    const token = this.peek();
+    if (token.type === 'operator' && operators.includes(token.value)) {
+      this.index++;
+      return token.value;
+    }
+    return null;
+  }
+
+  private expectOperator(operator: string): void {
+    const token = this.peek();
+    if (token.type !== 'operator' || token.value !== operator) {
+      const position = token.position;
+      throw new ExpressionError('syntax', `Esperado '${operator}' na coluna ${position + 1}`, position);
+    }
+    this.index++;
+  }
+
+  private unexpected(token: Token): ExpressionError {
+    if (token.type === 'eof') {
+      return new ExpressionError('syntax', `Expressão incompleta na coluna ${token.position + 1}`, token.position);
+    }
+    return new ExpressionError(
+      'syntax',
+      `Símbolo inesperado '${token.value}' na coluna ${token.position + 1}`,
+      token.position
+    );
+  }
+
+  private parseConditional(): ExpressionNode {
+    const test = this.parseBinary(0);
+    const token = this.peek();
+    if (this.matchOperator('?')) {
+      const consequent = this.parseConditional();
+      this.expectOperator(':');
+      const alternate = this.parseConditional();
+      return { type: 'conditional', test, consequent, alternate, position: token.position };
+    }
+    return test;
+  }
+
+  // Binary precedence levels, lowest first
+  private static readonly LEVELS: BinaryOperator[][] = [
+    ['||'],
+    ['&&'],
+    ['==', '!='],
+    ['<', '<=', '>', '>='],
+    ['+', '-'],
+    ['*', '/', '%'],
+  ];
+
+  private parseBinary(level: number): ExpressionNode {
+    if (level >= Parser.LEVELS.length) {
+      return this.parseUnary();
+    }
+
+    let left = this.parseBinary(level + 1);
+    for (;;) {
+      const token = this.peek();
+      const operator = this.matchOperator(...Parser.LEVELS[level]);
+      if (!operator) return left;
+      const right = this.parseBinary(level + 1);
+      left = { type: 'binary', operator: operator as BinaryOperator, left, right, position: token.position };
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    const operator = this.matchOperator('-', '+', '!');
+    if (operator) {
+      const operand = this.parseUnary();
+      return { type: 'unary', operator: operator as '-' | '+' | '!', operand, position: token.position };
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): ExpressionNode {
+    const base = this.parsePrimary();
+    const token = this.peek();
+    if (this.matchOperator('^')) {
+      // Right-associative: 2 ^ 3 ^ 2 = 2 ^ 9
+      const exponent = this.parseUnary();
+      return { type: 'binary', operator: '^', left: base, right: exponent, position: token.position };
+    }
+    return base;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.advance();
+
+    if (token.type === 'number') {
+      return { type: 'number', value: token.value, position: token.position };
+    }
+
+    if (token.type === 'identifier') {
+      if (this.matchOperator('(')) {
+        const args: ExpressionNode[] = [];
+        if (!this.matchOperator(')')) {
+          do {
+            args.push(this.parseConditional());
+          } while (this.matchOperator(','));
+          this.expectOperator(')');
+        }
+        return { type: 'call', callee: token.value.toLowerCase(), args, position: token.position };
+      }
+      return { type: 'identifier', name: token.value, position: token.position };
+    }
+
+    if (token.type === 'operator' && token.value === '(') {
+      const inner = this.parseConditional();
+      this.expectOperator(')');
+      return inner;
+    }
+
+    throw this.unexpected(token);
+  }
+}
+
+const parseCache = new Map<string, ExpressionNode>();
+const PARSE_CACHE_LIMIT = 500;
+
+/**
+ * Parses an expression into an AST. Results are cached per source string.
+ * @throws ExpressionError with kind 'syntax' on malformed input
+ */
+export function parseExpression(source: string): ExpressionNode {
+  const cached = parseCache.get(source);
+  if (cached) return cached;
+
+  const ast = new Parser(tokenize(source)).parse();
+
+  if (parseCache.size >= PARSE_CACHE_LIMIT) {
+    parseCache.clear();
+  }
+  parseCache.set(source, ast);
+  return ast;
+}
+
+// ============================================
+// Evaluator
+// ============================================
+
+type ExpressionScope = Record<string, number | undefined>;
+
+interface ExpressionFunction {
+  minArgs: number;
+  maxArgs: number;
+  /** Lazy functions receive unevaluated arguments (used by `if`) */
+  lazy?: boolean;
+  apply: (args: number[]) => number;
+}
+
+/**
+ * Built-in function library available to all expressions.
+ */
+const FUNCTIONS: Record<string, ExpressionFunction> = {
+  ceil: { minArgs: 1, maxArgs: 1, apply: ([x]) => Math.ceil(x) },
+  floor: { minArgs: 1, maxArgs: 1, apply: ([x]) => Math.floor(x) },
+  round: {
+    minArgs: 1,
+    maxArgs: 2,
+    // round(x) or round(x, decimals)
+    apply: ([x, decimals = 0]) => {
+      const factor = Math.pow(10, decimals);
+      return Math.round(x * factor) / factor;
+    },
+  },
+  trunc: { minArgs: 1, maxArgs: 1, apply: ([x]) => Math.trunc(x) },
+  abs: { minArgs: 1, maxArgs: 1, apply: ([x]) => Math.abs(x) },
+  sqrt: { minArgs: 1, maxArgs: 1, apply: ([x]) => Math.sqrt(x) },
+  pow: { minArgs: 2, maxArgs: 2, apply: ([x, y]) => Math.pow(x, y) },
+  min: { minArgs: 1, maxArgs: Infinity, apply: (args) => Math.min(...args) },
+  max: { minArgs: 1, maxArgs: Infinity, apply: (args) => Math.max(...args) },
+  clamp: { minArgs: 3, maxArgs: 3, apply: ([x, lo, hi]) => Math.min(Math.max(x, lo), hi) },
+  if: { minArgs: 3, maxArgs: 3, lazy: true, apply: () => 0 },
+};
+
+/** Names of the built-in functions, e.g. for editor hints */
+export const EXPRESSION_FUNCTIONS = Object.keys(FUNCTIONS);
+
+const hasOwn = (object: object, key: string): boolean => Object.prototype.hasOwnProperty.call(object, key);
+
+/**
+ * Looks up an identifier, matching whole names case-insensitively.
+ * Only the scope's own keys are variables (not `constructor`, `toString`, ...).
+ */
+function resolveIdentifier(name: string, scope: ExpressionScope): number | undefined {
+  if (hasOwn(scope, name) && scope[name] !== undefined) return scope[name];
+  const lower = name.toLowerCase();
+  const key = Object.keys(scope).find((k) => k.toLowerCase() === lower && scope[k] !== undefined);
+  if (key !== undefined) return scope[key];
+  if (lower === 'true') return 1;
+  if (lower === 'false') return 0;
+  return undefined;
+}
+
+const truthy = (value: number): boolean => value !== 0 && !Number.isNaN(value);
+
+/**
+ * Rejects results that are not a number or infinite, e.g. sqrt(-1) or pow(0, -1)
+ */
+function checkFinite(value: number, node: ExpressionNode): number {
+  if (!Number.isFinite(value)) {
+    throw new ExpressionError(
+      'invalid-result',
+      `Resultado inválido (${value}) na coluna ${node.position + 1}`,
+      node.position
+    );
+  }
+  return value;
+}
+
+/**
+ * Evaluates a parsed expression against a variable scope.
+ * @throws ExpressionError for unknown variables/functions, bad arity, division by zero
+ * or results that are not finite
+ */
+export function evaluateExpressionNode(node: ExpressionNode, scope: ExpressionScope): number {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+
+    case 'identifier': {
+      const value = resolveIdentifier(node.name, scope);
+      if (value === undefined) {
+        throw new ExpressionError(
+          'unknown-variable',
+          `Variável desconhecida '${node.name}' na coluna ${node.position + 1}`,
+          node.position,
+          node.name
+        );
+      }
+      return value;
+    }
+
+    case 'unary': {
+      const operand = evaluateExpressionNode(node.operand, scope);
+      if (node.operator === '-') return -operand;
+      if (node.operator === '!') return truthy(operand) ? 0 : 1;
+      return operand;
+    }
+
+    case 'conditional':
+      return truthy(evaluateExpressionNode(node.test, scope))
+        ? evaluateExpressionNode(node.consequent, scope)
+        : evaluateExpressionNode(node.alternate, scope);
+
+    case 'binary': {
+      // Short-circuit boolean operators
+      if (node.operator === '&&') {
+        return truthy(evaluateExpressionNode(node.left, scope)) && truthy(evaluateExpressionNode(node.right, scope)) ? 1 : 0;
+      }
+      if (node.operator === '||') {
+        return truthy(evaluateExpressionNode(node.left, scope)) || truthy(evaluateExpressionNode(node.right, scope)) ? 1 : 0;
+      }
+
+      const left = evaluateExpressionNode(node.left, scope);
+      const right = evaluateExpressionNode(node.right, scope);
+
+      switch (node.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/':
+        case '%':
+          if (right === 0) {
+            throw new ExpressionError(
+              'division-by-zero',
+              `Divisão por zero na coluna ${node.position + 1}`,
+              node.position
+            );
+          }
+          return node.operator === '/' ? left / right : left % right;
+        case '^': return checkFinite(Math.pow(left, right), node);
+        case '<': return left < right ? 1 : 0;
+        case '<=': return left <= right ? 1 : 0;
+        case '>': return left > right ? 1 : 0;
+        case '>=': return left >= right ? 1 : 0;
+        case '==': return left === right ? 1 : 0;
+        case '!=': return left !== right ? 1 : 0;
+      }
+      return 0;
+    }
+
+    case 'call': {
+      const fn = hasOwn(FUNCTIONS, node.callee) ? FUNCTIONS[node.callee] : undefined;
+      if (!fn) {
+        throw new ExpressionError(
+          'unknown-function',
+          `Função desconhecida '${node.callee}' na coluna ${node.position + 1}`,
+          node.position,
+          node.callee
+        );
+      }
+      if (node.args.length < fn.minArgs || node.args.length > fn.maxArgs) {
+        throw new ExpressionError(
+          'invalid-arguments',
+          `Número de argumentos inválido para '${node.callee}' na coluna ${node.position + 1}`,
+          node.position,
+          node.callee
+        );
+      }
+      if (fn.lazy) {
+        // if(cond, a, b) only evaluates the taken branch
+        const [test, consequent, alternate] = node.args;
+        return truthy(evaluateExpressionNode(test, scope))
+          ? evaluateExpressionNode(consequent, scope)
+          : evaluateExpressionNode(alternate, scope);
+      }
+      return checkFinite(fn.apply(node.args.map((arg) => evaluateExpressionNode(arg, scope))), node);
+    }
+  }
+}
+
+/**
+ * Collects the variable names referenced by an expression (function names excluded).
+ */
+export function getExpressionIdentifiers(node: ExpressionNode): string[] {
+  const names = new Set<string>();
+  const visit = (n: ExpressionNode): void => {
+    switch (n.type) {
+      case 'identifier':
+        names.add(n.name);
+        break;
+      case 'unary':
+        visit(n.operand);
+        break;
+      case 'binary':
+        visit(n.left);
+        visit(n.right);
+        break;
+      case 'conditional':
+        visit(n.test);
+        visit(n.consequent);
+        visit(n.alternate);
+        break;
+      case 'call':
+        n.args.forEach(visit);
+        break;
+    }
+  };
+  visit(node);
+  return Array.from(names);
+}
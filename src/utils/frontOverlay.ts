@@ -0,0 +1,88 @@
+import type { DoorOverlayMode, HardwareItem, PatternZone, RuleSet } from '../types';
+
+// ============================================
+// Front Overlay
+// ============================================
+
+/**
+ * What borders a front's opening on one side: a carcass panel (side, top, bottom),
+ * a partition shared with the next column, or the front of the next zone in the column
+ */
+export type FrontEdgeKind = 'carcass' | 'partition' | 'front';
+
+export interface FrontEdges {
+  left: FrontEdgeKind;
+  right: FrontEdgeKind;
+  top: FrontEdgeKind;
+  bottom: FrontEdgeKind;
+}
+
+/**
+ * Overlay mode of a zone's fronts: zone option > rule set > full overlay
+ */
+export function resolveDoorOverlayMode(zone: PatternZone, ruleSet?: RuleSet): DoorOverlayMode {
+  return zone.options?.doorOverlayMode ?? ruleSet?.construction.doorOverlay ?? 'full-overlay';
+}
+
+/**
+ * How far a front reaches past one edge of its opening (mm, negative when it
+ * stops short of it), net of its share of the gap
+ */
+function getEdgeOverlay(mode: DoorOverlayMode, kind: FrontEdgeKind, panelThickness: number, gap: number): number {
+  // Fronts stacked in a column split the gap between them
+  if (kind === 'front') return -gap / 2;
+  // Inset fronts keep a full gap to the panel around them
+  if (mode === 'inset') return -gap;
+  // Overlay fronts share a partition with the front of the next column, half each
+  const coverage = mode === 'full-overlay' && kind === 'carcass' ? panelThickness : panelThickness / 2;
+  return coverage - gap / 2;
+}
+
+/**
+ * Overlay of a front on each edge of its opening. A front is as wide as its
+ * opening plus its left and right overlays, and as high as its opening plus
+ * its top and bottom overlays.
+ */
+export function getFrontOverlays(
+  mode: DoorOverlayMode,
+  edges: FrontEdges,
+  panelThickness: number,
+  gap: number
+): Record<keyof FrontEdges, number> {
+  return {
+    left: getEdgeOverlay(mode, edges.left, panelThickness, gap),
+    right: getEdgeOverlay(mode, edges.right, panelThickness, gap),
+    top: getEdgeOverlay(mode, edges.top, panelThickness, gap),
+    bottom: getEdgeOverlay(mode, edges.bottom, panelThickness, gap),
+  };
+}
+
+/**
+ * Door overlay a hinge's arm is cranked for
+ */
+export function getHingeCrank(hinge: HardwareItem): DoorOverlayMode {
+  return hinge.specifications?.crank ?? 'full-overlay';
+}
+
+/**
+ * Picks the hinge cranked for an overlay mode, closest to a given hinge: the same
+ * brand, model and opening angle if available, else the same brand and model,
+ * else any available hinge with that crank.
+ *
+ * @returns The matching hinge, or the given hinge when it already fits or none does
+ */
+export function selectHingeForOverlay(
+  hardware: HardwareItem[],
+  hinge: HardwareItem | undefined,
+  mode: DoorOverlayMode
+): HardwareItem | undefined {
+  if (!hinge || getHingeCrank(hinge) === mode) return hinge;
+
+  const cranked = hardware.filter((h) => h.type === 'hinge' && h.isAvailable !== false && getHingeCrank(h) === mode);
+  const sameFamily = cranked.filter((h) => h.brand === hinge.brand && h.model === hinge.model);
+
+  return sameFamily.find((h) => h.specifications?.openingAngle === hinge.specifications?.openingAngle)
+    ?? sameFamily[0]
+    ?? cranked[0]
+    ?? hinge;
+}
@@ -0,0 +1,204 @@
+import type {
+  CabinetPattern,
+  ExpressionContext,
+  FrontComponentKind,
+  FrontStyle,
+  MachiningGroove,
+  PartRule,
+  PatternZone,
+} from '../types';
+import { getZoneVariablePrefix } from './drawerSlides';
+import type { MachinedPart } from './machining';
+
+// ============================================
+// Front Styles
+// ============================================
+
+const DEFAULT_FRAME_WIDTHS: Record<FrontStyle['type'], number> = {
+  slab: 0,
+  shaker: 70,
+  'frame-and-panel': 60,
+};
+const DEFAULT_TENON_LENGTH = 10;
+const DEFAULT_PANEL_GROOVE_DEPTH = 10;
+// Only frame-and-panel fronts have a raised panel
+const DEFAULT_RAISE_WIDTHS: Record<FrontStyle['type'], number> = {
+  slab: 0,
+  shaker: 0,
+  'frame-and-panel': 40,
+};
+const DEFAULT_PANEL_TONGUE = 6;
+
+// Frame components a handle goes through: a door's opening stile, the top rail
+const OPENING_STILE_SUFFIX = '-stile';
+const TOP_RAIL_SUFFIX = '-rail-top';
+
+// Frame parts and centre panels are not edge banded (solid frame, panel in grooves)
+const NO_EDGE_BANDING: PartRule['edgeBanding'] = { length1: false, length2: false, width1: false, width2: false };
+
+/**
+ * Whether a front style builds the front from a frame and a centre
+ */
+export function isFramedFront(style: FrontStyle | undefined): style is FrontStyle {
+  return style !== undefined && style.type !== 'slab';
+}
+
+/**
+ * Frame dimensions of a front style, with the defaults of its type
+ */
+export function getFrontFrameDimensions(style: FrontStyle): {
+  frameWidth: number;
+  tenonLength: number;
+  panelGrooveDepth: number;
+  raiseWidth: number;
+  panelTongue: number;
+} {
+  return {
+    frameWidth: style.frameWidth ?? DEFAULT_FRAME_WIDTHS[style.type],
+    tenonLength: style.tenonLength ?? DEFAULT_TENON_LENGTH,
+    panelGrooveDepth: style.panelGrooveDepth ?? DEFAULT_PANEL_GROOVE_DEPTH,
+    raiseWidth: style.type === 'frame-and-panel' ? style.raiseWidth ?? DEFAULT_RAISE_WIDTHS[style.type] : 0,
+    panelTongue: style.panelTongue ?? DEFAULT_PANEL_TONGUE,
+  };
+}
+
+/**
+ * Whether a framed front's component takes the handle, by its rule id: the opening
+ * stile of a door for vertical handles, the top rail for the others
+ */
+export function isHandleComponent(ruleId: string | undefined, vertical: boolean): boolean {
+  return !!ruleId && ruleId.endsWith(vertical ? OPENING_STILE_SUFFIX : TOP_RAIL_SUFFIX);
+}
+
+/**
+ * Fielding of a raised panel (frame-and-panel fronts): a rebate along every edge of
+ * the panel's outer face, over the part in the grooves plus the raise width, that
+ * leaves the panel edges as thick as the tongue. Flat (shaker) panels have none.
+ */
+export function getRaisedPanelMachining(style: FrontStyle, panel: MachinedPart): MachiningGroove[] {
+  const { panelGrooveDepth, raiseWidth, panelTongue } = getFrontFrameDimensions(style);
+  if (raiseWidth <= 0 || panel.thickness <= panelTongue) return [];
+
+  return (['length1', 'length2', 'width1', 'width2'] as const).map((edge) => ({
+    type: 'groove',
+    face: 'outer',
+    edge,
+    offset: 0,
+    width: panelGrooveDepth + raiseWidth,
+    depth: panel.thickness - panelTongue,
+    purpose: 'raised-panel',
+  }));
+}
+
+/**
+ * Adds the frame dimensions of a zone with a framed front to the context
+ * (e.g. zone_door_1_frame_width, zone_door_1_tenon_length, zone_door_1_panel_groove),
+ * named by getZoneVariablePrefix() like the expanded rules that use them
+ */
+export function addFrontStyleVariables(context: ExpressionContext, zone: PatternZone): void {
+  const style = zone.options?.frontStyle;
+  if (!isFramedFront(style)) return;
+
+  const prefix = getZoneVariablePrefix(zone);
+  const { frameWidth, tenonLength, panelGrooveDepth } = getFrontFrameDimensions(style);
+  context[`${prefix}_frame_width`] = frameWidth;
+  context[`${prefix}_tenon_length`] = tenonLength;
+  context[`${prefix}_panel_groove`] = panelGrooveDepth;
+}
+
+/**
+ * Expands the rule of a framed front into its components. The front is the rule's
+ * length across by its width high:
+ * - stiles: full height, frame width wide (on doors, the hinge-side stile takes the
+ *   hinges and the opening stile a vertical handle)
+ * - top and bottom rails: between the stiles, plus a tenon into each stile (the top
+ *   rail takes a drawer's handle)
+ * - centre panel or glass: the frame opening plus the groove depth on each side,
+ *   grain running up the front; frame-and-panel panels are raised (see getRaisedPanelMachining())
+ *
+ * Components keep the front's zone, role, condition and optional flag. The frame and
+ * the panel take the style's materials; glass is listed with its own material only.
+ */
+export function expandFrontRule(rule: PartRule, zone: PatternZone): PartRule[] {
+  const style = zone.options?.frontStyle;
+  if (!isFramedFront(style)) return [rule];
+
+  const prefix = getZoneVariablePrefix(zone);
+  const across = `(${rule.lengthExpression})`;
+  const high = `(${rule.widthExpression})`;
+  const quantity = `(${rule.quantityExpression})`;
+  const frameWidth = `${prefix}_frame_width`;
+  const groove = `${prefix}_panel_groove`;
+
+  const component = (kind: FrontComponentKind) => ({
+    zoneId: rule.zoneId,
+    role: rule.role,
+    isOptional: rule.isOptional,
+    condition: rule.condition,
+    frontComponent: { kind, frontRuleId: rule.id },
+  });
+  const frame = {
+    widthExpression: frameWidth,
+    materialId: style.frameMaterialId,
+    material: rule.material,
+    grain: 'length' as const,
+    edgeBanding: NO_EDGE_BANDING,
+  };
+
+  const stiles: PartRule[] = rule.hingeSide
+    ? [
+        { ...component('stile'), ...frame, id: `${rule.id}-stile-hinge`, partName: `${rule.partName} - Montante`, lengthExpression: high, quantityExpression: quantity, hingeSide: rule.hingeSide },
+        { ...component('stile'), ...frame, id: `${rule.id}${OPENING_STILE_SUFFIX}`, partName: `${rule.partName} - Montante`, lengthExpression: high, quantityExpression: quantity },
+      ]
+    : [
+        { ...component('stile'), ...frame, id: `${rule.id}-stiles`, partName: `${rule.partName} - Montante`, lengthExpression: high, quantityExpression: `2 * ${quantity}` },
+      ];
+
+  const rail = {
+    ...component('rail'),
+    ...frame,
+    lengthExpression: `${across} - 2 * ${frameWidth} + 2 * ${prefix}_tenon_length`,
+    quantityExpression: quantity,
+  };
+  const rails: PartRule[] = [
+    { ...rail, id: `${rule.id}${TOP_RAIL_SUFFIX}`, partName: `${rule.partName} - Travessa Superior` },
+    { ...rail, id: `${rule.id}-rail-bottom`, partName: `${rule.partName} - Travessa Inferior` },
+  ];
+
+  const isGlass = style.centre === 'glass';
+  const centre: PartRule = {
+    ...component(isGlass ? 'glass' : 'panel'),
+    id: `${rule.id}-${isGlass ? 'glass' : 'panel'}`,
+    partName: `${rule.partName} - ${isGlass ? 'Vidro' : 'Almofada'}`,
+    lengthExpression: `${high} - 2 * ${frameWidth} + 2 * ${groove}`,
+    widthExpression: `${across} - 2 * ${frameWidth} + 2 * ${groove}`,
+    quantityExpression: quantity,
+    materialId: style.panelMaterialId,
+    material: isGlass ? 'Vidro' : rule.material,
+    grain: isGlass ? 'none' : 'length',
+    edgeBanding: NO_EDGE_BANDING,
+  };
+
+  return [...stiles, ...rails, centre];
+}
+
+/**
+ * Replaces the door and drawer front rules of zones with a framed front style
+ * by the front's components (see expandFrontRule())
+ */
+export function applyFrontStyleRules(pattern: CabinetPattern): CabinetPattern {
+  const zones = new Map(
+    [...pattern.zones, ...(pattern.columns ?? []).flatMap((column) => column.zones)]
+      .filter((zone) => isFramedFront(zone.options?.frontStyle))
+      .map((zone) => [zone.id, zone])
+  );
+  if (zones.size === 0) return pattern;
+
+  return {
+    ...pattern,
+    partRules: pattern.partRules.flatMap((rule) => {
+      const zone = rule.zoneId ? zones.get(rule.zoneId) : undefined;
+      return zone && (rule.role === 'door' || rule.role === 'drawer-front') ? expandFrontRule(rule, zone) : [rule];
+    }),
+  };
+}
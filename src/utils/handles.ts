@@ -0,0 +1,114 @@
+import type {
+  CabinetPattern,
+  HandleConfig,
+  HandleDrilling,
+  HandlePlacement,
+  HardwareItem,
+  PatternZone,
+  RuleSet,
+} from '../types';
+
+// ============================================
+// Handle Placement
+// ============================================
+
+const DEFAULT_EDGE_OFFSET = 40;
+const DEFAULT_HOLE_DIAMETER = 5;
+const TALL_DOOR_HEIGHT = 1200; // Doors from this height get the handle at hand height
+const TALL_DOOR_HANDLE_HEIGHT = 1000; // Handle centre from the bottom of a tall door
+const KNOB_SIZE = 30; // Visible size of a knob (no length in its specifications)
+
+/**
+ * A front to place a handle on (mm)
+ */
+export interface HandleFront {
+  width: number; // Across the front
+  height: number; // Up the front
+  zoneType: 'door' | 'drawer';
+  category: CabinetPattern['category'];
+  hingeSide?: 'left' | 'right'; // Doors: the handle goes beside the other edge
+}
+
+/**
+ * Position of a handle on a front, from the bottom-left corner of its face (mm)
+ */
+export interface HandleLayout {
+  placement: HandlePlacement;
+  x: number; // Handle centre across the front
+  y: number; // Handle centre up the front
+  vertical: boolean;
+  length: number; // Visible length of the handle along its orientation
+}
+
+/**
+ * Handle config of a door or drawer zone: the zone's own over the rule set's
+ * default for the zone type. Undefined when the zone gets no handle.
+ */
+export function resolveHandleConfig(zone: PatternZone, ruleSet?: RuleSet): HandleConfig | undefined {
+  if (zone.type !== 'door' && zone.type !== 'drawer') return undefined;
+  const config: HandleConfig = { ...ruleSet?.handles?.[zone.type], ...zone.options?.handle };
+  return config.handleId ? config : undefined;
+}
+
+/**
+ * Placement of a handle: the configured one, or upright on doors, at the top of
+ * drawers in base cabinets and drawer units, and centred on other drawers
+ */
+export function resolveHandlePlacement(
+  config: HandleConfig,
+  zoneType: HandleFront['zoneType'],
+  category: CabinetPattern['category']
+): HandlePlacement {
+  if (config.placement) return config.placement;
+  if (zoneType === 'door') return 'vertical';
+  return category === 'base' || category === 'drawer-unit' ? 'top' : 'centred';
+}
+
+/**
+ * Places a handle on a front. Upright handles go beside the opening edge: near the
+ * top of base doors, near the bottom of wall doors and at hand height on tall doors.
+ */
+export function getHandleLayout(handle: HardwareItem, config: HandleConfig, front: HandleFront): HandleLayout {
+  const placement = resolveHandlePlacement(config, front.zoneType, front.category);
+  const offset = config.edgeOffset ?? DEFAULT_EDGE_OFFSET;
+  const spacing = handle.specifications?.holeSpacing;
+  const length = handle.specifications?.length ?? (spacing ? spacing : KNOB_SIZE);
+
+  switch (placement) {
+    case 'vertical': {
+      const x = front.hingeSide === 'right' ? offset : front.width - offset;
+      const y = front.height >= TALL_DOOR_HEIGHT
+        ? Math.min(TALL_DOOR_HANDLE_HEIGHT, front.height - offset - length / 2)
+        : front.category === 'wall'
+          ? offset + length / 2
+          : front.height - offset - length / 2;
+      return { placement, x, y, vertical: true, length };
+    }
+    case 'top':
+      return { placement, x: front.width / 2, y: front.height - offset, vertical: false, length };
+    default:
+      return { placement, x: front.width / 2, y: front.height / 2, vertical: false, length };
+  }
+}
+
+/**
+ * Screw holes of a handle on a front: one for a knob, two at the hole spacing for
+ * a bar handle, none for handles without drilling (e.g. handle profiles)
+ */
+export function calculateHandleDrilling(handle: HardwareItem, config: HandleConfig, front: HandleFront): HandleDrilling {
+  const layout = getHandleLayout(handle, config, front);
+  const spacing = handle.specifications?.holeSpacing;
+  const diameter = handle.specifications?.holeDiameter ?? DEFAULT_HOLE_DIAMETER;
+  const round = (value: number) => Math.round(value * 10) / 10;
+
+  const offsets = spacing === undefined ? [] : spacing === 0 ? [0] : [-spacing / 2, spacing / 2];
+  return {
+    handleId: handle.id,
+    placement: layout.placement,
+    holes: offsets.map((d) => ({
+      x: round(layout.vertical ? layout.x : layout.x + d),
+      y: round(layout.vertical ? layout.y + d : layout.y),
+      diameter,
+    })),
+  };
+}
@@ -0,0 +1,705 @@
+import type {
+  CabinetInstance,
+  CabinetPattern,
+  CutPart,
+  ExpressionContext,
+  ExpressionDiagnostic,
+  GlobalSettings,
+  HandleConfig,
+  HardwareCalculationResult,
+  HardwareItem,
+  HardwareRequirement,
+  HardwareRule,
+  HingePosition,
+  JointType,
+  Material,
+  PatternZone,
+  RuleSet,
+  ShelfPinRow,
+} from '../types';
+import {
+  buildCabinetContext,
+  calculateCabinetParts,
+  evaluateExpressionWithDiagnostics,
+  getZoneLayouts,
+  isPartRuleBuilt,
+  resolveInstancePattern,
+  uniqueDiagnostics,
+} from './cabinetLogic';
+import { selectDrawerSlide } from './drawerSlides';
+import { isHandleComponent } from './frontStyles';
+import { resolveDoorOverlayMode, selectHingeForOverlay } from './frontOverlay';
+import { calculateHandleDrilling, resolveHandleConfig } from './handles';
+import { addMachining, getHandleMachining, getHingeMachining } from './machining';
+import { getShelfPinMachining, getShelfPinRows, resolveShelfPinConfig } from './shelfPins';
+import type { ShelfPinRange } from './shelfPins';
+
+// ============================================
+// Hardware Resolution
+// ============================================
+
+/**
+ * Resolves the library item a hardware rule uses. Precedence:
+ * 1. Instance override (hardwareOverrides by rule id or by the rule's hardware id)
+ * 2. Hardware preset of the zone, when it is the same kind of hardware
+ * 3. Global default preset (defaultHardwarePresets by the rule's hardware id or type)
+ * 4. The rule's own hardware id
+ *
+ * A rule may name a hardware type (e.g. "hinge") instead of a library item; without
+ * a preset for it, the first available library item of that type is used.
+ */
+export function resolveHardwareItem(
+  rule: HardwareRule,
+  hardware: HardwareItem[],
+  globalSettings: GlobalSettings,
+  hardwareOverrides?: Record<string, string>,
+  zone?: PatternZone
+): HardwareItem | undefined {
+  const findById = (id: string | undefined) => (id ? hardware.find((h) => h.id === id) : undefined);
+
+  const override = findById(hardwareOverrides?.[rule.id] ?? hardwareOverrides?.[rule.hardwareId]);
+  if (override) return override;
+
+  const baseItem =
+    findById(globalSettings.defaultHardwarePresets?.[rule.hardwareId]) ??
+    findById(rule.hardwareId) ??
+    hardware.find((h) => h.type === rule.hardwareId && h.isAvailable !== false);
+
+  const zonePreset = findById(zone?.options?.hardwarePreset);
+  if (zonePreset && zonePreset.type === (baseItem?.type ?? rule.hardwareId)) return zonePreset;
+
+  return baseItem;
+}
+
+/**
+ * Checks a hardware rule's size conditions against the size of the zone
+ * (or of the cabinet, for cabinet-level rules)
+ */
+function meetsSizeCondition(rule: HardwareRule, width: number, height: number): boolean {
+  const { minWidth, maxWidth, minHeight, maxHeight } = rule.condition ?? {};
+  if (minWidth !== undefined && width < minWidth) return false;
+  if (maxWidth !== undefined && width > maxWidth) return false;
+  if (minHeight !== undefined && height < minHeight) return false;
+  if (maxHeight !== undefined && height > maxHeight) return false;
+  return true;
+}
+
+// ============================================
+// Hinges
+// ============================================
+
+// Cup bore for hinges without specifications (35mm cup, the European standard)
+const DEFAULT_CUP_DIAMETER = 35;
+const DEFAULT_CUP_DEPTH = 13;
+const DEFAULT_BORE_DISTANCE = 4; // Door edge to cup edge
+const HINGE_END_OFFSET = 100; // Top and bottom hinge centres from the ends of the door
+const HINGE_LOAD = 4.5; // kg of door each hinge carries (in line with manufacturer charts)
+
+// Hinges needed by door height, up to the given height
+const HINGE_COUNT_BY_HEIGHT = [
+  { maxHeight: 900, count: 2 },
+  { maxHeight: 1600, count: 3 },
+  { maxHeight: 2000, count: 4 },
+  { maxHeight: 2400, count: 5 },
+];
+
+// Hinge rule for patterns that don't define one
+const DEFAULT_HINGE_RULE: HardwareRule = {
+  id: 'hinges',
+  hardwareId: 'hinge',
+  quantityExpression: 'hinge_count',
+  condition: { zoneType: ['door'] },
+};
+
+/**
+ * Number of hinges a door needs: by its height, and more for heavy doors
+ *
+ * @param doorHeight - Door height along the hinged edge (mm)
+ * @param doorWeight - Door weight (kg), 0 if unknown
+ */
+export function getHingeCount(doorHeight: number, doorWeight = 0): number {
+  const byHeight = HINGE_COUNT_BY_HEIGHT.find((step) => doorHeight <= step.maxHeight)?.count
+    ?? Math.ceil(doorHeight / 500);
+  return Math.max(byHeight, Math.ceil(doorWeight / HINGE_LOAD));
+}
+
+/**
+ * Weight of a panel (kg) from its size and the material's weight per m²
+ */
+export function getPanelWeight(length: number, width: number, material?: Material): number {
+  return ((length * width) / 1_000_000) * (material?.properties?.weight ?? 0);
+}
+
+/**
+ * Spreads hinges along the hinged edge of a door: the first and last at a fixed
+ * distance from the ends, the others evenly between them. The cup bore comes
+ * from the hinge's specifications (35mm cup 4mm from the edge when not given).
+ */
+export function calculateHingePositions(doorHeight: number, count: number, hinge?: HardwareItem): HingePosition[] {
+  const diameter = hinge?.specifications?.cupDiameter ?? DEFAULT_CUP_DIAMETER;
+  const depth = hinge?.specifications?.cupDepth ?? DEFAULT_CUP_DEPTH;
+  const boreDistance = hinge?.specifications?.boreDistance ?? DEFAULT_BORE_DISTANCE;
+
+  const endOffset = Math.min(HINGE_END_OFFSET, doorHeight / 4);
+  const spacing = count > 1 ? (doorHeight - 2 * endOffset) / (count - 1) : 0;
+
+  return Array.from({ length: count }, (_, i) => {
+    const position = Math.round((count > 1 ? endOffset + i * spacing : doorHeight / 2) * 10) / 10;
+    return {
+      position,
+      cupBore: { x: boreDistance + diameter / 2, y: position, diameter, depth },
+    };
+  });
+}
+
+/**
+ * Resolves the hinge of a door zone (see resolveHardwareItem()). Unless the hinge was
+ * chosen on the instance or the zone, it is swapped for the closest hinge cranked for
+ * the zone's overlay mode.
+ */
+function resolveZoneHinge(
+  rule: HardwareRule,
+  hardware: HardwareItem[],
+  globalSettings: GlobalSettings,
+  cabinet: CabinetInstance,
+  zone: PatternZone | undefined,
+  ruleSet?: RuleSet
+): HardwareItem | undefined {
+  const hinge = resolveHardwareItem(rule, hardware, globalSettings, cabinet.hardwareOverrides, zone);
+  const chosenIds = [
+    cabinet.hardwareOverrides?.[rule.id],
+    cabinet.hardwareOverrides?.[rule.hardwareId],
+    zone?.options?.hardwarePreset,
+  ];
+  if (!zone || hinge?.type !== 'hinge' || chosenIds.includes(hinge.id)) return hinge;
+  return selectHingeForOverlay(hardware, hinge, resolveDoorOverlayMode(zone, ruleSet));
+}
+
+/**
+ * The hardware rule a pattern uses for door hinges
+ */
+function getHingeRule(pattern: CabinetPattern, hardware: HardwareItem[], globalSettings: GlobalSettings): HardwareRule {
+  return pattern.hardwareRules?.find((rule) =>
+    rule.condition?.zoneType?.includes('door') &&
+    resolveHardwareItem(rule, hardware, globalSettings)?.type === 'hinge'
+  ) ?? DEFAULT_HINGE_RULE;
+}
+
+/**
+ * Hinges of a door part (a part with a hinge side): how many by its height and weight
+ * (see getHingeCount()), spread along its hinged edge. Doors are sized with their height
+ * along the part width, as generated for door zones; framed doors are hinged on their
+ * hinge-side stile, whose length is the door height. Both the drilling and the hardware
+ * count use these hinges.
+ */
+export function getDoorPartHinges(part: CutPart, materials: Material[], hinge?: HardwareItem): HingePosition[] {
+  const isStile = part.frontComponent === 'stile';
+  const doorLength = isStile ? part.designWidth ?? part.width : part.designLength ?? part.length;
+  const doorHeight = isStile ? part.designLength ?? part.length : part.designWidth ?? part.width;
+  const material = materials.find((m) => m.id === part.materialId);
+
+  // A stile alone doesn't give the door weight: framed doors get hinges by height
+  const doorWeight = isStile ? 0 : getPanelWeight(doorLength, doorHeight, material);
+  return calculateHingePositions(doorHeight, getHingeCount(doorHeight, doorWeight), hinge);
+}
+
+/**
+ * Adds hinge positions to the doors of a cabinet's cut parts (see getDoorPartHinges()).
+ * The rule set gives the default overlay mode the hinge crank is chosen for.
+ * The cup bores are added to the doors' machining operations.
+ */
+export function placeDoorHinges(
+  parts: CutPart[],
+  cabinet: CabinetInstance,
+  basePattern: CabinetPattern,
+  globalSettings: GlobalSettings,
+  hardware: HardwareItem[],
+  materials: Material[],
+  ruleSet?: RuleSet
+): CutPart[] {
+  const pattern = resolveInstancePattern(basePattern, cabinet.zoneOverrides);
+  const hingeRule = getHingeRule(pattern, hardware, globalSettings);
+  const zones = getZoneLayouts(pattern).map(({ zone }) => zone);
+
+  return parts.map((part) => {
+    if (!part.hingeSide) return part;
+
+    const zone = zones.find((z) => z.id === part.zoneId);
+    const hinge = resolveZoneHinge(hingeRule, hardware, globalSettings, cabinet, zone, ruleSet);
+    const hinges = getDoorPartHinges(part, materials, hinge);
+    const machinedPart = { length: part.length, width: part.width, thickness: part.thickness ?? 0 };
+    return addMachining({ ...part, hinges }, getHingeMachining(hinges, part.hingeSide, machinedPart, part.frontComponent === 'stile'));
+  });
+}
+
+// ============================================
+// Handles
+// ============================================
+
+/**
+ * Resolves the handle of a door or drawer zone: the handle config (see resolveHandleConfig()),
+ * the hardware rule it counts under and the library item, which an instance override of
+ * the "handles" rule or a handle preset on the zone replaces.
+ */
+export function resolveFrontHandle(
+  zone: PatternZone,
+  hardware: HardwareItem[],
+  globalSettings: GlobalSettings,
+  cabinet: CabinetInstance,
+  ruleSet?: RuleSet
+): { config: HandleConfig; rule: HardwareRule; handle: HardwareItem } | undefined {
+  const config = resolveHandleConfig(zone, ruleSet);
+  if (!config?.handleId) return undefined;
+
+  const rule: HardwareRule = {
+    id: 'handles',
+    hardwareId: config.handleId,
+    quantityExpression: 'door_leaves',
+    condition: { zoneType: ['door', 'drawer'] },
+  };
+  const handle = resolveHardwareItem(rule, hardware, globalSettings, cabinet.hardwareOverrides, zone);
+  return handle ? { config, rule, handle } : undefined;
+}
+
+/**
+ * Adds the handle drilling to the doors and drawer fronts of a cabinet's cut parts.
+ * Fronts are laid out in their cut size, across along the part length and up along
+ * the part width, as generated for door and drawer zones. On framed fronts the handle
+ * goes through the middle of a frame component (see isHandleComponent()): a vertical
+ * handle through the opening stile, whose length is the door height, any other
+ * through the top rail, centred along it. The holes, in the drilled part's frame,
+ * are added to its machining operations.
+ */
+export function placeFrontHandles(
+  parts: CutPart[],
+  cabinet: CabinetInstance,
+  basePattern: CabinetPattern,
+  globalSettings: GlobalSettings,
+  hardware: HardwareItem[],
+  ruleSet?: RuleSet
+): CutPart[] {
+  const pattern = resolveInstancePattern(basePattern, cabinet.zoneOverrides);
+  const zones = getZoneLayouts(pattern).map(({ zone }) => zone);
+
+  return parts.map((part) => {
+    if (part.role !== 'door' && part.role !== 'drawer-front') return part;
+    if (part.frontComponent && part.frontComponent !== 'stile' && part.frontComponent !== 'rail') return part;
+
+    const zone = zones.find((z) => z.id === part.zoneId);
+    const frontHandle = zone && resolveFrontHandle(zone, hardware, globalSettings, cabinet, ruleSet);
+    if (!frontHandle) return part;
+
+    const isStile = part.frontComponent === 'stile';
+    const drilling = calculateHandleDrilling(frontHandle.handle, frontHandle.config, {
+      width: isStile ? part.width : part.length,
+      height: isStile ? part.length : part.width,
+      zoneType: part.role === 'door' ? 'door' : 'drawer',
+      category: basePattern.category,
+      hingeSide: part.hingeSide,
+    });
+
+    const vertical = drilling.placement === 'vertical';
+    if (part.frontComponent && (vertical !== isStile || !isHandleComponent(part.ruleId, vertical))) return part;
+
+    const handle = part.frontComponent
+      ? { ...drilling, holes: drilling.holes.map((hole) => ({ ...hole, x: isStile ? hole.y : hole.x, y: part.width / 2 })) }
+      : drilling;
+    const machinedPart = { length: part.length, width: part.width, thickness: part.thickness ?? 0 };
+    return addMachining({ ...part, handle }, getHandleMachining(handle, machinedPart));
+  });
+}
+
+// ============================================
+// Shelf Pins
+// ============================================
+
+const SHELF_PIN_RULE: HardwareRule = {
+  id: 'shelf-pins',
+  hardwareId: 'shelf-pin',
+  quantityExpression: 'shelf_pin_count',
+};
+
+/**
+ * Adjustable shelves of a cabinet (rules flagged isAdjustable, or shelves of 'shelf'
+ * zones) that are built on the instance, with the range of their shelf-pin rows:
+ * their zone, or the whole interior for shelves outside the zone layout.
+ * `column` is the index of the zone's column; shelves outside the zone layout have
+ * none and rest on both carcass sides. Expression problems are added to `diagnostics`
+ * when given.
+ */
+function getAdjustableShelves(
+  pattern: CabinetPattern,
+  context: ExpressionContext,
+  cabinet: CabinetInstance,
+  ruleSet?: RuleSet,
+  diagnostics?: ExpressionDiagnostic[]
+): { quantity: number; range: ShelfPinRange; column?: number }[] {
+  const columns = pattern.columns && pattern.columns.length > 0
+    ? pattern.columns.map((column) => column.zones)
+    : [pattern.zones];
+
+  // Zone spans from the bottom of the interior, stacked from the last zone up
+  const zoneSpans = new Map<string, { zone: PatternZone; bottom: number; top: number; column: number }>();
+  columns.forEach((zones, colIdx) => {
+    let bottom = 0;
+    for (let zoneIdx = zones.length - 1; zoneIdx >= 0; zoneIdx--) {
+      const heightVar = pattern.columns && pattern.columns.length > 0 ? `col_${colIdx}_zone_${zoneIdx}_height` : `zone_${zoneIdx}_height`;
+      const top = bottom + (context[heightVar] ?? 0);
+      zoneSpans.set(zones[zoneIdx].id, { zone: zones[zoneIdx], bottom, top, column: colIdx });
+      bottom = top;
+    }
+  });
+
+  return pattern.partRules.flatMap((rule) => {
+    if (rule.role !== 'shelf') return [];
+    const span = rule.zoneId ? zoneSpans.get(rule.zoneId) : undefined;
+    if (!(rule.isAdjustable ?? span?.zone.type === 'shelf')) return [];
+    if (!isPartRuleBuilt(rule, context, cabinet.optionalParts, diagnostics)) return [];
+
+    const { value, diagnostic } = evaluateExpressionWithDiagnostics(rule.quantityExpression, context);
+    if (diagnostic) diagnostics?.push({ ...diagnostic, ruleId: rule.id, partName: rule.partName, field: 'quantityExpression' });
+    const quantity = Math.max(0, Math.round(value));
+    const range: ShelfPinRange = span
+      ? { bottom: span.bottom, top: span.top, config: resolveShelfPinConfig(ruleSet, span.zone) }
+      : { bottom: 0, top: context.internal_height ?? 0, config: resolveShelfPinConfig(ruleSet) };
+    return quantity > 0 ? [{ quantity, range, column: span?.column }] : [];
+  });
+}
+
+/**
+ * Number of shelf pins a cabinet needs: pins per shelf for each adjustable shelf
+ */
+function getShelfPinCount(shelves: ReturnType<typeof getAdjustableShelves>): number {
+  return shelves.reduce((sum, { quantity, range }) => sum + quantity * range.config.pinsPerShelf, 0);
+}
+
+/**
+ * Adds the shelf-pin rows of adjustable shelves to the side panels (rules flagged
+ * isSidePanel) and vertical dividers (rules with a dividerColumn) of a cabinet's cut
+ * parts, and their holes to the parts' machining operations. The left side takes the
+ * rows of the first column, the right side those of the last; a divider takes the rows
+ * of the column on its left on its inner face and of the next one on its outer face.
+ * Both sides are cut from one part when their rows are the same, otherwise they are
+ * split into a left and a right side.
+ * Rows are only drilled when the rule set's shelf-pin config is enabled.
+ */
+export function placeShelfPinRows(
+  parts: CutPart[],
+  cabinet: CabinetInstance,
+  basePattern: CabinetPattern,
+  globalSettings: GlobalSettings,
+  hardware: HardwareItem[],
+  ruleSet?: RuleSet
+): CutPart[] {
+  const pattern = resolveInstancePattern(basePattern, cabinet.zoneOverrides);
+  const panelRules = new Map(
+    pattern.partRules.filter((rule) => rule.isSidePanel || rule.dividerColumn !== undefined).map((rule) => [rule.id, rule])
+  );
+  if (panelRules.size === 0) return parts;
+
+  const context = getCabinetContext(cabinet, pattern, globalSettings, hardware, ruleSet);
+  const shelves = getAdjustableShelves(pattern, context, cabinet, ruleSet).filter(({ range }) => range.config.enabled);
+  if (shelves.length === 0) return parts;
+
+  const lastColumn = Math.max(0, (pattern.columns?.length ?? 0) - 1);
+  // Shelves outside the zone layout span the interior: they rest on the sides only
+  const getRanges = (column: number, onSide: boolean) => shelves
+    .filter((shelf) => shelf.column === column || (onSide && shelf.column === undefined))
+    .map(({ range }) => range);
+
+  return parts.flatMap((part) => {
+    const rule = part.ruleId ? panelRules.get(part.ruleId) : undefined;
+    if (!rule) return [part];
+
+    // The panel's bottom end is below the top of the bottom panel when it runs past it
+    const panelLength = part.designLength ?? part.length;
+    const interiorBottom = Math.max(0, panelLength - (context.total_height ?? 0) + (context.material_thickness ?? 0));
+    const machinedPart = { length: part.length, width: part.width, thickness: part.thickness ?? 0 };
+    const drill = (drilledPart: CutPart, shelfPinRows: ShelfPinRow[]) => shelfPinRows.length > 0
+      ? addMachining({ ...drilledPart, shelfPinRows }, getShelfPinMachining(shelfPinRows, machinedPart))
+      : drilledPart;
+
+    if (rule.dividerColumn !== undefined) {
+      return [drill(part, [
+        ...getShelfPinRows(getRanges(rule.dividerColumn, false), interiorBottom),
+        ...getShelfPinRows(getRanges(rule.dividerColumn + 1, false), interiorBottom).map((row) => ({ ...row, face: 'outer' as const })),
+      ])];
+    }
+
+    const leftRows = getShelfPinRows(getRanges(0, true), interiorBottom);
+    const rightRows = getShelfPinRows(getRanges(lastColumn, true), interiorBottom);
+    if (JSON.stringify(leftRows) === JSON.stringify(rightRows)) return [drill(part, leftRows)];
+
+    const leftQuantity = Math.ceil(part.quantity / 2);
+    return [
+      drill({ ...part, partName: `${part.partName} - Esquerda`, quantity: leftQuantity }, leftRows),
+      drill({ ...part, partName: `${part.partName} - Direita`, quantity: part.quantity - leftQuantity }, rightRows),
+    ].filter((side) => side.quantity > 0);
+  });
+}
+
+// ============================================
+// Cut Parts
+// ============================================
+
+/**
+ * Calculates the cut parts of a cabinet instance (see calculateCabinetParts()) with its
+ * hardware placed on them: hinges on the doors, handle drilling on the fronts and
+ * shelf-pin rows on the side panels and dividers, each with its machining operations.
+ * Parts listed or exported anywhere come from here, so they show the same operations.
+ */
+export function calculateCabinetPartsWithHardware(
+  cabinet: CabinetInstance,
+  pattern: CabinetPattern,
+  globalSettings: GlobalSettings,
+  ruleSet?: RuleSet,
+  materials: Material[] = [],
+  jointTypes?: JointType[],
+  hardware: HardwareItem[] = []
+): CutPart[] {
+  const parts = calculateCabinetParts(cabinet, pattern, globalSettings, ruleSet, materials, jointTypes, hardware);
+  const partsWithHinges = placeDoorHinges(parts, cabinet, pattern, globalSettings, hardware, materials, ruleSet);
+  const partsWithHandles = placeFrontHandles(partsWithHinges, cabinet, pattern, globalSettings, hardware, ruleSet);
+  return placeShelfPinRows(partsWithHandles, cabinet, pattern, globalSettings, hardware, ruleSet);
+}
+
+// ============================================
+// Hardware Calculator
+// ============================================
+
+/**
+ * Expression context of a cabinet's hardware rules
+ */
+function getCabinetContext(
+  cabinet: CabinetInstance,
+  pattern: CabinetPattern,
+  globalSettings: GlobalSettings,
+  hardware: HardwareItem[],
+  ruleSet?: RuleSet
+): ExpressionContext {
+  return buildCabinetContext(
+    pattern,
+    cabinet.dimensions,
+    globalSettings,
+    cabinet.variableOverrides,
+    cabinet.zoneProportions,
+    ruleSet,
+    {
+      columnProportions: cabinet.columnProportions,
+      columnZoneProportions: cabinet.columnZoneProportions,
+      hardware,
+      backPanelConfig: cabinet.backPanelConfig ?? cabinet.backPanel,
+    }
+  ).context;
+}
+
+/**
+ * Calculates the hardware a cabinet instance needs from its pattern's hardware rules.
+ *
+ * Rules with a zoneType condition are evaluated once per matching zone, with the
+ * zone's opening in the context (zone_width, zone_height, zone_index, door_leaves,
+ * and hinge_count: the hinges drilled into the zone's door parts, see getDoorPartHinges());
+ * other rules are evaluated once for the cabinet. Size conditions compare against
+ * the zone, or the cabinet for cabinet-level rules.
+ *
+ * Drawer slides of drawer zones are the slides that size the drawer boxes (see selectDrawerSlide()),
+ * and door hinges are cranked for the zone's overlay mode (see selectHingeForOverlay()).
+ * Fronts with a handle (see resolveFrontHandle()) add one handle per door leaf or drawer,
+ * unless the pattern has handle rules of its own. Adjustable shelves set shelf_pin_count
+ * (pins per shelf for each shelf) and add that many shelf pins unless the pattern counts
+ * shelf pins with rules of its own.
+ * Zones whose parts are not built on the instance (optional parts switched off, or
+ * conditions that are false) need no hardware.
+ */
+export function calculateCabinetHardware(
+  cabinet: CabinetInstance,
+  basePattern: CabinetPattern,
+  globalSettings: GlobalSettings,
+  hardware: HardwareItem[],
+  ruleSet?: RuleSet,
+  materials: Material[] = [],
+  jointTypes?: JointType[]
+): HardwareRequirement[] {
+  return calculateCabinetHardwareWithDiagnostics(cabinet, basePattern, globalSettings, hardware, ruleSet, materials, jointTypes)
+    .requirements;
+}
+
+/**
+ * Calculates the hardware a cabinet instance needs (see calculateCabinetHardware()) and
+ * reports the expressions that could not be evaluated, and the hardware of the rules that
+ * is not in the library (listed by id), instead of logging them.
+ */
+export function calculateCabinetHardwareWithDiagnostics(
+  cabinet: CabinetInstance,
+  basePattern: CabinetPattern,
+  globalSettings: GlobalSettings,
+  hardware: HardwareItem[],
+  ruleSet?: RuleSet,
+  materials: Material[] = [],
+  jointTypes?: JointType[]
+): HardwareCalculationResult {
+  const hardwareRules = basePattern.hardwareRules ?? [];
+  const diagnostics: ExpressionDiagnostic[] = [];
+  const missingHardwareIds = new Set<string>();
+
+  const pattern = resolveInstancePattern(basePattern, cabinet.zoneOverrides);
+  const cabinetContext = getCabinetContext(cabinet, pattern, globalSettings, hardware, ruleSet);
+  const shelfPinCount = getShelfPinCount(getAdjustableShelves(pattern, cabinetContext, cabinet, ruleSet, diagnostics));
+  const context: ExpressionContext = { ...cabinetContext, shelf_pin_count: shelfPinCount };
+
+  // Evaluates an expression, collecting its diagnostic with where it comes from
+  const evaluate = (
+    expression: string,
+    expressionContext: ExpressionContext,
+    origin: Pick<ExpressionDiagnostic, 'zoneId' | 'hardwareRuleId' | 'hardwareId' | 'field'>
+  ): number => {
+    const { value, diagnostic } = evaluateExpressionWithDiagnostics(expression, expressionContext);
+    if (diagnostic) diagnostics.push({ ...diagnostic, ...origin });
+    return value;
+  };
+
+  // Zones that are still built on this instance, with their opening size
+  const zones = getZoneLayouts(pattern)
+    .map(({ zone, layout }, index) => ({
+      zone,
+      index,
+      width: evaluate(layout.widthExpression, context, { zoneId: zone.id, field: 'widthExpression' }),
+      height: evaluate(layout.heightExpression, context, { zoneId: zone.id, field: 'heightExpression' }),
+    }))
+    .filter(({ zone }) => {
+      const zoneRules = pattern.partRules.filter((rule) => rule.zoneId === zone.id);
+      return zoneRules.length === 0 || zoneRules.some((rule) => isPartRuleBuilt(rule, context, cabinet.optionalParts, diagnostics));
+    });
+
+  // Hinges for the doors of a zone: those drilled into its door parts as cut
+  const doorParts = calculateCabinetPartsWithHardware(cabinet, basePattern, globalSettings, ruleSet, materials, jointTypes, hardware)
+    .filter((part) => part.hingeSide);
+  const getZoneHingeCount = (zone: PatternZone, height: number): number => {
+    const zoneDoors = doorParts.filter((part) => part.zoneId === zone.id);
+    if (zoneDoors.length === 0 && !pattern.partRules.some((rule) => rule.zoneId === zone.id)) {
+      const leaves = zone.options?.hingeType === 'double' ? 2 : 1;
+      return leaves * getHingeCount(height - (context.door_gap ?? 0));
+    }
+    return zoneDoors.reduce((sum, part) => sum + part.quantity * (part.hinges?.length ?? 0), 0);
+  };
+
+  // Context of zone-level rules: the zone's opening, door leaves and hinges
+  const getZoneContext = (zone: PatternZone, index: number, width: number, height: number): ExpressionContext => ({
+    ...context,
+    zone_width: width,
+    zone_height: height,
+    zone_index: index,
+    door_leaves: zone.type === 'door' && zone.options?.hingeType === 'double' ? 2 : 1,
+    hinge_count: zone.type === 'door' ? getZoneHingeCount(zone, height) : 0,
+  });
+
+  const requirements: HardwareRequirement[] = [];
+
+  const addRequirement = (rule: HardwareRule, ruleContext: ExpressionContext, zone?: PatternZone) => {
+    const origin = { hardwareRuleId: rule.id, hardwareId: rule.hardwareId, field: 'quantityExpression' } as const;
+    const quantity = Math.max(0, Math.round(evaluate(rule.quantityExpression, ruleContext, origin)));
+    if (quantity === 0) return;
+
+    let item = zone?.type === 'door'
+      ? resolveZoneHinge(rule, hardware, globalSettings, cabinet, zone, ruleSet)
+      : resolveHardwareItem(rule, hardware, globalSettings, cabinet.hardwareOverrides, zone);
+    // Drawers use the slide their box was sized for (chosen on the zone, or the longest that fits)
+    if (zone?.type === 'drawer' && item?.type === 'drawer-slide') {
+      item = selectDrawerSlide(hardware, context.internal_depth, globalSettings, zone) ?? item;
+    }
+    if (!item) missingHardwareIds.add(rule.hardwareId);
+    const unitCost = item ? item.costPerUnit ?? item.pricePerUnit ?? 0 : undefined;
+
+    requirements.push({
+      hardwareId: item?.id ?? rule.hardwareId,
+      hardwareName: item?.name ?? rule.hardwareId,
+      quantity,
+      cabinetId: cabinet.id,
+      cabinetName: cabinet.name,
+      zoneId: zone?.id,
+      unitCost,
+      totalCost: unitCost !== undefined ? unitCost * quantity : undefined,
+    });
+  };
+
+  for (const rule of hardwareRules) {
+    const zoneTypes = rule.condition?.zoneType;
+
+    if (!zoneTypes || zoneTypes.length === 0) {
+      // Cabinet-level rule
+      if (meetsSizeCondition(rule, cabinet.dimensions.width, cabinet.dimensions.height)) {
+        addRequirement(rule, context);
+      }
+      continue;
+    }
+
+    for (const { zone, index, width, height } of zones) {
+      if (!zoneTypes.includes(zone.type) || !meetsSizeCondition(rule, width, height)) continue;
+      addRequirement(rule, getZoneContext(zone, index, width, height), zone);
+    }
+  }
+
+  // Handles of door and drawer fronts, unless the pattern counts handles with rules of its own
+  const hasHandleRules = hardwareRules.some((rule) => resolveHardwareItem(rule, hardware, globalSettings)?.type === 'handle');
+  if (!hasHandleRules) {
+    for (const { zone, index, width, height } of zones) {
+      const frontHandle = resolveFrontHandle(zone, hardware, globalSettings, cabinet, ruleSet);
+      if (frontHandle) addRequirement(frontHandle.rule, getZoneContext(zone, index, width, height), zone);
+    }
+  }
+
+  // Shelf pins of adjustable shelves, unless the pattern counts shelf pins with rules of its own
+  const hasShelfPinRules = hardwareRules.some((rule) => resolveHardwareItem(rule, hardware, globalSettings)?.type === 'shelf-pin');
+  if (!hasShelfPinRules && shelfPinCount > 0) addRequirement(SHELF_PIN_RULE, context);
+
+  return {
+    requirements,
+    diagnostics: uniqueDiagnostics(diagnostics),
+    missingHardwareIds: Array.from(missingHardwareIds),
+  };
+}
+
+/**
+ * Calculates the hardware of every cabinet in a project
+ */
+export function calculateProjectHardware(
+  cabinets: CabinetInstance[],
+  patterns: CabinetPattern[],
+  globalSettings: GlobalSettings,
+  hardware: HardwareItem[],
+  ruleSet?: RuleSet,
+  materials: Material[] = [],
+  jointTypes?: JointType[]
+): HardwareRequirement[] {
+  return cabinets.flatMap((cabinet) => {
+    const pattern = patterns.find((p) => p.id === cabinet.patternId);
+    return pattern ? calculateCabinetHardware(cabinet, pattern, globalSettings, hardware, ruleSet, materials, jointTypes) : [];
+  });
+}
+
+/**
+ * Consolidates hardware requirements into one line per hardware item (project totals)
+ */
+export function consolidateHardware(requirements: HardwareRequirement[]): HardwareRequirement[] {
+  const map = new Map<string, HardwareRequirement>();
+
+  for (const requirement of requirements) {
+    const existing = map.get(requirement.hardwareId);
+    if (existing) {
+      existing.quantity += requirement.quantity;
+      if (existing.totalCost !== undefined && requirement.totalCost !== undefined) {
+        existing.totalCost += requirement.totalCost;
+      }
+    } else {
+      map.set(requirement.hardwareId, {
+        hardwareId: requirement.hardwareId,
+        hardwareName: requirement.hardwareName,
+        quantity: requirement.quantity,
+        unitCost: requirement.unitCost,
+        totalCost: requirement.totalCost,
+      });
+    }
+  }
+
+  return Array.from(map.values());
+}
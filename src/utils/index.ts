@@ -1,2 +1,21 @@
 export * from './cabinetLogic';
+export * from './hardwareLogic';
+export { ExpressionError, parseExpression, evaluateExpressionNode, getExpressionIdentifiers, EXPRESSION_FUNCTIONS } from './expression';
+export type { ExpressionNode, ExpressionErrorKind } from './expression';
+export { generateZonePartRules, getZoneOrdinalKey } from './zoneRules';
+export type { ZoneLayoutExpressions } from './zoneRules';
+export { selectDrawerSlide, getDrawerSlideFit, getZoneVariablePrefix } from './drawerSlides';
+export type { DrawerSlideFit } from './drawerSlides';
+export { resolveDoorOverlayMode, getFrontOverlays, getHingeCrank, selectHingeForOverlay } from './frontOverlay';
+export type { FrontEdgeKind, FrontEdges } from './frontOverlay';
+export { isFramedFront, getFrontFrameDimensions, isHandleComponent, getRaisedPanelMachining, expandFrontRule, applyFrontStyleRules } from './frontStyles';
+export { resolveHandleConfig, resolveHandlePlacement, getHandleLayout, calculateHandleDrilling } from './handles';
+export type { HandleFront, HandleLayout } from './handles';
+export { getFittingPositions, getJointMachining, getGrooveMachining, getHingeMachining, getHandleMachining, addMachining } from './machining';
+export type { MachinedPart } from './machining';
+export { resolveShelfPinConfig, getShelfPinHeights, getShelfPinRows, getShelfPinMachining } from './shelfPins';
+export type { ShelfPinRange } from './shelfPins';
+export { resolveNestingSettings, getSheetGrain, nestCutList } from './nesting';
+export { resolveCostSettings, getMaterialUnitCost, calculateProjectCost } from './costing';
+export { resolveQuoteSettings, getCabinetFinishes, getQuoteLines } from './quote';
 export { cn } from './cn';
@@ -0,0 +1,197 @@
+import type {
+  CutPart,
+  HandleDrilling,
+  HingePosition,
+  JointConfig,
+  JointType,
+  MachiningBore,
+  MachiningOperation,
+  PartGroove,
+} from '../types';
+
+// ============================================
+// Machining Operations
+// ============================================
+
+const DOWEL_DIAMETER = 8;
+const DOWEL_FACE_DEPTH = 12; // Into the face of the receiving part
+const DOWEL_EDGE_DEPTH = 22; // Into the edge of the inserted part
+const CAM_DIAMETER = 15;
+const CAM_DEPTH = 13.5;
+const CAM_DISTANCE = 34; // Cam centre from the inserted part's edge
+const CAM_BOLT_DIAMETER = 8; // Bolt bore into the inserted part's edge
+const CAM_SCREW_DIAMETER = 5; // Connecting screw in the receiving part's face
+const CAM_SCREW_DEPTH = 11;
+const FITTING_END_DISTANCE = 50; // Dowels and cams from the ends of the joint
+const FITTING_MAX_SPACING = 400; // More fittings in between on longer joints
+
+type Edge = 'length1' | 'length2' | 'width1' | 'width2';
+
+/**
+ * Size of a part as machined: cut length, cut width and thickness (mm)
+ */
+export interface MachinedPart {
+  length: number;
+  width: number;
+  thickness: number;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Positions of dowels or cams along a joint: one at a fixed distance from each
+ * end, plus evenly spaced ones between them on long joints
+ */
+export function getFittingPositions(jointLength: number): number[] {
+  const end = Math.min(FITTING_END_DISTANCE, jointLength / 4);
+  const span = jointLength - 2 * end;
+  const gaps = Math.max(1, Math.ceil(span / FITTING_MAX_SPACING));
+  return Array.from({ length: gaps + 1 }, (_, i) => round(end + (span * i) / gaps));
+}
+
+/**
+ * Bore on the inner face of a part, `along` the given edge and `inset` from it
+ */
+function faceBoreAtEdge(
+  part: MachinedPart,
+  edge: Edge,
+  along: number,
+  inset: number,
+  bore: Pick<MachiningBore, 'diameter' | 'depth' | 'purpose'>
+): MachiningBore {
+  const position = {
+    length1: { x: along, y: inset },
+    length2: { x: along, y: part.width - inset },
+    width1: { x: inset, y: along },
+    width2: { x: part.length - inset, y: along },
+  }[edge];
+  return { type: 'bore', face: 'inner', ...position, ...bore };
+}
+
+/**
+ * Machining of the joints on a part's edges:
+ * - receiving rabbets, dados and grooves: a groove along the edge on the inner face,
+ *   as wide as the joint (or the part's thickness) and as deep as the joint
+ * - tongue and groove: the groove in the receiving edge, centred on its thickness
+ * - dowels: holes in the receiving part's face and in the inserted part's edge
+ * - cam locks: the connecting screw in the receiving part's face, the cam in the
+ *   inserted part's face and the bolt bore into its edge
+ *
+ * Inserted rabbets, dados and tongues need no machining of their own.
+ */
+export function getJointMachining(
+  joints: JointConfig | undefined,
+  jointTypes: JointType[],
+  part: MachinedPart
+): MachiningOperation[] {
+  const operations: MachiningOperation[] = [];
+  if (!joints) return operations;
+
+  for (const edge of ['length1', 'length2', 'width1', 'width2'] as const) {
+    const edgeConfig = joints[edge];
+    const jointType = edgeConfig && jointTypes.find((jt) => jt.id === edgeConfig.jointTypeId);
+    if (!edgeConfig || !jointType) continue;
+
+    const depth = edgeConfig.depthOverride ?? jointType.depth;
+    const width = jointType.width ?? part.thickness;
+    const jointLength = edge.startsWith('length') ? part.length : part.width;
+    const receiving = edgeConfig.role === 'receiving';
+
+    switch (jointType.category) {
+      case 'rabbet':
+      case 'dado':
+        if (receiving && depth > 0) {
+          const offset = jointType.category === 'dado' ? edgeConfig.offset ?? 0 : 0;
+          operations.push({ type: 'groove', face: 'inner', edge, offset, width, depth, purpose: 'joint' });
+        }
+        break;
+      case 'tongue-groove':
+        if (receiving && depth > 0) {
+          const offset = round((part.thickness - width) / 2);
+          operations.push({ type: 'groove', face: edge, edge, offset, width, depth, purpose: 'joint' });
+        }
+        break;
+      case 'dowel':
+        for (const along of getFittingPositions(jointLength)) {
+          operations.push(receiving
+            ? faceBoreAtEdge(part, edge, along, part.thickness / 2, { diameter: DOWEL_DIAMETER, depth: DOWEL_FACE_DEPTH, purpose: 'dowel' })
+            : { type: 'bore', face: edge, x: along, y: part.thickness / 2, diameter: DOWEL_DIAMETER, depth: DOWEL_EDGE_DEPTH, purpose: 'dowel' });
+        }
+        break;
+      case 'cam-lock':
+        for (const along of getFittingPositions(jointLength)) {
+          if (receiving) {
+            operations.push(faceBoreAtEdge(part, edge, along, part.thickness / 2, { diameter: CAM_SCREW_DIAMETER, depth: CAM_SCREW_DEPTH, purpose: 'cam' }));
+          } else {
+            operations.push(
+              faceBoreAtEdge(part, edge, along, CAM_DISTANCE, { diameter: CAM_DIAMETER, depth: CAM_DEPTH, purpose: 'cam' }),
+              { type: 'bore', face: edge, x: along, y: part.thickness / 2, diameter: CAM_BOLT_DIAMETER, depth: CAM_DISTANCE, purpose: 'cam' }
+            );
+          }
+        }
+        break;
+    }
+  }
+
+  return operations;
+}
+
+/**
+ * Grooves of a part (e.g. for an inset back panel), on its inner face
+ */
+export function getGrooveMachining(grooves: PartGroove[]): MachiningOperation[] {
+  return grooves.map(({ edge, offset, width, depth, purpose }) => ({
+    type: 'groove',
+    face: 'inner',
+    edge,
+    offset,
+    width,
+    depth,
+    purpose: purpose ?? 'joint',
+  }));
+}
+
+/**
+ * Hinge cup bores on the inner face of a door. On a slab door the hinge positions
+ * run up the width from the bottom edge; on the hinge stile of a framed door they
+ * run along its length, with the hinged edge as length1.
+ */
+export function getHingeMachining(
+  hinges: HingePosition[],
+  hingeSide: 'left' | 'right',
+  part: MachinedPart,
+  isStile = false
+): MachiningBore[] {
+  return hinges.map(({ cupBore }) => ({
+    type: 'bore',
+    face: 'inner',
+    x: isStile ? cupBore.y : hingeSide === 'left' ? cupBore.x : round(part.length - cupBore.x),
+    y: isStile ? cupBore.x : cupBore.y,
+    diameter: cupBore.diameter,
+    depth: cupBore.depth,
+    purpose: 'hinge-cup',
+  }));
+}
+
+/**
+ * Handle screw holes through a front, drilled from its outer face
+ */
+export function getHandleMachining(handle: HandleDrilling, part: MachinedPart): MachiningBore[] {
+  return handle.holes.map(({ x, y, diameter }) => ({
+    type: 'bore',
+    face: 'outer',
+    x,
+    y,
+    diameter,
+    depth: part.thickness,
+    purpose: 'handle',
+  }));
+}
+
+/**
+ * Appends machining operations to a part's list
+ */
+export function addMachining(part: CutPart, operations: MachiningOperation[]): CutPart {
+  if (operations.length === 0) return part;
+  return { ...part, machining: [...(part.machining ?? []), ...operations] };
+}
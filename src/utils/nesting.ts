@@ -0,0 +1,305 @@
+import type {
+  CutPart,
+  Material,
+  NestedPart,
+  NestedSheet,
+  NestingGroup,
+  NestingSettings,
+  Remnant,
+  SheetRect,
+  StockUsage,
+} from '../types';
+
+// ============================================
+// Sheet Nesting (guillotine)
+// ============================================
+
+const NESTING_DEFAULTS: Required<NestingSettings> = {
+  sheetLength: 2800,
+  sheetWidth: 2070,
+  kerf: 4,
+  trim: 10,
+  minOffcut: 200,
+};
+
+type Grain = NestingGroup['grain'];
+
+/**
+ * One piece to cut: a part of quantity n becomes n pieces
+ */
+interface Piece {
+  part: CutPart;
+  length: number;
+  width: number;
+  orientations: boolean[]; // Allowed values of `rotated`
+}
+
+/**
+ * Sheet size or kind of remnant that pieces can be cut from
+ */
+interface StockSheet {
+  source: 'sheet' | 'remnant';
+  remnantId?: string;
+  length: number;
+  width: number;
+  available?: number; // Untracked (bought as needed) when undefined
+}
+
+/**
+ * A sheet being filled: its parts and the free rectangles left between them
+ */
+interface OpenSheet {
+  stock: StockSheet;
+  parts: NestedPart[];
+  free: SheetRect[];
+}
+
+/**
+ * Nesting settings: the configured ones over the defaults
+ */
+export function resolveNestingSettings(settings?: NestingSettings): Required<NestingSettings> {
+  const configured = Object.fromEntries(
+    Object.entries(settings ?? {}).filter(([, value]) => value !== undefined)
+  );
+  return { ...NESTING_DEFAULTS, ...configured };
+}
+
+/**
+ * Grain of a board along the sheet: textured boards have it along the sheet's
+ * length when horizontal and along its width when vertical
+ */
+export function getSheetGrain(material?: Material): Grain {
+  if (material?.textureDirection === 'horizontal') return 'length';
+  if (material?.textureDirection === 'vertical') return 'width';
+  return 'none';
+}
+
+/**
+ * Orientations a part may be cut in. Parts with grain on a grained sheet keep their
+ * grain along the sheet's; the rest may be rotated.
+ */
+function getOrientations(partGrain: CutPart['grain'], sheetGrain: Grain): boolean[] {
+  if (!partGrain || partGrain === 'none' || sheetGrain === 'none') return [false, true];
+  return [partGrain !== sheetGrain];
+}
+
+/**
+ * Splits what is left of a free rectangle after cutting a piece from its corner.
+ * Both guillotine cuts are tried; the one leaving the larger offcut wins, so the
+ * remaining space stays in as few, as large pieces as possible.
+ */
+function splitFreeRect(free: SheetRect, length: number, width: number, kerf: number): SheetRect[] {
+  const usedLength = Math.min(free.length, length + kerf);
+  const usedWidth = Math.min(free.width, width + kerf);
+  const restLength = free.length - usedLength;
+  const restWidth = free.width - usedWidth;
+
+  // Cut across the full width first: the strip beside the piece runs the whole width
+  const alongWidth = [
+    { x: free.x + usedLength, y: free.y, length: restLength, width: free.width },
+    { x: free.x, y: free.y + usedWidth, length: usedLength, width: restWidth },
+  ];
+  // Cut along the full length first: the strip above the piece runs the whole length
+  const alongLength = [
+    { x: free.x + usedLength, y: free.y, length: restLength, width: usedWidth },
+    { x: free.x, y: free.y + usedWidth, length: free.length, width: restWidth },
+  ];
+
+  const largest = (rects: SheetRect[]) => Math.max(...rects.map((r) => r.length * r.width));
+  const split = largest(alongWidth) >= largest(alongLength) ? alongWidth : alongLength;
+  return split.filter((r) => r.length > 0 && r.width > 0);
+}
+
+/**
+ * Places a piece on a sheet in the free rectangle it fits best (least area left
+ * over). Returns false when it fits nowhere.
+ */
+function placePiece(sheet: OpenSheet, piece: Piece, kerf: number): boolean {
+  let best: { index: number; rotated: boolean; waste: number } | undefined;
+
+  sheet.free.forEach((free, index) => {
+    for (const rotated of piece.orientations) {
+      const length = rotated ? piece.width : piece.length;
+      const width = rotated ? piece.length : piece.width;
+      if (length > free.length || width > free.width) continue;
+      const waste = free.length * free.width - length * width;
+      if (!best || waste < best.waste) best = { index, rotated, waste };
+    }
+  });
+  if (!best) return false;
+
+  const free = sheet.free[best.index];
+  const length = best.rotated ? piece.width : piece.length;
+  const width = best.rotated ? piece.length : piece.width;
+  sheet.parts.push({
+    partName: piece.part.partName,
+    cabinetName: piece.part.cabinetName,
+    x: free.x,
+    y: free.y,
+    length,
+    width,
+    rotated: best.rotated,
+  });
+  sheet.free.splice(best.index, 1, ...splitFreeRect(free, length, width, kerf));
+  return true;
+}
+
+/**
+ * Stock a material's parts are cut from: its remnants (smallest first), then its
+ * standard sheets, or the configured sheet size when it defines none. Remnants are
+ * of the material's thickness, so parts of another thickness get none; `remnantsLeft`
+ * is how many of each remnant earlier groups left.
+ */
+function getGroupStock(
+  material: Material | undefined,
+  thickness: number | undefined,
+  remnants: Remnant[],
+  remnantsLeft: Map<string, number>,
+  settings: Required<NestingSettings>
+): { remnants: StockSheet[]; sheets: StockSheet[] } {
+  const sheetSizes = material?.sheetSizes?.length
+    ? material.sheetSizes
+    : [{ length: settings.sheetLength, width: settings.sheetWidth }];
+  const sameThickness = material !== undefined && (thickness ?? material.thickness) === material.thickness;
+
+  return {
+    remnants: remnants
+      .filter((r) => sameThickness && r.materialId === material.id && (remnantsLeft.get(r.id) ?? 0) > 0)
+      .sort((a, b) => a.length * a.width - b.length * b.width)
+      .map((r) => ({ source: 'remnant', remnantId: r.id, length: r.length, width: r.width, available: remnantsLeft.get(r.id) })),
+    sheets: sheetSizes.map((size) => ({ source: 'sheet', length: size.length, width: size.width, available: size.stock })),
+  };
+}
+
+/**
+ * Nests parts of one material. Remnants are laid out first, so every piece goes
+ * onto a remnant when one has room for it. Otherwise pieces go, largest first, onto
+ * the first open sheet with room; a new sheet is taken from the first size still in
+ * stock that takes the piece, or from the first that takes it at all when stock
+ * runs out (to be bought). Sheet edges are trimmed; remnants are already cut square.
+ */
+function nestGroup(
+  parts: CutPart[],
+  grain: Grain,
+  stock: { remnants: StockSheet[]; sheets: StockSheet[] },
+  settings: Required<NestingSettings>
+): Pick<NestingGroup, 'sheets' | 'stock' | 'unplaced' | 'yield'> {
+  const { kerf, trim, minOffcut } = settings;
+
+  const pieces: Piece[] = parts
+    .flatMap((part) =>
+      Array.from({ length: part.quantity }, () => ({
+        part,
+        length: part.length,
+        width: part.width,
+        orientations: getOrientations(part.grain, grain),
+      }))
+    )
+    .sort((a, b) =>
+      Math.max(b.length, b.width) - Math.max(a.length, a.width) || b.length * b.width - a.length * a.width
+    );
+
+  const openSheets: OpenSheet[] = stock.remnants.flatMap((remnant) =>
+    Array.from({ length: remnant.available ?? 0 }, () => ({
+      stock: remnant,
+      parts: [],
+      free: [{ x: 0, y: 0, length: remnant.length, width: remnant.width }],
+    }))
+  );
+  const taken = new Map<StockSheet, number>();
+  const unplaced: CutPart[] = [];
+
+  for (const piece of pieces) {
+    if (openSheets.some((sheet) => placePiece(sheet, piece, kerf))) continue;
+
+    const fits = (size: StockSheet) =>
+      piece.orientations.some((rotated) =>
+        (rotated ? piece.width : piece.length) <= size.length - 2 * trim &&
+        (rotated ? piece.length : piece.width) <= size.width - 2 * trim
+      );
+    const inStock = (size: StockSheet) => size.available === undefined || (taken.get(size) ?? 0) < size.available;
+    const size = stock.sheets.find((s) => fits(s) && inStock(s)) ?? stock.sheets.find(fits);
+    if (!size) {
+      if (!unplaced.includes(piece.part)) unplaced.push(piece.part);
+      continue;
+    }
+
+    const sheet: OpenSheet = {
+      stock: size,
+      parts: [],
+      free: [{ x: trim, y: trim, length: size.length - 2 * trim, width: size.width - 2 * trim }],
+    };
+    placePiece(sheet, piece, kerf);
+    openSheets.push(sheet);
+    taken.set(size, (taken.get(size) ?? 0) + 1);
+  }
+
+  const usedSheets = openSheets.filter((sheet) => sheet.parts.length > 0);
+  const sheets: NestedSheet[] = usedSheets.map(({ stock: source, parts: placed, free }) => ({
+    length: source.length,
+    width: source.width,
+    source: source.source,
+    remnantId: source.remnantId,
+    parts: placed,
+    offcuts: free.filter((r) => Math.min(r.length, r.width) >= minOffcut),
+    yield: placed.reduce((sum, p) => sum + p.length * p.width, 0) / (source.length * source.width),
+  }));
+
+  const usage: StockUsage[] = [...stock.remnants, ...stock.sheets].flatMap((source) => {
+    const used = usedSheets.filter((sheet) => sheet.stock === source).length;
+    return used > 0 ? [{ ...source, used }] : [];
+  });
+
+  const sheetArea = sheets.reduce((sum, sheet) => sum + sheet.length * sheet.width, 0);
+  const partArea = sheets.reduce((sum, sheet) => sum + sheet.yield * sheet.length * sheet.width, 0);
+
+  return {
+    sheets,
+    stock: usage,
+    unplaced,
+    yield: sheetArea > 0 ? partArea / sheetArea : 0,
+  };
+}
+
+/**
+ * Nests a cut list onto sheets, one nesting per material and thickness. Parts are
+ * cut from the material's remnants first (each remnant used by one nesting only),
+ * then from its sheets. They keep their
+ * grain along textured boards (Material.textureDirection); every cut loses the saw
+ * kerf and every sheet its trimmed edges.
+ */
+export function nestCutList(
+  parts: CutPart[],
+  materials: Material[],
+  settings?: NestingSettings,
+  remnants: Remnant[] = []
+): NestingGroup[] {
+  const resolved = resolveNestingSettings(settings);
+  const groups = new Map<string, CutPart[]>();
+
+  for (const part of parts) {
+    if (part.quantity <= 0 || part.length <= 0 || part.width <= 0) continue;
+    const key = `${part.materialId ?? part.material ?? ''}|${part.thickness ?? ''}`;
+    groups.set(key, [...(groups.get(key) ?? []), part]);
+  }
+
+  // Remnants still on hand: each one is used by one group only
+  const remnantsLeft = new Map(remnants.map((r) => [r.id, r.quantity]));
+
+  return [...groups.values()].map((groupParts) => {
+    const { materialId, material: materialName, thickness } = groupParts[0];
+    const material = materials.find((m) => m.id === materialId);
+    const grain = getSheetGrain(material);
+    const nesting = nestGroup(groupParts, grain, getGroupStock(material, thickness, remnants, remnantsLeft, resolved), resolved);
+    for (const usage of nesting.stock) {
+      if (usage.remnantId) remnantsLeft.set(usage.remnantId, (remnantsLeft.get(usage.remnantId) ?? 0) - usage.used);
+    }
+    return {
+      materialId,
+      materialName: material?.name ?? materialName ?? '',
+      thickness,
+      grain,
+      ...nesting,
+    };
+  });
+}
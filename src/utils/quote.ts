@@ -0,0 +1,104 @@
+import type {
+  CostSettings,
+  CutPart,
+  HardwareRequirement,
+  Material,
+  Project,
+  QuoteLine,
+  QuoteSettings,
+} from '../types';
+import { calculateProjectCost } from './costing';
+
+// ============================================
+// Client Quotation
+// ============================================
+
+const QUOTE_DEFAULTS = {
+  accentColor: '#1d4ed8',
+  pricing: 'line-items',
+  vatRate: 0.23,
+  validityDays: 30,
+  terms: 'Pagamento de 50% na adjudicação e o restante na entrega. Prazo de execução a confirmar na adjudicação.',
+} satisfies QuoteSettings;
+
+const HEX_COLOUR = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Quotation settings: the configured ones over the defaults. The accent colour must
+ * be a #rrggbb hex colour (it is written into the document's styles); any other
+ * value falls back to the default.
+ */
+export function resolveQuoteSettings(settings?: QuoteSettings): QuoteSettings & typeof QUOTE_DEFAULTS {
+  const configured = Object.fromEntries(
+    Object.entries(settings ?? {}).filter(([key, value]) =>
+      value !== undefined && (key !== 'accentColor' || HEX_COLOUR.test(String(value)))
+    )
+  );
+  return { ...QUOTE_DEFAULTS, ...configured };
+}
+
+/**
+ * Finishes of a cabinet as cut: the materials of its carcass and of its fronts
+ */
+export function getCabinetFinishes(parts: CutPart[]): { carcass: string[]; fronts: string[] } {
+  const names = (roles: CutPart['role'][]) => [
+    ...new Set(parts.filter((p) => roles.includes(p.role) && p.material).map((p) => p.material!)),
+  ];
+  return { carcass: names(['carcass']), fronts: names(['door', 'drawer-front']) };
+}
+
+/**
+ * Priced lines of a quotation: one per cabinet, with its parts, hardware and labour
+ * at library costs plus the markup, then one per countertop. The lines add up to
+ * the project's cost estimate.
+ */
+export function getQuoteLines(
+  project: Project,
+  parts: CutPart[],
+  hardware: HardwareRequirement[],
+  materials: Material[],
+  costSettings?: CostSettings
+): QuoteLine[] {
+  const cabinetLines = project.cabinets.map((cabinet): QuoteLine => {
+    const cabinetParts = parts.filter((p) => p.cabinetId === cabinet.id);
+    const cost = calculateProjectCost(
+      { ...project, cabinets: [cabinet], countertops: [] },
+      cabinetParts,
+      hardware.filter((h) => h.cabinetId === cabinet.id),
+      materials,
+      costSettings
+    );
+    const { width, height, depth } = cabinet.dimensions;
+    const finishes = getCabinetFinishes(cabinetParts);
+    const details = [
+      `${width} × ${height} × ${depth} mm`,
+      finishes.carcass.length > 0 ? `Caixa: ${finishes.carcass.join(', ')}` : '',
+      finishes.fronts.length > 0 ? `Frentes: ${finishes.fronts.join(', ')}` : '',
+    ].filter(Boolean);
+
+    return {
+      description: cabinet.name,
+      details: details.join(' · '),
+      cabinetId: cabinet.id,
+      quantity: 1,
+      unitPrice: cost.total,
+      total: cost.total,
+    };
+  });
+
+  const countertopLines = (project.countertops ?? []).map((countertop): QuoteLine => {
+    const cost = calculateProjectCost({ ...project, cabinets: [], countertops: [countertop] }, [], [], materials, costSettings);
+    const material = materials.find((m) => m.id === countertop.materialId);
+    return {
+      description: countertop.name,
+      details: [`${countertop.length} × ${countertop.width} × ${countertop.thickness} mm`, material?.name]
+        .filter(Boolean)
+        .join(' · '),
+      quantity: 1,
+      unitPrice: cost.total,
+      total: cost.total,
+    };
+  });
+
+  return [...cabinetLines, ...countertopLines];
+}
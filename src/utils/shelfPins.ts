@@ -0,0 +1,94 @@
+import type { MachiningBore, PatternZone, RuleSet, ShelfPinConfig, ShelfPinRow } from '../types';
+import type { MachinedPart } from './machining';
+
+// ============================================
+// Shelf Pins (System 32)
+// ============================================
+
+const SHELF_PIN_DEFAULTS: Required<ShelfPinConfig> = {
+  enabled: true,
+  pitch: 32,
+  frontSetback: 37,
+  backSetback: 37,
+  startOffset: 64,
+  endOffset: 64,
+  diameter: 5,
+  depth: 12,
+  pinsPerShelf: 4,
+};
+
+/**
+ * Vertical span of a shelf zone inside the carcass, measured from the top face
+ * of the bottom panel (mm)
+ */
+export interface ShelfPinRange {
+  bottom: number;
+  top: number;
+  config: Required<ShelfPinConfig>;
+}
+
+/**
+ * Shelf-pin config of a zone: zone limits > rule set > System 32 defaults
+ */
+export function resolveShelfPinConfig(ruleSet?: RuleSet, zone?: PatternZone): Required<ShelfPinConfig> {
+  // Limits cleared on the zone fall back to the rule set's
+  const zoneLimits = Object.fromEntries(
+    Object.entries(zone?.options?.shelfPins ?? {}).filter(([, value]) => value !== undefined)
+  );
+  return { ...SHELF_PIN_DEFAULTS, ...ruleSet?.shelfPins, ...zoneLimits };
+}
+
+/**
+ * Heights of the holes over a range, on the pitch from its lowest hole
+ */
+export function getShelfPinHeights(range: ShelfPinRange): number[] {
+  const { pitch, startOffset, endOffset } = range.config;
+  const first = range.bottom + startOffset;
+  const last = range.top - endOffset;
+  if (pitch <= 0 || last < first) return [];
+  return Array.from({ length: Math.floor((last - first) / pitch) + 1 }, (_, i) => first + i * pitch);
+}
+
+/**
+ * Front and back rows of shelf-pin holes on a side panel, one pair per range
+ * with holes. Heights are measured from the bottom end of the side, which sits
+ * `interiorBottom` below the top of the bottom panel.
+ */
+export function getShelfPinRows(ranges: ShelfPinRange[], interiorBottom: number): ShelfPinRow[] {
+  return ranges.flatMap((range) => {
+    const heights = getShelfPinHeights(range);
+    if (heights.length === 0) return [];
+    const { pitch, frontSetback, backSetback, diameter, depth } = range.config;
+    const row = {
+      start: interiorBottom + heights[0],
+      end: interiorBottom + heights[heights.length - 1],
+      pitch,
+      count: heights.length,
+      diameter,
+      depth,
+    };
+    return [
+      { edge: 'length1' as const, setback: frontSetback, ...row },
+      { edge: 'length2' as const, setback: backSetback, ...row },
+    ];
+  });
+}
+
+/**
+ * Bores of shelf-pin rows on a side panel or divider, on the face of each row (the
+ * inner face by default). The panel's length runs from its top end (width1) down, so
+ * a hole's x is the panel's length less its height.
+ */
+export function getShelfPinMachining(rows: ShelfPinRow[], part: MachinedPart): MachiningBore[] {
+  return rows.flatMap((row) =>
+    Array.from({ length: row.count }, (_, i): MachiningBore => ({
+      type: 'bore',
+      face: row.face ?? 'inner',
+      x: part.length - (row.start + i * row.pitch),
+      y: row.edge === 'length1' ? row.setback : part.width - row.setback,
+      diameter: row.diameter,
+      depth: row.depth,
+      purpose: 'shelf-pin',
+    }))
+  );
+}
@@ -0,0 +1,197 @@
+import type { PartRule, PatternZone } from '../types';
+import { getZoneVariablePrefix } from './drawerSlides';
+
+// ============================================
+// Zone Part Rule Generator
+// ============================================
+
+/**
+ * Expressions giving the size of a zone's opening in the expression context
+ */
+export interface ZoneLayoutExpressions {
+  widthExpression: string; // e.g. "column_0_width"
+  heightExpression: string; // e.g. "col_0_zone_1_height"
+}
+
+/**
+ * Generates the part rules for a single zone, based on its type.
+ * Sizes are derived from the zone's opening (computed zone height and column width)
+ * and the rule set clearances in the expression context. Fronts extend past the
+ * opening by the zone's overlays (see getFrontOverlays()), which include the gaps;
+ * they and the other zone variables are named by getZoneVariablePrefix(), which keeps
+ * editor-made zone ids (starting with a timestamp) valid in expressions.
+ *
+ * Rule ids are derived from the zone id so instance settings keyed by rule id
+ * (optional parts, material overrides) survive regeneration.
+ *
+ * @param zone - Zone to generate parts for
+ * @param layout - Expressions for the zone's width and height
+ * @param ordinal - 1-based number of the zone among zones of its type (used in part names)
+ */
+export function generateZonePartRules(
+  zone: PatternZone,
+  layout: ZoneLayoutExpressions,
+  ordinal: number
+): PartRule[] {
+  const { widthExpression: w, heightExpression: h } = layout;
+  const prefix = getZoneVariablePrefix(zone);
+  const frontWidth = `${w} + ${prefix}_overlay_left + ${prefix}_overlay_right`;
+  const frontHeight = `${h} + ${prefix}_overlay_top + ${prefix}_overlay_bottom`;
+
+  switch (zone.type) {
+    case 'drawer': {
+      // Box dimensions follow the zone's drawer slide (see selectDrawerSlide()),
+      // and the box parts follow the rule set's drawer construction: the box stands on
+      // its bottom (sides on bottom) or holds it in grooves near the bottom edge of its
+      // sides, front and back (bottom in groove, see getDrawerBottomGrooves()).
+      // The box parts have their top edge as length1 and their bottom edge as length2.
+      const boxHeight = `${h} - ${prefix}_box_height_clearance`;
+      const wallHeight = `${boxHeight} - drawer_sides_on_bottom * drawer_bottom_thickness`;
+      const boxDepth = `${prefix}_box_depth`;
+      const boxWidth = `${w} - 2 * ${prefix}_slide_offset`;
+      const woodBox: Omit<PartRule, 'id' | 'partName' | 'lengthExpression' | 'widthExpression' | 'quantityExpression'> = {
+        zoneId: zone.id,
+        material: 'MDF',
+        grain: 'length',
+        role: 'drawer-box',
+        edgeBanding: { length1: true },
+        condition: '!drawer_metal_sided',
+      };
+      const bottom: Omit<PartRule, 'id' | 'lengthExpression' | 'widthExpression' | 'condition'> = {
+        zoneId: zone.id,
+        partName: `Fundo Gaveta ${ordinal}`,
+        quantityExpression: '1',
+        material: 'HDF 3mm',
+        grain: 'none',
+        role: 'drawer-bottom',
+      };
+      return [
+        // Drawer front (decorative)
+        {
+          id: `${zone.id}-drawer-front`,
+          zoneId: zone.id,
+          partName: `Frente Gaveta ${ordinal}`,
+          lengthExpression: frontWidth,
+          widthExpression: frontHeight,
+          quantityExpression: '1',
+          material: 'MDF',
+          grain: 'width',
+          role: 'drawer-front',
+        },
+        // Drawer box sides (2x)
+        {
+          ...woodBox,
+          id: `${zone.id}-drawer-sides`,
+          partName: `Ilharga Gaveta ${ordinal}`,
+          lengthExpression: boxDepth,
+          widthExpression: wallHeight,
+          quantityExpression: '2',
+        },
+        // Drawer box front and back (between the sides)
+        {
+          ...woodBox,
+          id: `${zone.id}-drawer-front-back`,
+          partName: `Testa/Costas Gaveta ${ordinal}`,
+          lengthExpression: `${boxWidth} - 2 * drawer_thickness`,
+          widthExpression: wallHeight,
+          quantityExpression: '2',
+        },
+        // Drawer bottom, sides on bottom: the box sits on it
+        {
+          ...bottom,
+          id: `${zone.id}-drawer-bottom`,
+          lengthExpression: boxWidth,
+          widthExpression: boxDepth,
+          condition: 'drawer_sides_on_bottom',
+        },
+        // Drawer bottom, bottom in groove: inside the box, into the grooves of all four sides
+        {
+          ...bottom,
+          id: `${zone.id}-drawer-bottom-groove`,
+          lengthExpression: `${boxWidth} - 2 * drawer_thickness + 2 * drawer_bottom_groove_depth`,
+          widthExpression: `${boxDepth} - 2 * drawer_thickness + 2 * drawer_bottom_groove_depth`,
+          condition: 'drawer_bottom_in_groove',
+        },
+        // Metal-sided drawer system: only the bottom and the back are cut
+        {
+          ...bottom,
+          id: `${zone.id}-drawer-bottom-metal`,
+          lengthExpression: `${w} - metal_drawer_bottom_deduction`,
+          widthExpression: `${boxDepth} - metal_drawer_bottom_depth_deduction`,
+          condition: 'drawer_metal_sided',
+        },
+        {
+          id: `${zone.id}-drawer-back-metal`,
+          zoneId: zone.id,
+          partName: `Costas Gaveta ${ordinal}`,
+          lengthExpression: `${w} - metal_drawer_back_deduction`,
+          widthExpression: boxHeight,
+          quantityExpression: '1',
+          material: 'MDF',
+          grain: 'length',
+          role: 'drawer-box',
+          condition: 'drawer_metal_sided',
+        },
+      ];
+    }
+    case 'door': {
+      const door: Omit<PartRule, 'id' | 'lengthExpression' | 'hingeSide'> = {
+        zoneId: zone.id,
+        partName: `Porta ${ordinal}`,
+        widthExpression: frontHeight,
+        quantityExpression: '1',
+        material: 'MDF',
+        grain: 'width',
+        role: 'door',
+      };
+      // A double door is two leaves, hinged on opposite sides
+      if (zone.options?.hingeType === 'double') {
+        const leafLength = `(${frontWidth} - door_gap) / 2`;
+        return [
+          { ...door, id: `${zone.id}-door-left`, lengthExpression: leafLength, hingeSide: 'left' },
+          { ...door, id: `${zone.id}-door-right`, lengthExpression: leafLength, hingeSide: 'right' },
+        ];
+      }
+      return [{
+        ...door,
+        id: `${zone.id}-door`,
+        lengthExpression: frontWidth,
+        hingeSide: zone.options?.hingeType === 'right' ? 'right' : 'left',
+      }];
+    }
+    case 'shelf':
+      return [{
+        id: `${zone.id}-shelf`,
+        zoneId: zone.id,
+        partName: `Prateleira ${ordinal}`,
+        lengthExpression: `${w} - shelf_fit_clearance`,
+        widthExpression: 'internal_depth - shelf_inset',
+        quantityExpression: '1',
+        material: 'MDF',
+        grain: 'length',
+        role: 'shelf',
+      }];
+    case 'fixed-shelf':
+      return [{
+        id: `${zone.id}-shelf`,
+        zoneId: zone.id,
+        partName: `Prateleira Fixa ${ordinal}`,
+        lengthExpression: w,
+        widthExpression: 'internal_depth',
+        quantityExpression: '1',
+        material: 'MDF',
+        grain: 'length',
+        role: 'shelf',
+      }];
+    default:
+      // Openings, appliance spaces and dividers have no parts of their own
+      return [];
+  }
+}
+
+/**
+ * Counter for part names: shelves and fixed shelves share a sequence
+ */
+export function getZoneOrdinalKey(zone: PatternZone): string {
+  return zone.type === 'fixed-shelf' ? 'shelf' : zone.type;
+}